@@ -1,53 +1,98 @@
-import { useState, useEffect, useCallback, useRef } from 'react';
-import { Mic, MicOff, Settings, Info, Music, Circle, Square } from 'lucide-react';
-import { SmartAudioProcessor, HarmonyAnalysis } from './utils/audioProcessor';
-import { KeyDetector } from './utils/keyDetection';
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { Mic, MicOff, Settings, Info, Music, Gauge } from 'lucide-react';
+import { SmartAudioProcessor, HarmonyAnalysis, AudioFrameData, TuningState } from './utils/audioProcessor';
+import { FrameAnalyzerSettings } from './utils/frameAnalyzer';
+import { KeyTracker, predominantKey } from './utils/keyTracker';
+import { ChordRecognizer } from './utils/chordRecognizer';
+import { NoteTracker } from './utils/noteTracker';
+import { RecordingAnalysisCollector } from './utils/recordingAnalysis';
+import { TimeSignature } from './utils/beatTracker';
+import { Transcription } from './utils/transcription';
+import { KEY_PROFILES, KeyProfile } from './utils/keyProfiles';
+import { KEY_MODE_SETS } from './utils/keyDetection';
 import { MusicTheoryEngine } from './utils/musicTheory';
-import { AudioState, PitchData, KeyDetectionResult } from './types/audio';
-import { KeyOverride, Scale } from './types/music';
-import { AudioRecorder } from './utils/audioRecorder';
+import { AudioState, PitchData, KeyDetectionResult, KeySegment, KeyModulation, ChordEstimate, ChordSegment, NoteEvent } from './types/audio';
+import { KeyOverride, KeyMode, Scale } from './types/music';
+import { AudioRecorder, DEFAULT_RECORDER_OPTIONS, RecorderLevel, RecorderLimit, RecorderOptions } from './utils/audioRecorder';
+import { AudioInputSource, MicrophoneInputSource, PlaybackInputSource } from './utils/audioInputSource';
 import { RecordingService } from './services/recordingService';
 import AudioStatusIndicator from './components/AudioStatusIndicator';
 import KeyDisplay from './components/KeyDisplay';
+import ChordProgression from './components/ChordProgression';
+import SessionExport from './components/SessionExport';
 import PianoKeyboard from './components/PianoKeyboard';
 import PitchVisualizer from './components/PitchVisualizer';
+import TunerView from './components/TunerView';
 import RecordingsList from './components/RecordingsList';
 import InstrumentalsList from './components/InstrumentalsList';
 import InstrumentalRecorder from './components/InstrumentalRecorder';
 import InstrumentalPlayer from './components/InstrumentalPlayer';
 import LyricsDisplay from './components/LyricsDisplay';
-import { Instrumental } from './lib/supabase';
+import InputSourceSettings from './components/InputSourceSettings';
+import AnalysisSettings from './components/AnalysisSettings';
+import RecordingSettings from './components/RecordingSettings';
+import RecordingControls from './components/RecordingControls';
+import { Instrumental, InstrumentalMarker } from './lib/supabase';
 
 function App() {
   // Audio processing state
   const [audioProcessor] = useState(() => new SmartAudioProcessor());
-  const [keyDetector] = useState(() => new KeyDetector());
+  const [keyTracker] = useState(() => new KeyTracker());
+  const [chordRecognizer] = useState(() => new ChordRecognizer());
+  const [noteTracker] = useState(() => new NoteTracker());
+  const [recordingAnalysis] = useState(() => new RecordingAnalysisCollector());
   const [audioRecorder] = useState(() => new AudioRecorder());
   const [isRecording, setIsRecording] = useState(false);
   const [isInitialized, setIsInitialized] = useState(false);
   const [initError, setInitError] = useState<string | null>(null);
   const [isSavingRecording, setIsSavingRecording] = useState(false);
   const [isRecordingAudio, setIsRecordingAudio] = useState(false);
-  const [mediaStream, setMediaStream] = useState<MediaStream | null>(null);
+  const [recorderOptions, setRecorderOptions] = useState<RecorderOptions>(DEFAULT_RECORDER_OPTIONS);
+  const [isRecordingPaused, setIsRecordingPaused] = useState(false);
+  const [recordingElapsed, setRecordingElapsed] = useState(0);
+  const [recorderLevel, setRecorderLevel] = useState<RecorderLevel | null>(null);
+  const [inputClipped, setInputClipped] = useState(false);
+  const [recordingLimit, setRecordingLimit] = useState<RecorderLimit | null>(null);
   const [refreshRecordings, setRefreshRecordings] = useState(0);
   const [selectedInstrumental, setSelectedInstrumental] = useState<Instrumental | null>(null);
+  const [instrumentalMarkerUpdate, setInstrumentalMarkerUpdate] = useState<{ id: string; markers: InstrumentalMarker[] } | null>(null);
+  const [inputLabel, setInputLabel] = useState(() => audioProcessor.getInputSource().label);
+  const [showInputSettings, setShowInputSettings] = useState(false);
+  const [analysisSettings, setAnalysisSettings] = useState<FrameAnalyzerSettings>(() => audioProcessor.getSettings());
+  const [tuning, setTuning] = useState<TuningState>(() => audioProcessor.getTuning());
 
   // Audio analysis state
   const [audioState, setAudioState] = useState<AudioState>(AudioState.IDLE);
   const [amplitude, setAmplitude] = useState(-60);
   const [noiseGateOpen, setNoiseGateOpen] = useState(false);
   const [pitchHistory, setPitchHistory] = useState<PitchData[]>([]);
+  const [currentPitch, setCurrentPitch] = useState<PitchData | null>(null);
+  const [showTuner, setShowTuner] = useState(false);
   
   // Enhanced harmony and rhythm state
   const [harmonyAnalysis, setHarmonyAnalysis] = useState<HarmonyAnalysis | null>(null);
   const [melodyNotes, setMelodyNotes] = useState<string[]>([]);
   const [chordNotes, setChordNotes] = useState<string[]>([]);
   const [currentTempo, setCurrentTempo] = useState(120);
+  const [timeSignature, setTimeSignature] = useState<TimeSignature>('4/4');
+  const [lastDownbeat, setLastDownbeat] = useState<number | null>(null);
   const [isOnBeat, setIsOnBeat] = useState(false);
   
   // Key detection state
   const [detectedKey, setDetectedKey] = useState<KeyDetectionResult | null>(null);
   const [keyConfidence, setKeyConfidence] = useState(0);
+  const [keyTimeline, setKeyTimeline] = useState<KeySegment[]>([]);
+  const [modulations, setModulations] = useState<KeyModulation[]>([]);
+  const [keyProfiles, setKeyProfiles] = useState<KeyProfile[]>(KEY_PROFILES);
+  const [keyProfile, setKeyProfile] = useState<KeyProfile>(() => keyTracker.getProfile());
+  const [keyModeSetId, setKeyModeSetId] = useState(KEY_MODE_SETS[0].id);
+
+  // Chord recognition state
+  const [currentChord, setCurrentChord] = useState<ChordEstimate | null>(null);
+  const [chordTimeline, setChordTimeline] = useState<ChordSegment[]>([]);
+
+  // Notes played this session, for transcription and export
+  const [noteEvents, setNoteEvents] = useState<NoteEvent[]>([]);
   const [keyOverride, setKeyOverride] = useState<KeyOverride>({
     isActive: false,
     selectedKey: '',
@@ -91,45 +136,72 @@ function App() {
   // Handle audio recording
   const startRecording = useCallback(async () => {
     try {
-      const stream = await navigator.mediaDevices.getUserMedia({
-        audio: {
-          sampleRate: 44100,
-          echoCancellation: false,
-          noiseSuppression: false,
-          autoGainControl: false,
+      // Record the input being analysed, not whatever the default device is
+      const stream = audioProcessor.getInputStream();
+      if (!stream) throw new Error('Audio input is not running');
+      setRecordingElapsed(0);
+      setRecorderLevel(null);
+      setInputClipped(false);
+      setIsRecordingPaused(false);
+      await audioRecorder.start(stream, recorderOptions, {
+        onLevel: (level) => {
+          setRecorderLevel(level);
+          if (level.clipped) setInputClipped(true);
+        },
+        onProgress: (duration) => setRecordingElapsed(duration),
+        onLimitReached: (limit) => {
+          recordingAnalysis.pause(Date.now() / 1000);
+          setIsRecordingPaused(true);
+          setRecordingLimit(limit);
         }
       });
-      setMediaStream(stream);
-      await audioRecorder.start(stream);
+      recordingAnalysis.start(Date.now() / 1000);
       setIsRecordingAudio(true);
       console.log('Recording started');
     } catch (error) {
       console.error('Failed to start recording:', error);
+      audioProcessor.releaseInputStream();
       setInitError('Failed to start recording. Please check microphone permissions.');
     }
-  }, [audioRecorder]);
+  }, [audioProcessor, audioRecorder, recorderOptions, recordingAnalysis]);
 
   const stopRecording = useCallback(async () => {
     try {
       setIsSavingRecording(true);
+      // Live frame times are wall-clock, so the trackers' timelines can be
+      // moved onto the recording's time line directly
+      const activeNote = noteTracker.getActiveNote();
+      const analysis = recordingAnalysis.finish(Date.now() / 1000, {
+        keyTimeline: keyTracker.getTimeline(),
+        chords: chordRecognizer.getTimeline(),
+        notes: activeNote ? [...noteEvents, activeNote] : noteEvents
+      });
       const { blob, duration } = await audioRecorder.stop();
 
-      if (mediaStream) {
-        mediaStream.getTracks().forEach(track => track.stop());
-        setMediaStream(null);
-      }
+      audioProcessor.releaseInputStream();
 
       setIsRecordingAudio(false);
+      setIsRecordingPaused(false);
+      setRecorderLevel(null);
+      if (audioRecorder.getClippedSamples() > 0) {
+        console.warn(`Recording clipped on ${audioRecorder.getClippedSamples()} samples`);
+      }
 
-      const currentKey = keyOverride.isActive
-        ? keyOverride.selectedKey
-        : (detectedKey?.key || '');
-      const currentMode = keyOverride.isActive
-        ? keyOverride.selectedMode
-        : (detectedKey?.mode || 'major');
+      // The key held for longest, unless one is set by hand
+      const recordingKey = keyOverride.isActive
+        ? { key: keyOverride.selectedKey, mode: keyOverride.selectedMode }
+        : analysis.key ?? (detectedKey && { key: detectedKey.key, mode: detectedKey.mode });
 
       console.log('Saving recording...');
-      const recording = await RecordingService.saveRecording(blob, duration, currentKey, currentMode);
+      const recording = await RecordingService.saveRecording(
+        blob,
+        duration,
+        recordingKey?.key ?? '',
+        recordingKey?.mode ?? 'major',
+        analysis.keyTimeline,
+        analysis,
+        keyOverride.isActive
+      );
 
       if (recording) {
         console.log('Recording saved successfully:', recording);
@@ -144,29 +216,59 @@ function App() {
       console.error('Failed to stop recording:', error);
       setIsSavingRecording(false);
       setIsRecordingAudio(false);
+      setIsRecordingPaused(false);
     }
-  }, [audioRecorder, mediaStream, detectedKey, keyOverride]);
+  }, [audioProcessor, audioRecorder, detectedKey, keyOverride, keyTracker, chordRecognizer, noteTracker, noteEvents, recordingAnalysis]);
+
+  const pauseRecording = useCallback(() => {
+    audioRecorder.pause();
+    recordingAnalysis.pause(Date.now() / 1000);
+    setIsRecordingPaused(true);
+  }, [audioRecorder, recordingAnalysis]);
+
+  const resumeRecording = useCallback(() => {
+    audioRecorder.resume();
+    recordingAnalysis.resume(Date.now() / 1000);
+    setIsRecordingPaused(false);
+  }, [audioRecorder, recordingAnalysis]);
+
+  // The recorder pauses itself at a limit; save what it has
+  useEffect(() => {
+    if (!recordingLimit) return;
+    setRecordingLimit(null);
+    console.log(`Recording reached its ${recordingLimit} limit, saving`);
+    stopRecording();
+  }, [recordingLimit, stopRecording]);
 
   // Enhanced audio data callback with rhythm and harmony analysis
-  const handleAudioData = useCallback((data: {
-    state: AudioState;
-    pitch: PitchData | null;
-    chroma: any;
-    amplitude: number;
-    noiseGateOpen: boolean;
-    harmonyAnalysis: HarmonyAnalysis | null;
-  }) => {
+  const handleAudioData = useCallback((data: AudioFrameData) => {
     setAudioState(data.state);
     setAmplitude(data.amplitude);
     setNoiseGateOpen(data.noiseGateOpen);
+    setCurrentPitch(data.pitch);
+    recordingAnalysis.addFrame(data);
+    // The estimate drifts by fractions of a cent every frame; only re-render on visible changes
+    setTuning(prev => (
+      prev.source === data.tuning.source &&
+      Math.abs(prev.referenceA4 - data.tuning.referenceA4) < 0.05 &&
+      Math.abs(prev.estimate.referenceA4 - data.tuning.estimate.referenceA4) < 0.05 &&
+      Math.abs(prev.estimate.confidence - data.tuning.estimate.confidence) < 0.02
+    ) ? prev : data.tuning);
     
+    // Rhythm is tracked on every frame, not only when notes are heard
+    setCurrentTempo(data.rhythm.tempo);
+    setTimeSignature(data.rhythm.timeSignature);
+    const { downbeatTimes } = data.rhythm;
+    if (downbeatTimes.length > 0) {
+      setLastDownbeat(downbeatTimes[downbeatTimes.length - 1] / 1000);
+    }
+    setIsOnBeat(data.rhythm.isOnBeat);
+
     // Update harmony analysis
     if (data.harmonyAnalysis) {
       setHarmonyAnalysis(data.harmonyAnalysis);
       setMelodyNotes(data.harmonyAnalysis.melodyNotes);
       setChordNotes(data.harmonyAnalysis.chordNotes);
-      setCurrentTempo(data.harmonyAnalysis.rhythmData.tempo);
-      setIsOnBeat(data.harmonyAnalysis.rhythmData.isOnBeat);
       
       // Combine melody and chord notes for overall detection
       const allNotes = [...data.harmonyAnalysis.melodyNotes, ...data.harmonyAnalysis.chordNotes];
@@ -175,7 +277,7 @@ function App() {
         return uniqueNotes.slice(-12); // Keep last 12 unique notes
       });
       
-      console.log(`Harmony Analysis - Type: ${data.harmonyAnalysis.harmonyType}, Melody: [${data.harmonyAnalysis.melodyNotes.join(', ')}], Chords: [${data.harmonyAnalysis.chordNotes.join(', ')}], Tempo: ${data.harmonyAnalysis.rhythmData.tempo} BPM, Beat: ${data.harmonyAnalysis.rhythmData.currentBeat}/4`);
+      console.log(`Harmony Analysis - Type: ${data.harmonyAnalysis.harmonyType}, Melody: [${data.harmonyAnalysis.melodyNotes.join(', ')}], Chords: [${data.harmonyAnalysis.chordNotes.join(', ')}], Tempo: ${data.harmonyAnalysis.rhythmData.tempo} BPM, Beat: ${data.harmonyAnalysis.rhythmData.currentBeat}/${data.harmonyAnalysis.rhythmData.beatsPerBar} (${data.harmonyAnalysis.rhythmData.timeSignature})`);
     }
     
     // Add pitch to history
@@ -186,27 +288,48 @@ function App() {
       });
       
       try {
-        const note = MusicTheoryEngine.getNoteFromFrequency(data.pitch.frequency);
+        const note = MusicTheoryEngine.getNoteFromFrequency(data.pitch.frequency, data.tuning.referenceA4);
         console.log(`Primary pitch: ${note.name} (${data.pitch.frequency.toFixed(1)}Hz, conf: ${data.pitch.confidence.toFixed(2)})`);
       } catch (error) {
         console.error('Error processing primary pitch:', error);
       }
     }
     
-    // Key detection from chroma data - more sensitive and responsive
-    if (data.chroma && !keyOverride.isActive) {
+    // Key tracking from chroma data. Keeps running under a manual override so
+    // the timeline has no holes; the tracker returns the same objects until
+    // it has decoded a new step, so most frames cause no re-render.
+    if (data.chroma) {
       try {
-        const key = keyDetector.detectKey(data.chroma);
-        // Lowered confidence threshold for faster detection
-        if (key && key.confidence > 0.01) {
+        const key = keyTracker.update(data.chroma, data.timestamp / 1000);
+        if (key) {
           setDetectedKey(key);
           setKeyConfidence(key.confidence);
+          setKeyTimeline(keyTracker.getTimeline());
+          setModulations(keyTracker.getModulations());
         }
       } catch (error) {
         console.error('Error in key detection:', error);
       }
     }
-  }, [keyDetector, keyOverride.isActive]);
+
+    // Silent frames go in too, so chords end when the sound does
+    try {
+      const chord = chordRecognizer.update(data.chroma, data.timestamp / 1000);
+      setCurrentChord(prev => (prev?.label === chord?.label ? prev : chord));
+      setChordTimeline(chordRecognizer.getTimeline());
+    } catch (error) {
+      console.error('Error in chord recognition:', error);
+    }
+
+    const finishedNotes = noteTracker.update(
+      { pitch: data.pitch, amplitude: data.amplitude, onset: data.rhythm.onset },
+      data.timestamp / 1000,
+      data.tuning.referenceA4
+    );
+    if (finishedNotes.length > 0) {
+      setNoteEvents(prev => [...prev, ...finishedNotes]);
+    }
+  }, [keyTracker, chordRecognizer, noteTracker, recordingAnalysis]);
 
   // Update current scale when key changes
   useEffect(() => {
@@ -229,7 +352,7 @@ function App() {
   }, [detectedKey, keyOverride]);
 
   // Handle manual key override
-  const handleKeyOverride = useCallback((key: string, mode: 'major' | 'minor') => {
+  const handleKeyOverride = useCallback((key: string, mode: KeyMode) => {
     console.log(`Manual key override: ${key} ${mode}`);
     
     if (keyOverride.isActive && keyOverride.selectedKey === key && keyOverride.selectedMode === mode) {
@@ -240,7 +363,6 @@ function App() {
         selectedMode: 'major',
         timestamp: 0
       });
-      keyDetector.reset();
     } else {
       console.log('Setting manual key override');
       setKeyOverride({
@@ -250,7 +372,13 @@ function App() {
         timestamp: Date.now()
       });
     }
-  }, [keyOverride, keyDetector]);
+  }, [keyOverride]);
+
+  // Change the mode of a manual key without leaving manual mode
+  const handleOverrideModeChange = useCallback((mode: KeyMode) => {
+    console.log(`Manual key mode: ${mode}`);
+    setKeyOverride(prev => ({ ...prev, selectedMode: mode, timestamp: Date.now() }));
+  }, []);
 
   // Start/stop recording
   const toggleRecording = useCallback(async () => {
@@ -258,7 +386,10 @@ function App() {
       console.log('Stopping audio recording...');
       audioProcessor.stop();
       setIsRecording(false);
+      // stop() closes the audio context, so the next start must re-initialise
+      setIsInitialized(false);
       setPitchHistory([]);
+      setCurrentPitch(null);
       setDetectedNotes([]);
       setMelodyNotes([]);
       setChordNotes([]);
@@ -266,6 +397,10 @@ function App() {
       setAudioState(AudioState.IDLE);
       setDetectedKey(null);
       setKeyConfidence(0);
+      const lastNotes = noteTracker.flush(Date.now() / 1000);
+      if (lastNotes.length > 0) {
+        setNoteEvents(prev => [...prev, ...lastNotes]);
+      }
       return;
     }
 
@@ -293,6 +428,15 @@ function App() {
     if (initializationSuccessful) {
       console.log('Starting enhanced audio recording with rhythm and harmony detection...');
       try {
+        keyTracker.reset();
+        setKeyTimeline([]);
+        setModulations([]);
+        chordRecognizer.reset();
+        setCurrentChord(null);
+        setChordTimeline([]);
+        noteTracker.reset();
+        setNoteEvents([]);
+        setLastDownbeat(null);
         audioProcessor.start(handleAudioData);
         setIsRecording(true);
         setInitError(null);
@@ -301,7 +445,98 @@ function App() {
         setInitError('Failed to start audio processing. Please try again.');
       }
     }
-  }, [isInitialized, isRecording, audioProcessor, handleAudioData]);
+  }, [isInitialized, isRecording, audioProcessor, handleAudioData, keyTracker, chordRecognizer, noteTracker]);
+
+  // Switch the analysed input (device, channel, test tone or instrumental playback)
+  const handleInputSourceChange = useCallback(async (source: AudioInputSource) => {
+    const success = await audioProcessor.setInputSource(source);
+    if (success) {
+      setInputLabel(source.label);
+      setInitError(null);
+      keyTracker.reset();
+      setKeyTimeline([]);
+      setModulations([]);
+      chordRecognizer.reset();
+      setCurrentChord(null);
+      setChordTimeline([]);
+      noteTracker.reset();
+      setNoteEvents([]);
+      setLastDownbeat(null);
+    } else {
+      setInitError(`Failed to switch input to ${source.label}.`);
+    }
+    return success;
+  }, [audioProcessor, keyTracker, chordRecognizer, noteTracker]);
+
+  const handleAnalysisSettingsChange = useCallback((settings: FrameAnalyzerSettings) => {
+    audioProcessor.updateSettings(settings);
+    setAnalysisSettings(audioProcessor.getSettings());
+    setTuning(audioProcessor.getTuning());
+  }, [audioProcessor]);
+
+  const handleKeyProfileChange = useCallback((profile: KeyProfile) => {
+    console.log(`Key profile: ${profile.name}`);
+    keyTracker.setProfile(profile);
+    setKeyProfile(profile);
+  }, [keyTracker]);
+
+  const handleKeyModeSetChange = useCallback((id: string) => {
+    const modeSet = KEY_MODE_SETS.find(set => set.id === id);
+    if (!modeSet) return;
+    console.log(`Key modes: ${modeSet.label}`);
+    keyTracker.setModes(modeSet.modes);
+    setKeyModeSetId(id);
+  }, [keyTracker]);
+
+  // Custom profiles replace any loaded earlier under the same id
+  const handleKeyProfilesLoaded = useCallback((loaded: KeyProfile[]) => {
+    setKeyProfiles(prev => [
+      ...prev.filter(profile => !loaded.some(custom => custom.id === profile.id)),
+      ...loaded
+    ]);
+    handleKeyProfileChange(loaded[0]);
+  }, [handleKeyProfileChange]);
+
+  const handleAnalyzeTrack = useCallback(async (output: AudioNode) => {
+    const source = new PlaybackInputSource(output, `Instrumental: ${selectedInstrumental?.title || 'playback'}`);
+    const success = await handleInputSourceChange(source);
+    if (success && !isRecording) {
+      await toggleRecording();
+    }
+  }, [handleInputSourceChange, selectedInstrumental, isRecording, toggleRecording]);
+
+  // Markers change one instrumental; update it where it is held rather than
+  // reloading the lists
+  const handleInstrumentalMarkersChanged = useCallback((id: string, markers: InstrumentalMarker[]) => {
+    setSelectedInstrumental(prev => (prev && prev.id === id ? { ...prev, markers } : prev));
+    setInstrumentalMarkerUpdate({ id, markers });
+  }, []);
+
+  const handleInstrumentalClose = useCallback(() => {
+    if (audioProcessor.getInputSource().kind === 'playback') {
+      handleInputSourceChange(new MicrophoneInputSource());
+    }
+    setSelectedInstrumental(null);
+  }, [audioProcessor, handleInputSourceChange]);
+
+  // Analysis of stored and new files uses the same key detection as listening
+  const reanalysisOptions = useMemo(() => ({
+    keyProfile,
+    keyModes: KEY_MODE_SETS.find(set => set.id === keyModeSetId)?.modes
+  }), [keyProfile, keyModeSetId]);
+
+  // The session so far, for export; the key is the manual one or else the
+  // one held longest, since detectedKey is cleared when listening stops
+  const transcription = useMemo<Transcription>(() => ({
+    notes: noteEvents,
+    chords: chordTimeline,
+    tempo: currentTempo,
+    timeSignature,
+    key: keyOverride.isActive
+      ? { key: keyOverride.selectedKey, mode: keyOverride.selectedMode }
+      : predominantKey(keyTimeline),
+    ...(lastDownbeat !== null && { downbeat: lastDownbeat })
+  }), [noteEvents, chordTimeline, currentTempo, timeSignature, keyOverride, keyTimeline, lastDownbeat]);
 
   // Get root note for display
   const rootNote = keyOverride.isActive ? keyOverride.selectedKey : (detectedKey?.key || '');
@@ -345,35 +580,33 @@ function App() {
               </button>
 
               {isRecording && (
-                <button
-                  onClick={isRecordingAudio ? stopRecording : startRecording}
-                  disabled={isSavingRecording}
-                  className={`flex items-center space-x-2 px-4 py-2 rounded-lg font-medium transition-colors ${
-                    isRecordingAudio
-                      ? 'bg-red-600 hover:bg-red-700 text-white animate-pulse'
-                      : 'bg-blue-500 hover:bg-blue-600 text-white'
-                  } ${isSavingRecording ? 'opacity-50 cursor-not-allowed' : ''}`}
-                >
-                  {isSavingRecording ? (
-                    <>
-                      <Circle className="w-4 h-4 animate-spin" />
-                      <span>Saving...</span>
-                    </>
-                  ) : isRecordingAudio ? (
-                    <>
-                      <Square className="w-4 h-4" />
-                      <span>Stop Recording</span>
-                    </>
-                  ) : (
-                    <>
-                      <Circle className="w-4 h-4" />
-                      <span>Start Recording</span>
-                    </>
-                  )}
-                </button>
+                <RecordingControls
+                  isRecording={isRecordingAudio}
+                  isPaused={isRecordingPaused}
+                  isSaving={isSavingRecording}
+                  elapsed={recordingElapsed}
+                  level={recorderLevel}
+                  clipped={inputClipped}
+                  onStart={startRecording}
+                  onStop={stopRecording}
+                  onPause={pauseRecording}
+                  onResume={resumeRecording}
+                  onClearClip={() => setInputClipped(false)}
+                />
               )}
 
-              <button className="p-2 text-gray-400 hover:text-white transition-colors">
+              <button
+                onClick={() => setShowTuner(prev => !prev)}
+                className={`p-2 transition-colors ${showTuner ? 'text-green-400' : 'text-gray-400 hover:text-white'}`}
+                title="Tuner"
+              >
+                <Gauge className="w-5 h-5" />
+              </button>
+
+              <button
+                onClick={() => setShowInputSettings(prev => !prev)}
+                className={`p-2 transition-colors ${showInputSettings ? 'text-white' : 'text-gray-400 hover:text-white'}`}
+              >
                 <Settings className="w-5 h-5" />
               </button>
 
@@ -383,6 +616,36 @@ function App() {
             </div>
           </div>
           
+          {showInputSettings && (
+            <>
+              <InputSourceSettings
+                currentLabel={inputLabel}
+                onApply={async (source) => {
+                  if (await handleInputSourceChange(source)) {
+                    setShowInputSettings(false);
+                  }
+                }}
+                onClose={() => setShowInputSettings(false)}
+              />
+              <AnalysisSettings
+                settings={analysisSettings}
+                tuning={tuning}
+                onChange={handleAnalysisSettingsChange}
+                keyProfiles={keyProfiles}
+                keyProfile={keyProfile}
+                onKeyProfileChange={handleKeyProfileChange}
+                onKeyProfilesLoaded={handleKeyProfilesLoaded}
+                keyModeSetId={keyModeSetId}
+                onKeyModeSetChange={handleKeyModeSetChange}
+              />
+              <RecordingSettings
+                options={recorderOptions}
+                onChange={(options) => setRecorderOptions(prev => ({ ...prev, ...options }))}
+                disabled={isRecordingAudio}
+              />
+            </>
+          )}
+
           {/* Error Message */}
           {initError && (
             <div className="mt-3 p-3 bg-red-500/10 border border-red-500/20 rounded-lg">
@@ -405,10 +668,10 @@ function App() {
                     </span>
                   </div>
                   <div className="text-purple-300 text-sm">
-                    Tempo: {currentTempo} BPM
+                    Tempo: {currentTempo} BPM · {harmonyAnalysis.rhythmData.timeSignature}
                   </div>
                   <div className={`text-sm ${isOnBeat ? 'text-green-400' : 'text-gray-400'}`}>
-                    Beat: {harmonyAnalysis.rhythmData.currentBeat}/4
+                    Beat: {harmonyAnalysis.rhythmData.currentBeat}/{harmonyAnalysis.rhythmData.beatsPerBar}
                   </div>
                 </div>
                 <div className="flex items-center space-x-4">
@@ -434,6 +697,14 @@ function App() {
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
           {/* Left Column - Audio Status & Key Detection */}
           <div className="space-y-6">
+            {showTuner && (
+              <TunerView
+                pitch={currentPitch}
+                referenceA4={tuning.referenceA4}
+                isActive={isRecording}
+              />
+            )}
+
             <AudioStatusIndicator
               audioState={audioState}
               amplitude={amplitude}
@@ -445,16 +716,31 @@ function App() {
               detectedKey={detectedKey}
               keyOverride={keyOverride}
               confidence={keyConfidence}
+              timeline={keyTimeline}
+              modulations={modulations}
+              profileName={keyProfiles.find(profile => profile.id === detectedKey?.profile)?.name}
+              onOverrideModeChange={handleOverrideModeChange}
             />
             
             <PitchVisualizer
               pitchHistory={pitchHistory}
+              noteEvents={noteEvents}
               isActive={audioState === AudioState.MUSICAL_INPUT || audioState === AudioState.PROCESSING}
             />
           </div>
 
           {/* Middle & Right Columns - Melody Piano & Lyrics Display */}
           <div className="lg:col-span-2 space-y-6">
+            {/* Chord Progression */}
+            <ChordProgression
+              currentChord={currentChord}
+              timeline={chordTimeline}
+              isActive={isRecording}
+            />
+
+            {/* Export what was heard */}
+            <SessionExport transcription={transcription} />
+
             {/* Melody Piano (Right Hand) */}
             <PianoKeyboard
               detectedNotes={detectedNotes}
@@ -467,12 +753,14 @@ function App() {
               harmonyAnalysis={harmonyAnalysis}
               showAllNotes={false}
               title="Virtual Piano - Melody Display"
+              referenceA4={tuning.referenceA4}
             />
 
             {/* Lyrics Display */}
             <LyricsDisplay
               harmonyAnalysis={harmonyAnalysis}
               detectedKey={rootNote}
+              detectedMode={keyOverride.isActive ? keyOverride.selectedMode : (detectedKey?.mode || 'major')}
               isRecording={isRecording}
             />
           </div>
@@ -495,6 +783,20 @@ function App() {
                   Listening: {isRecording ? 'Active' : 'Stopped'}
                 </span>
               </div>
+
+              <div className="flex items-center space-x-2">
+                <div className="w-2 h-2 rounded-full bg-blue-400"></div>
+                <span className="text-gray-300">
+                  Input: {inputLabel}
+                </span>
+              </div>
+
+              <div className="flex items-center space-x-2">
+                <div className={`w-2 h-2 rounded-full ${tuning.source === 'estimated' ? 'bg-purple-400' : 'bg-gray-500'}`}></div>
+                <span className="text-gray-300">
+                  A4: {tuning.referenceA4.toFixed(1)} Hz{tuning.source === 'estimated' ? ' (estimated)' : ''}
+                </span>
+              </div>
               
               <div className="flex items-center space-x-2">
                 <div className={`w-2 h-2 rounded-full ${audioState === AudioState.MUSICAL_INPUT ? 'bg-green-400' : 'bg-gray-500'}`}></div>
@@ -524,21 +826,32 @@ function App() {
 
         {/* Instrumental Recorder */}
         <div className="mt-6">
-          <InstrumentalRecorder onRefresh={() => setRefreshRecordings(prev => prev + 1)} />
+          <InstrumentalRecorder
+            audioProcessor={audioProcessor}
+            analysisOptions={reanalysisOptions}
+            onRefresh={() => setRefreshRecordings(prev => prev + 1)}
+          />
         </div>
 
         {/* Instrumentals Library */}
         <div className="mt-6">
           <InstrumentalsList
             key={refreshRecordings}
+            audioProcessor={audioProcessor}
+            analysisOptions={reanalysisOptions}
             onInstrumentalSelect={setSelectedInstrumental}
+            markerUpdate={instrumentalMarkerUpdate}
             onRefresh={() => setRefreshRecordings(prev => prev + 1)}
           />
         </div>
 
         {/* Recordings List */}
         <div className="mt-6">
-          <RecordingsList key={refreshRecordings} />
+          <RecordingsList
+            key={refreshRecordings}
+            audioProcessor={audioProcessor}
+            analysisOptions={reanalysisOptions}
+          />
         </div>
 
         {/* Enhanced Instructions */}
@@ -564,7 +877,10 @@ function App() {
       {selectedInstrumental && (
         <InstrumentalPlayer
           selectedInstrumental={selectedInstrumental}
-          onClose={() => setSelectedInstrumental(null)}
+          onClose={handleInstrumentalClose}
+          onAnalyzeTrack={handleAnalyzeTrack}
+          detectedKey={detectedKey}
+          onMarkersChanged={handleInstrumentalMarkersChanged}
         />
       )}
     </div>
@@ -0,0 +1,243 @@
+import React, { useState } from 'react';
+import { GraduationCap, Loader2, SlidersHorizontal, Upload } from 'lucide-react';
+import { FrameAnalyzerSettings, TuningState } from '../utils/frameAnalyzer';
+import { DEFAULT_REFERENCE_A4 } from '../utils/defaultAudioConfig';
+import { PitchEstimatorType, PITCH_ESTIMATOR_LABELS } from '../utils/pitchEstimators';
+import { CHROMA_METHOD_LABELS, ChromaMethod, DEFAULT_CHROMA_METHOD, DEFAULT_CHROMA_OPTIONS } from '../utils/chromaExtractors';
+import { KeyProfile, learnKeyProfile, parseKeyProfiles } from '../utils/keyProfiles';
+import { KEY_MODE_SETS } from '../utils/keyDetection';
+import { keyProfileExamples } from '../utils/recordingAnalysis';
+import { RecordingService } from '../services/recordingService';
+
+interface AnalysisSettingsProps {
+  settings: FrameAnalyzerSettings;
+  tuning: TuningState;
+  onChange: (settings: FrameAnalyzerSettings) => void;
+  keyProfiles: KeyProfile[];
+  keyProfile: KeyProfile;
+  onKeyProfileChange: (profile: KeyProfile) => void;
+  onKeyProfilesLoaded: (profiles: KeyProfile[]) => void;
+  keyModeSetId: string;
+  onKeyModeSetChange: (id: string) => void;
+}
+
+// Choirs and older pianos sit anywhere in this range
+const MIN_REFERENCE_A4 = 415;
+const MAX_REFERENCE_A4 = 466;
+
+const AnalysisSettings: React.FC<AnalysisSettingsProps> = ({
+  settings,
+  tuning,
+  onChange,
+  keyProfiles,
+  keyProfile,
+  onKeyProfileChange,
+  onKeyProfilesLoaded,
+  keyModeSetId,
+  onKeyModeSetChange
+}) => {
+  const [profileError, setProfileError] = useState<string | null>(null);
+  const [isLearning, setIsLearning] = useState(false);
+  const referenceA4 = settings.referenceA4 ?? DEFAULT_REFERENCE_A4;
+  const estimate = tuning.estimate;
+
+  const handleProfileFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const profiles = parseKeyProfiles(await file.text());
+      setProfileError(null);
+      onKeyProfilesLoaded(profiles);
+    } catch (error) {
+      console.error('Failed to load key profile:', error);
+      setProfileError(error instanceof Error ? error.message : 'Could not read key profile file');
+    }
+  };
+
+  // Averages the chroma of saved recordings under the keys set for them by
+  // hand, so the profile fits what is actually being played here
+  const handleLearnProfile = async () => {
+    setIsLearning(true);
+    try {
+      const examples = keyProfileExamples(await RecordingService.getAllRecordings());
+      const profile = learnKeyProfile('Learned from recordings', examples);
+      setProfileError(null);
+      onKeyProfilesLoaded([profile]);
+    } catch (error) {
+      console.error('Failed to learn key profile:', error);
+      setProfileError(error instanceof Error ? error.message : 'Could not learn a key profile');
+    } finally {
+      setIsLearning(false);
+    }
+  };
+
+  const handleReferenceChange = (value: string) => {
+    const frequency = parseFloat(value);
+    if (!isNaN(frequency) && frequency >= MIN_REFERENCE_A4 && frequency <= MAX_REFERENCE_A4) {
+      onChange({ referenceA4: frequency });
+    }
+  };
+
+  return (
+    <div className="mt-3 p-4 bg-gray-700/50 rounded-lg border border-gray-600">
+      <div className="flex items-center space-x-2 mb-3">
+        <SlidersHorizontal className="w-4 h-4 text-purple-400" />
+        <h4 className="text-white font-medium">Analysis</h4>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <div>
+          <label className="block text-sm text-gray-300 mb-1">Pitch Tracker</label>
+          <select
+            value={settings.pitchEstimator || 'autocorrelation'}
+            onChange={(e) => onChange({ pitchEstimator: e.target.value as PitchEstimatorType })}
+            className="w-full bg-gray-600 text-white px-3 py-2 rounded border border-gray-500 focus:outline-none focus:border-purple-400"
+          >
+            {(Object.keys(PITCH_ESTIMATOR_LABELS) as PitchEstimatorType[]).map(type => (
+              <option key={type} value={type}>
+                {PITCH_ESTIMATOR_LABELS[type]}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label className="block text-sm text-gray-300 mb-1">Chroma</label>
+          <select
+            value={settings.chromaMethod || DEFAULT_CHROMA_METHOD}
+            onChange={(e) => onChange({ chromaMethod: e.target.value as ChromaMethod })}
+            className="w-full bg-gray-600 text-white px-3 py-2 rounded border border-gray-500 focus:outline-none focus:border-purple-400"
+          >
+            {(Object.keys(CHROMA_METHOD_LABELS) as ChromaMethod[]).map(method => (
+              <option key={method} value={method}>
+                {CHROMA_METHOD_LABELS[method]}
+              </option>
+            ))}
+          </select>
+          <div className="flex items-center space-x-4 mt-1">
+            <label className="flex items-center space-x-2 text-xs text-gray-300">
+              <input
+                type="checkbox"
+                checked={settings.chromaTuningCompensation ?? true}
+                onChange={(e) => onChange({ chromaTuningCompensation: e.target.checked })}
+                className="accent-purple-500"
+              />
+              <span>Follow estimated tuning</span>
+            </label>
+            <label className="flex items-center space-x-2 text-xs text-gray-300">
+              <input
+                type="checkbox"
+                checked={settings.bassChroma ?? DEFAULT_CHROMA_OPTIONS.bassSplit}
+                onChange={(e) => onChange({ bassChroma: e.target.checked })}
+                className="accent-purple-500"
+              />
+              <span>Bass/treble split</span>
+            </label>
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-sm text-gray-300 mb-1">Reference A4 (Hz)</label>
+          <div className="flex items-center space-x-2">
+            <input
+              type="number"
+              min={MIN_REFERENCE_A4}
+              max={MAX_REFERENCE_A4}
+              step={0.1}
+              value={referenceA4}
+              onChange={(e) => handleReferenceChange(e.target.value)}
+              disabled={settings.autoTuning}
+              className="w-28 bg-gray-600 text-white px-3 py-2 rounded border border-gray-500 focus:outline-none focus:border-purple-400 disabled:opacity-50"
+            />
+            <label className="flex items-center space-x-2 text-sm text-gray-300">
+              <input
+                type="checkbox"
+                checked={settings.autoTuning ?? false}
+                onChange={(e) => onChange({ autoTuning: e.target.checked })}
+                className="accent-purple-500"
+              />
+              <span>Estimate from input</span>
+            </label>
+          </div>
+          <div className="flex items-center justify-between mt-1 text-xs text-gray-400">
+            <span>
+              {estimate.confidence > 0
+                ? `Estimated: ${estimate.referenceA4.toFixed(1)} Hz (${estimate.deviationCents >= 0 ? '+' : ''}${estimate.deviationCents.toFixed(1)} ¢, ${Math.round(estimate.confidence * 100)}% sure)`
+                : 'No tuning estimate yet'}
+            </span>
+            {estimate.confidence > 0 && !settings.autoTuning && (
+              <button
+                onClick={() => onChange({ referenceA4: Math.round(estimate.referenceA4 * 10) / 10 })}
+                className="text-purple-300 hover:text-purple-200 transition-colors"
+              >
+                Use estimate
+              </button>
+            )}
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-sm text-gray-300 mb-1">Key Profile</label>
+          <div className="flex items-center space-x-2">
+            <select
+              value={keyProfile.id}
+              onChange={(e) => {
+                const profile = keyProfiles.find(p => p.id === e.target.value);
+                if (profile) onKeyProfileChange(profile);
+              }}
+              className="flex-1 bg-gray-600 text-white px-3 py-2 rounded border border-gray-500 focus:outline-none focus:border-purple-400"
+            >
+              {keyProfiles.map(profile => (
+                <option key={profile.id} value={profile.id}>
+                  {profile.name}{profile.custom ? ' (custom)' : ''}
+                </option>
+              ))}
+            </select>
+            <label
+              className="p-2 bg-gray-600 hover:bg-gray-500 text-gray-200 rounded border border-gray-500 cursor-pointer transition-colors"
+              title="Load custom profiles from JSON"
+            >
+              <Upload className="w-4 h-4" />
+              <input type="file" accept=".json,application/json" onChange={handleProfileFile} className="hidden" />
+            </label>
+            <button
+              onClick={handleLearnProfile}
+              disabled={isLearning}
+              className="p-2 bg-gray-600 hover:bg-gray-500 text-gray-200 rounded border border-gray-500 transition-colors disabled:opacity-50"
+              title="Learn a profile from saved recordings whose key was set by hand"
+            >
+              {isLearning ? <Loader2 className="w-4 h-4 animate-spin" /> : <GraduationCap className="w-4 h-4" />}
+            </button>
+          </div>
+          <div className="mt-1 text-xs text-gray-400">
+            {profileError
+              ? <span className="text-red-400">{profileError}</span>
+              : 'JSON: { "name", "major": [12], "minor": [12] }, tonic first'}
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-sm text-gray-300 mb-1">Key Modes</label>
+          <select
+            value={keyModeSetId}
+            onChange={(e) => onKeyModeSetChange(e.target.value)}
+            className="w-full bg-gray-600 text-white px-3 py-2 rounded border border-gray-500 focus:outline-none focus:border-purple-400"
+          >
+            {KEY_MODE_SETS.map(set => (
+              <option key={set.id} value={set.id}>
+                {set.label}
+              </option>
+            ))}
+          </select>
+          <div className="mt-1 text-xs text-gray-400">
+            More modes need longer, cleaner passages to tell apart
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AnalysisSettings;
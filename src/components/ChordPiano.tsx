@@ -1,12 +1,12 @@
 import React, { useState, useEffect, useCallback } from 'react';
-import { PianoKeyState, KeyOverride } from '../types/music';
+import { PianoKeyState, KeyOverride, KeyMode } from '../types/music';
 import { HarmonyAnalysis } from '../utils/audioProcessor';
 
 interface ChordPianoProps {
   chordNotes: string[];
   scaleNotes: string[];
   rootNote: string;
-  onKeyOverride: (key: string, mode: 'major' | 'minor') => void;
+  onKeyOverride: (key: string, mode: KeyMode) => void;
   keyOverride: KeyOverride;
   harmonyAnalysis: HarmonyAnalysis | null;
   isRecording: boolean;
@@ -1,5 +1,5 @@
 import React, { useState, useEffect, useCallback } from 'react';
-import { PianoKeyState, KeyOverride } from '../types/music';
+import { PianoKeyState, KeyOverride, KeyMode } from '../types/music';
 import { HarmonyAnalysis } from '../utils/audioProcessor';
 import { MusicTheoryEngine } from '../utils/musicTheory';
 
@@ -7,7 +7,7 @@ interface ChordPianoKeyboardProps {
   chordNotes: string[];
   scaleNotes: string[];
   rootNote: string;
-  onKeyOverride: (key: string, mode: 'major' | 'minor') => void;
+  onKeyOverride: (key: string, mode: KeyMode) => void;
   keyOverride: KeyOverride;
   harmonyAnalysis: HarmonyAnalysis | null;
 }
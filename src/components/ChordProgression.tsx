@@ -0,0 +1,95 @@
+import React from 'react';
+import { ListMusic } from 'lucide-react';
+import { ChordEstimate, ChordSegment } from '../types/audio';
+
+interface ChordProgressionProps {
+  currentChord: ChordEstimate | null;
+  timeline: ChordSegment[];
+  isActive: boolean;
+  // How many of the latest chords to show as the live progression
+  recentCount?: number;
+}
+
+const formatTime = (seconds: number) => {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+};
+
+const ChordProgression: React.FC<ChordProgressionProps> = ({
+  currentChord,
+  timeline,
+  isActive,
+  recentCount = 8
+}) => {
+  const start = timeline[0]?.start ?? 0;
+  const recent = timeline.slice(-recentCount);
+
+  return (
+    <div className="bg-gray-800/50 backdrop-blur-sm rounded-lg p-6 border border-gray-700">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-3">
+          <div className="p-2 bg-orange-500/20 rounded-full">
+            <ListMusic className="w-5 h-5 text-orange-400" />
+          </div>
+          <div>
+            <h3 className="text-sm font-medium text-white">Chords</h3>
+            <p className="text-xs text-gray-400">
+              {isActive ? `${timeline.length} chord${timeline.length === 1 ? '' : 's'} this session` : 'Start listening to follow the chords'}
+            </p>
+          </div>
+        </div>
+
+        <div className="text-right">
+          <div className="text-3xl font-bold text-white">{currentChord ? currentChord.label : '–'}</div>
+          {currentChord && (
+            <div className="text-xs font-mono text-gray-400">{(currentChord.confidence * 100).toFixed(0)}% match</div>
+          )}
+        </div>
+      </div>
+
+      {/* Live progression */}
+      {recent.length > 0 ? (
+        <div className="flex items-stretch space-x-1 overflow-hidden">
+          {recent.map((segment, i) => {
+            const latest = i === recent.length - 1;
+            return (
+              <div
+                key={`${segment.start}-${segment.label}`}
+                className={`flex-1 min-w-0 px-2 py-2 rounded text-center border ${
+                  latest ? 'bg-orange-500/20 border-orange-400 text-white' : 'bg-gray-700/50 border-gray-600 text-gray-300'
+                }`}
+                title={`${segment.label}, ${formatTime(segment.start - start)}–${formatTime(segment.end - start)} (${(segment.confidence * 100).toFixed(0)}%)`}
+              >
+                <div className="text-sm font-medium truncate">{segment.label}</div>
+                <div className="text-[10px] text-gray-500">{(segment.end - segment.start).toFixed(1)}s</div>
+              </div>
+            );
+          })}
+        </div>
+      ) : (
+        <div className="text-sm text-gray-500 text-center py-2">No chords yet</div>
+      )}
+
+      {/* Full history */}
+      {timeline.length > recent.length && (
+        <div className="mt-4">
+          <div className="text-xs text-gray-400 mb-1">Progression</div>
+          <div className="max-h-24 overflow-y-auto flex flex-wrap gap-1">
+            {timeline.map(segment => (
+              <span
+                key={`${segment.start}-${segment.label}`}
+                className="px-1.5 py-0.5 rounded bg-gray-700/50 text-xs text-gray-300"
+                title={formatTime(segment.start - start)}
+              >
+                {segment.label}
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ChordProgression;
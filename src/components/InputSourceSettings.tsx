@@ -0,0 +1,161 @@
+import React, { useState, useEffect } from 'react';
+import { Settings, X, Mic, Radio, RefreshCw } from 'lucide-react';
+import {
+  AudioInputSource,
+  MicrophoneInputSource,
+  OscillatorInputSource,
+  listAudioInputDevices
+} from '../utils/audioInputSource';
+
+interface InputSourceSettingsProps {
+  currentLabel: string;
+  onApply: (source: AudioInputSource) => void;
+  onClose: () => void;
+}
+
+const TEST_TONES = [
+  { id: 'a4', label: 'A4 (440 Hz)', frequencies: [440] },
+  { id: 'c-major', label: 'C major triad', frequencies: [261.63, 329.63, 392.0] },
+  { id: 'a-minor', label: 'A minor triad', frequencies: [220.0, 261.63, 329.63] }
+];
+
+const MAX_CHANNELS = 8;
+
+const InputSourceSettings: React.FC<InputSourceSettingsProps> = ({ currentLabel, onApply, onClose }) => {
+  const [sourceKind, setSourceKind] = useState<'microphone' | 'oscillator'>('microphone');
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+  const [deviceId, setDeviceId] = useState('');
+  const [channel, setChannel] = useState('');
+  const [toneId, setToneId] = useState(TEST_TONES[0].id);
+
+  const loadDevices = async () => {
+    setDevices(await listAudioInputDevices());
+  };
+
+  useEffect(() => {
+    loadDevices();
+  }, []);
+
+  const handleApply = () => {
+    if (sourceKind === 'oscillator') {
+      const tone = TEST_TONES.find(t => t.id === toneId) || TEST_TONES[0];
+      onApply(new OscillatorInputSource({ frequencies: tone.frequencies, label: `Test tone: ${tone.label}` }));
+      return;
+    }
+
+    const device = devices.find(d => d.deviceId === deviceId);
+    onApply(new MicrophoneInputSource({
+      deviceId: deviceId || undefined,
+      label: device?.label || undefined,
+      channel: channel === '' ? undefined : parseInt(channel)
+    }));
+  };
+
+  return (
+    <div className="mt-3 p-4 bg-gray-700/50 rounded-lg border border-gray-600">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center space-x-2">
+          <Settings className="w-4 h-4 text-blue-400" />
+          <h4 className="text-white font-medium">Audio Input</h4>
+          <span className="text-xs text-gray-400">Current: {currentLabel}</span>
+        </div>
+        <button
+          onClick={onClose}
+          className="p-1 text-gray-400 hover:text-white transition-colors"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="flex items-center space-x-2 mb-3">
+        <button
+          onClick={() => setSourceKind('microphone')}
+          className={`flex items-center space-x-2 px-3 py-1.5 rounded-lg text-sm transition-colors ${
+            sourceKind === 'microphone' ? 'bg-blue-500 text-white' : 'bg-gray-600 text-gray-300 hover:bg-gray-500'
+          }`}
+        >
+          <Mic className="w-4 h-4" />
+          <span>Microphone / Interface</span>
+        </button>
+        <button
+          onClick={() => setSourceKind('oscillator')}
+          className={`flex items-center space-x-2 px-3 py-1.5 rounded-lg text-sm transition-colors ${
+            sourceKind === 'oscillator' ? 'bg-blue-500 text-white' : 'bg-gray-600 text-gray-300 hover:bg-gray-500'
+          }`}
+        >
+          <Radio className="w-4 h-4" />
+          <span>Test Tone</span>
+        </button>
+      </div>
+
+      {sourceKind === 'microphone' ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <div>
+            <label className="flex items-center justify-between text-sm text-gray-300 mb-1">
+              <span>Device</span>
+              <button
+                onClick={loadDevices}
+                className="p-1 text-gray-400 hover:text-white transition-colors"
+              >
+                <RefreshCw className="w-3 h-3" />
+              </button>
+            </label>
+            <select
+              value={deviceId}
+              onChange={(e) => setDeviceId(e.target.value)}
+              className="w-full bg-gray-600 text-white px-3 py-2 rounded border border-gray-500 focus:outline-none focus:border-blue-400"
+            >
+              <option value="">Default microphone</option>
+              {devices.map((device, index) => (
+                <option key={device.deviceId || index} value={device.deviceId}>
+                  {device.label || `Input ${index + 1}`}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm text-gray-300 mb-1">Channel</label>
+            <select
+              value={channel}
+              onChange={(e) => setChannel(e.target.value)}
+              className="w-full bg-gray-600 text-white px-3 py-2 rounded border border-gray-500 focus:outline-none focus:border-blue-400"
+            >
+              <option value="">All channels (mixed)</option>
+              {Array.from({ length: MAX_CHANNELS }, (_, i) => (
+                <option key={i} value={i}>
+                  Channel {i + 1}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+      ) : (
+        <div>
+          <label className="block text-sm text-gray-300 mb-1">Tone</label>
+          <select
+            value={toneId}
+            onChange={(e) => setToneId(e.target.value)}
+            className="w-full bg-gray-600 text-white px-3 py-2 rounded border border-gray-500 focus:outline-none focus:border-blue-400"
+          >
+            {TEST_TONES.map(tone => (
+              <option key={tone.id} value={tone.id}>
+                {tone.label}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      <div className="flex justify-end mt-3">
+        <button
+          onClick={handleApply}
+          className="px-4 py-2 bg-blue-500 hover:bg-blue-600 text-white rounded-lg text-sm font-medium transition-colors"
+        >
+          Use This Input
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default InputSourceSettings;
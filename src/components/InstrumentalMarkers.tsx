@@ -0,0 +1,105 @@
+import React, { useState } from 'react';
+import { Flag, Plus, Repeat, Trash2 } from 'lucide-react';
+import { InstrumentalMarker } from '../lib/supabase';
+import { SECTION_NAMES, suggestMarkerName } from '../utils/sectionMarkers';
+
+interface InstrumentalMarkersProps {
+  markers: InstrumentalMarker[];
+  currentTime: number;
+  onAdd: (name: string) => void;
+  onDelete: (id: string) => void;
+  onJump: (marker: InstrumentalMarker) => void;
+  // Loop from this marker to the next one (or the end)
+  onLoopSection: (marker: InstrumentalMarker) => void;
+  error?: string | null;
+}
+
+const formatTime = (seconds: number) => {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+};
+
+// Section markers for an instrumental: add one at the playhead, jump to one,
+// or loop the section it starts. The first nine are numbered for shortcuts.
+const InstrumentalMarkers: React.FC<InstrumentalMarkersProps> = ({
+  markers,
+  currentTime,
+  onAdd,
+  onDelete,
+  onJump,
+  onLoopSection,
+  error = null
+}) => {
+  const [name, setName] = useState('');
+
+  const suggestion = suggestMarkerName(markers);
+
+  const handleAdd = () => {
+    onAdd(name.trim() || suggestion);
+    setName('');
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center space-x-2">
+        <Flag className="w-4 h-4 text-blue-300" />
+        <input
+          type="text"
+          list="instrumental-section-names"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+          placeholder={suggestion}
+          className="flex-1 min-w-0 bg-gray-700 text-white text-sm px-2 py-1 rounded border border-gray-600 focus:outline-none focus:border-blue-400"
+        />
+        <datalist id="instrumental-section-names">
+          {SECTION_NAMES.map(section => <option key={section} value={section} />)}
+        </datalist>
+        <button
+          onClick={handleAdd}
+          className="flex items-center space-x-1 px-2 py-1 bg-blue-500/30 hover:bg-blue-500/40 text-blue-200 rounded text-sm transition-colors"
+          title="Add a marker at the playhead (M)"
+        >
+          <Plus className="w-3 h-3" />
+          <span>{formatTime(currentTime)}</span>
+        </button>
+      </div>
+
+      {markers.length > 0 && (
+        <ul className="max-h-32 overflow-y-auto space-y-1">
+          {markers.map((marker, i) => (
+            <li key={marker.id} className="flex items-center space-x-2 text-sm">
+              <span className="w-4 text-xs text-gray-500">{i < 9 ? i + 1 : ''}</span>
+              <button
+                onClick={() => onJump(marker)}
+                className="flex-1 flex items-center justify-between px-2 py-0.5 rounded hover:bg-white/10 text-left text-gray-200 transition-colors"
+              >
+                <span className="truncate">{marker.name}</span>
+                <span className="text-xs text-gray-400 ml-2">{formatTime(marker.time)}</span>
+              </button>
+              <button
+                onClick={() => onLoopSection(marker)}
+                className="p-1 text-gray-400 hover:text-blue-300 transition-colors"
+                title="Loop this section"
+              >
+                <Repeat className="w-3 h-3" />
+              </button>
+              <button
+                onClick={() => onDelete(marker.id)}
+                className="p-1 text-gray-400 hover:text-red-400 transition-colors"
+                title="Delete marker"
+              >
+                <Trash2 className="w-3 h-3" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </div>
+  );
+};
+
+export default InstrumentalMarkers;
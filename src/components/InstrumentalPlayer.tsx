@@ -1,28 +1,135 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Play, Pause, X, Volume2, VolumeX } from 'lucide-react';
-import { Instrumental } from '../lib/supabase';
+import { Play, Pause, X, Volume2, VolumeX, Activity, Minus, Plus, RotateCcw, Wand2, Download, Loader2 } from 'lucide-react';
+import { Instrumental, InstrumentalMarker } from '../lib/supabase';
 import { InstrumentalService } from '../services/instrumentalService';
+import { KeyDetectionResult } from '../types/audio';
+import { CountIn, beatsPerBar, scheduleCountIn } from '../utils/countIn';
+import { LoopPlayer, LoopRegion, MIN_LOOP_SECONDS, RenderedLoop, renderLoop } from '../utils/loopPlayer';
+import { MusicTheoryEngine } from '../utils/musicTheory';
+import { instrumentalKeyLabel, parseInstrumentalKey } from '../utils/recordingAnalysis';
+import {
+  MAX_STRETCH_TEMPO,
+  MAX_TRANSPOSE_SEMITONES,
+  MIN_STRETCH_TEMPO,
+  stretchChannels
+} from '../utils/timeStretch';
+import { encodeWav } from '../utils/wavEncoder';
+import { downloadFile, fileNameFromTitle } from '../utils/download';
+import {
+  createMarker,
+  markerSection,
+  nextMarker,
+  previousMarker,
+  sortMarkers,
+  suggestMarkerName
+} from '../utils/sectionMarkers';
+import { PITCH_SHIFT_PROCESSOR, PitchShiftRequest } from '../worklets/pitchShiftMessages';
+import pitchShiftProcessorUrl from '../worklets/pitchShiftProcessor.ts?worker&url';
+import InstrumentalMarkers from './InstrumentalMarkers';
+import LoopControls from './LoopControls';
 
 interface InstrumentalPlayerProps {
   selectedInstrumental: Instrumental | null;
   onClose?: () => void;
+  // Analyse the track: given the node that everything heard passes through
+  onAnalyzeTrack?: (output: AudioNode) => void;
+  // The live key, for transposing the track to what is being sung
+  detectedKey?: KeyDetectionResult | null;
+  // The instrumental's markers changed; whoever holds it updates it in place
+  onMarkersChanged: (id: string, markers: InstrumentalMarker[]) => void;
 }
 
-const InstrumentalPlayer: React.FC<InstrumentalPlayerProps> = ({ selectedInstrumental, onClose }) => {
+// Loads the transposing worklet; null where AudioWorklet is unavailable
+async function createPitchShifter(context: AudioContext): Promise<AudioWorkletNode | null> {
+  if (!context.audioWorklet) {
+    console.warn('AudioWorklet not supported, transposition unavailable');
+    return null;
+  }
+
+  try {
+    await context.audioWorklet.addModule(pitchShiftProcessorUrl);
+    return new AudioWorkletNode(context, PITCH_SHIFT_PROCESSOR, {
+      numberOfInputs: 1,
+      numberOfOutputs: 1,
+      outputChannelCount: [2],
+      channelCount: 2,
+      channelCountMode: 'explicit',
+      channelInterpretation: 'speakers'
+    });
+  } catch (error) {
+    console.error('Failed to load pitch shift worklet:', error);
+    return null;
+  }
+}
+
+const formatSemitones = (semitones: number) => `${semitones > 0 ? '+' : ''}${semitones}`;
+
+// Loops play from where the playhead is if that is inside them, else from A
+const startWithin = (time: number, region: LoopRegion) =>
+  time >= region.start && time < region.end ? time : region.start;
+
+// Shortcuts are ignored while typing; sliders keep focus after a drag, so
+// they do not count as typing
+const isTyping = (target: EventTarget | null) =>
+  (target instanceof HTMLInputElement && target.type !== 'range') ||
+  target instanceof HTMLTextAreaElement ||
+  target instanceof HTMLSelectElement ||
+  (target instanceof HTMLElement && target.isContentEditable);
+
+const InstrumentalPlayer: React.FC<InstrumentalPlayerProps> = ({
+  selectedInstrumental,
+  onClose,
+  onAnalyzeTrack,
+  detectedKey = null,
+  onMarkersChanged
+}) => {
   const [isPlaying, setIsPlaying] = useState(false);
   const [volume, setVolume] = useState(1);
   const [currentTime, setCurrentTime] = useState(0);
   const [totalTime, setTotalTime] = useState(0);
+  const [semitones, setSemitones] = useState(0);
+  const [tempo, setTempo] = useState(1);
+  const [pitchShifter, setPitchShifter] = useState<AudioWorkletNode | null>(null);
+  const [shifterFailed, setShifterFailed] = useState(false);
+  const [exportProgress, setExportProgress] = useState<number | null>(null);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const [markerError, setMarkerError] = useState<string | null>(null);
+  const [loopStart, setLoopStart] = useState<number | null>(null);
+  const [loopEnd, setLoopEnd] = useState<number | null>(null);
+  const [isLooping, setIsLooping] = useState(false);
+  const [loopProgress, setLoopProgress] = useState<number | null>(null);
+  const [loopError, setLoopError] = useState<string | null>(null);
+  const [countInBars, setCountInBars] = useState(0);
   const audioRef = useRef<HTMLAudioElement | null>(null);
   const contextRef = useRef<AudioContext | null>(null);
   const gainNodeRef = useRef<GainNode | null>(null);
   const sourceRef = useRef<MediaElementAudioSourceNode | null>(null);
+  const exportAbortRef = useRef<AbortController | null>(null);
+  // Where loops and count-in clicks join the chain: the transposer once loaded
+  const inputNodeRef = useRef<AudioNode | null>(null);
+  const loopPlayerRef = useRef<LoopPlayer | null>(null);
+  const renderedLoopRef = useRef<RenderedLoop | null>(null);
+  const loopAbortRef = useRef<AbortController | null>(null);
+  // The whole track decoded, for loops and exports; fetched on first use
+  const trackRef = useRef<Promise<AudioBuffer> | null>(null);
+  const countInRef = useRef<CountIn | null>(null);
+  const countInTimerRef = useRef<number | null>(null);
+  // Bumped whenever playback starts or stops, so a start still waiting on a
+  // render can tell it has been overtaken
+  const playbackIdRef = useRef(0);
+  const shortcutsRef = useRef<(event: KeyboardEvent) => void>(() => {});
+  // Held by the parent and already in time order; saving updates it there
+  const markers = selectedInstrumental?.markers ?? [];
+  // The audio graph belongs to the file, not to the instrumental's metadata
+  const audioUrl = selectedInstrumental?.audio_url;
 
   useEffect(() => {
-    if (!selectedInstrumental) return;
+    if (!audioUrl) return;
 
-    const audio = new Audio(selectedInstrumental.audio_url);
+    const audio = new Audio(audioUrl);
     audio.crossOrigin = 'anonymous';
+    // Tempo changes keep the pitch; the browser time-stretches for us
+    audio.preservesPitch = true;
     audioRef.current = audio;
 
     const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
@@ -31,11 +138,36 @@ const InstrumentalPlayer: React.FC<InstrumentalPlayerProps> = ({ selectedInstrum
     const gainNode = audioContext.createGain();
     gainNodeRef.current = gainNode;
     gainNode.connect(audioContext.destination);
-    gainNode.gain.value = volume;
 
-    const source = audioContext.createMediaElementAudioSource(audio);
+    const source = audioContext.createMediaElementSource(audio);
     sourceRef.current = source;
     source.connect(gainNode);
+    inputNodeRef.current = gainNode;
+
+    loopPlayerRef.current = new LoopPlayer(audioContext);
+    renderedLoopRef.current = null;
+    trackRef.current = null;
+    setMarkerError(null);
+    setLoopStart(null);
+    setLoopEnd(null);
+    setIsLooping(false);
+    setLoopError(null);
+
+    // Straight through until the transposer is ready, then via it
+    let cancelled = false;
+    setShifterFailed(false);
+    createPitchShifter(audioContext).then(shifter => {
+      if (cancelled) return;
+      if (!shifter) {
+        setShifterFailed(true);
+        return;
+      }
+      source.disconnect();
+      source.connect(shifter);
+      shifter.connect(gainNode);
+      inputNodeRef.current = shifter;
+      setPitchShifter(shifter);
+    });
 
     audio.onloadedmetadata = () => {
       setTotalTime(audio.duration);
@@ -47,38 +179,319 @@ const InstrumentalPlayer: React.FC<InstrumentalPlayerProps> = ({ selectedInstrum
     };
 
     const interval = setInterval(() => {
-      if (audio.currentTime !== undefined) {
+      const loopPosition = loopPlayerRef.current?.getPosition();
+      if (loopPosition !== null && loopPosition !== undefined) {
+        setCurrentTime(loopPosition);
+      } else if (audio.currentTime !== undefined) {
         setCurrentTime(audio.currentTime);
       }
     }, 100);
 
     return () => {
+      cancelled = true;
       clearInterval(interval);
+      if (countInTimerRef.current !== null) clearTimeout(countInTimerRef.current);
+      loopPlayerRef.current?.stop();
+      loopPlayerRef.current = null;
       audio.pause();
       audioRef.current = null;
+      setIsPlaying(false);
+      exportAbortRef.current?.abort();
+      loopAbortRef.current?.abort();
+      setPitchShifter(null);
+      audioContext.close();
     };
-  }, [selectedInstrumental, volume]);
+  }, [audioUrl]);
+
+  // Apply the settings to each new track as well as when they change
+  useEffect(() => {
+    if (gainNodeRef.current) {
+      gainNodeRef.current.gain.value = volume;
+    }
+    if (audioRef.current) {
+      audioRef.current.defaultPlaybackRate = tempo;
+      audioRef.current.playbackRate = tempo;
+    }
+  }, [audioUrl, volume, tempo]);
+
+  useEffect(() => {
+    const request: PitchShiftRequest = { type: 'semitones', semitones };
+    pitchShifter?.port.postMessage(request);
+  }, [pitchShifter, semitones]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => shortcutsRef.current(event);
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  const loopRegion: LoopRegion | null = isLooping && loopStart !== null && loopEnd !== null
+    ? { start: loopStart, end: loopEnd }
+    : null;
+
+  // Decoded once per track; a failed download can be tried again
+  const loadTrack = (): Promise<AudioBuffer> => {
+    if (!trackRef.current && selectedInstrumental && contextRef.current) {
+      const context = contextRef.current;
+      trackRef.current = fetch(selectedInstrumental.audio_url)
+        .then(response => {
+          if (!response.ok) throw new Error(`Download failed: ${response.status}`);
+          return response.arrayBuffer();
+        })
+        .then(data => context.decodeAudioData(data));
+      trackRef.current.catch(() => { trackRef.current = null; });
+    }
+    return trackRef.current ?? Promise.reject(new Error('No track loaded'));
+  };
+
+  // The region cut out and stretched to the tempo; the last one is kept
+  const prepareLoop = async (region: LoopRegion, playbackTempo: number): Promise<RenderedLoop> => {
+    const cached = renderedLoopRef.current;
+    if (cached && cached.tempo === playbackTempo && cached.region.start === region.start && cached.region.end === region.end) {
+      return cached;
+    }
+
+    const context = contextRef.current;
+    if (!context) throw new Error('No audio context');
+
+    loopAbortRef.current?.abort();
+    const controller = new AbortController();
+    loopAbortRef.current = controller;
+    setLoopProgress(playbackTempo === 1 ? null : 0);
+
+    try {
+      const track = await loadTrack();
+      const loop = await renderLoop(context, track, region, playbackTempo, {
+        signal: controller.signal,
+        onProgress: setLoopProgress
+      });
+      renderedLoopRef.current = loop;
+      return loop;
+    } finally {
+      if (!controller.signal.aborted) setLoopProgress(null);
+    }
+  };
+
+  const getPosition = () => loopPlayerRef.current?.getPosition() ?? audioRef.current?.currentTime ?? 0;
+
+  // Stops whatever is playing or counting in; returns where it got to
+  const stopPlayback = (): number => {
+    playbackIdRef.current++;
+    if (countInTimerRef.current !== null) {
+      clearTimeout(countInTimerRef.current);
+      countInTimerRef.current = null;
+    }
+    countInRef.current?.cancel();
+    countInRef.current = null;
+
+    const position = getPosition();
+    loopPlayerRef.current?.stop();
+    if (audioRef.current) {
+      audioRef.current.pause();
+      audioRef.current.currentTime = position;
+    }
+    setCurrentTime(position);
+    return position;
+  };
+
+  // Plays from a track time, round a loop when given one, after a count-in
+  // if asked. Loops start on the count-in's last beat to the sample; the
+  // element can only be timed to the nearest few milliseconds.
+  const startPlayback = async (from: number, region: LoopRegion | null, playbackTempo: number, withCountIn: boolean) => {
+    const context = contextRef.current;
+    const audio = audioRef.current;
+    const input = inputNodeRef.current;
+    if (!context || !audio || !input || !selectedInstrumental) return;
+
+    const id = ++playbackIdRef.current;
+    // Stopped, restarted or closed while waiting
+    const overtaken = () => id !== playbackIdRef.current || audioRef.current !== audio;
+    setIsPlaying(true);
+    if (context.state === 'suspended') {
+      await context.resume();
+    }
+    if (overtaken()) return;
+
+    let loop: RenderedLoop | null = null;
+    if (region) {
+      try {
+        loop = await prepareLoop(region, playbackTempo);
+      } catch (error) {
+        if (overtaken()) return;
+        console.error('Error preparing loop:', error);
+        setLoopError('Could not prepare the loop; playing straight through');
+        setIsLooping(false);
+      }
+      if (overtaken()) return;
+    }
+
+    let when = context.currentTime;
+    if (withCountIn && countInBars > 0 && selectedInstrumental.tempo > 0) {
+      countInRef.current = scheduleCountIn(context, input, {
+        tempo: selectedInstrumental.tempo * playbackTempo,
+        bars: countInBars,
+        beatsPerBar: beatsPerBar(selectedInstrumental.analysis?.timeSignature)
+      });
+      when = countInRef.current.end;
+    }
+
+    if (loop) {
+      loopPlayerRef.current?.start(loop, input, startWithin(from, loop.region), when);
+      return;
+    }
+
+    audio.currentTime = from;
+    const delay = (when - context.currentTime) * 1000;
+    if (delay > 0) {
+      countInTimerRef.current = window.setTimeout(() => {
+        countInTimerRef.current = null;
+        audio.play();
+      }, delay);
+    } else {
+      audio.play();
+    }
+  };
+
+  // Carries on from the playhead with new loop or tempo settings
+  const restartPlayback = (region: LoopRegion | null, playbackTempo: number) => {
+    if (!isPlaying) return;
+    const position = stopPlayback();
+    void startPlayback(region ? startWithin(position, region) : position, region, playbackTempo, false);
+  };
 
   const handlePlayPause = () => {
     if (!audioRef.current || !contextRef.current) return;
 
     if (isPlaying) {
-      audioRef.current.pause();
+      stopPlayback();
       setIsPlaying(false);
     } else {
-      if (contextRef.current.state === 'suspended') {
-        contextRef.current.resume();
-      }
-      audioRef.current.play();
-      setIsPlaying(true);
+      const from = audioRef.current.currentTime;
+      void startPlayback(loopRegion ? startWithin(from, loopRegion) : from, loopRegion, tempo, true);
     }
   };
 
   const handleSeek = (newTime: number) => {
-    if (audioRef.current) {
+    // Leaving the loop region ends the loop
+    let region = loopRegion;
+    if (region && (newTime < region.start || newTime >= region.end)) {
+      setIsLooping(false);
+      region = null;
+    }
+
+    if (isPlaying) {
+      stopPlayback();
+      void startPlayback(newTime, region, tempo, false);
+    } else if (audioRef.current) {
       audioRef.current.currentTime = newTime;
-      setCurrentTime(newTime);
     }
+    setCurrentTime(newTime);
+  };
+
+  const handleTempoChange = (newTempo: number) => {
+    setTempo(newTempo);
+    // The element follows on its own; a rendered loop has to be redone
+    if (loopRegion) restartPlayback(loopRegion, newTempo);
+  };
+
+  const applyLoop = (start: number | null, end: number | null, looping: boolean) => {
+    const region = looping && start !== null && end !== null ? { start, end } : null;
+    setLoopStart(start);
+    setLoopEnd(end);
+    setIsLooping(region !== null);
+    setLoopError(null);
+    if (region || loopRegion) restartPlayback(region, tempo);
+  };
+
+  const handleSetLoopStart = () => {
+    const position = getPosition();
+    const end = loopEnd !== null && loopEnd - position >= MIN_LOOP_SECONDS ? loopEnd : null;
+    applyLoop(position, end, isLooping && end !== null);
+  };
+
+  // Setting B with A in place starts looping; B before A swaps them
+  const handleSetLoopEnd = () => {
+    const position = getPosition();
+    if (loopStart === null) {
+      applyLoop(null, position, false);
+      return;
+    }
+    const [start, end] = position < loopStart ? [position, loopStart] : [loopStart, position];
+    if (end - start < MIN_LOOP_SECONDS) return;
+    applyLoop(start, end, true);
+  };
+
+  const handleToggleLoop = () => {
+    if (loopStart === null || loopEnd === null) return;
+    applyLoop(loopStart, loopEnd, !isLooping);
+  };
+
+  const handleLoopSection = (marker: InstrumentalMarker) => {
+    const section = markerSection(markers, marker, totalTime);
+    if (section.end - section.start < MIN_LOOP_SECONDS) return;
+    applyLoop(section.start, section.end, true);
+    if (!isPlaying && audioRef.current) {
+      audioRef.current.currentTime = section.start;
+      setCurrentTime(section.start);
+    }
+  };
+
+  // Markers are saved as a whole, in time order, on every change
+  const saveMarkers = async (next: InstrumentalMarker[]) => {
+    if (!selectedInstrumental) return;
+    const { id } = selectedInstrumental;
+    const previous = markers;
+    const sorted = sortMarkers(next);
+    onMarkersChanged(id, sorted);
+    setMarkerError(null);
+
+    const success = await InstrumentalService.updateInstrumentalMarkers(id, sorted);
+    if (!success) {
+      onMarkersChanged(id, previous);
+      setMarkerError('Could not save markers');
+    }
+  };
+
+  const handleAddMarker = (name: string) => {
+    void saveMarkers([...markers, createMarker(name, getPosition())]);
+  };
+
+  const handleDeleteMarker = (id: string) => {
+    void saveMarkers(markers.filter(marker => marker.id !== id));
+  };
+
+  shortcutsRef.current = (event: KeyboardEvent) => {
+    if (event.ctrlKey || event.metaKey || event.altKey || isTyping(event.target)) return;
+
+    const key = event.key.toLowerCase();
+    const position = getPosition();
+    let target: InstrumentalMarker | null = null;
+
+    if (key === ' ') {
+      handlePlayPause();
+    } else if (key === 'a') {
+      handleSetLoopStart();
+    } else if (key === 'b') {
+      handleSetLoopEnd();
+    } else if (key === 'l') {
+      handleToggleLoop();
+    } else if (key === 'm') {
+      handleAddMarker(suggestMarkerName(markers));
+    } else if (key === '[') {
+      target = previousMarker(markers, position);
+      handleSeek(target?.time ?? 0);
+    } else if (key === ']') {
+      target = nextMarker(markers, position);
+      if (!target) return;
+      handleSeek(target.time);
+    } else if (/^[1-9]$/.test(key)) {
+      target = markers[parseInt(key) - 1] ?? null;
+      if (!target) return;
+      handleSeek(target.time);
+    } else {
+      return;
+    }
+    event.preventDefault();
   };
 
   const handleVolumeChange = (newVolume: number) => {
@@ -88,6 +501,44 @@ const InstrumentalPlayer: React.FC<InstrumentalPlayerProps> = ({ selectedInstrum
     }
   };
 
+  const handleTranspose = (newSemitones: number) => {
+    setSemitones(Math.max(-MAX_TRANSPOSE_SEMITONES, Math.min(MAX_TRANSPOSE_SEMITONES, newSemitones)));
+  };
+
+  // Renders the whole track at the current settings and saves it as WAV
+  const handleExport = async () => {
+    if (!selectedInstrumental || !contextRef.current) return;
+
+    const controller = new AbortController();
+    exportAbortRef.current = controller;
+    setExportProgress(0);
+    setExportError(null);
+
+    try {
+      const decoded = await loadTrack();
+
+      const channels = Array.from({ length: decoded.numberOfChannels }, (_, c) => decoded.getChannelData(c));
+      const rendered = await stretchChannels(channels, decoded.sampleRate, { semitones, tempo }, {
+        signal: controller.signal,
+        onProgress: setExportProgress
+      });
+
+      const suffix = `${formatSemitones(semitones)}st-${Math.round(tempo * 100)}pct`;
+      downloadFile(
+        encodeWav(rendered, decoded.sampleRate),
+        `${fileNameFromTitle(selectedInstrumental.title)}-${suffix}.wav`,
+        'audio/wav'
+      );
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      console.error('Error exporting transposed instrumental:', error);
+      setExportError('Export failed');
+    } finally {
+      if (!controller.signal.aborted) setExportProgress(null);
+      if (exportAbortRef.current === controller) exportAbortRef.current = null;
+    }
+  };
+
   const formatTime = (seconds: number) => {
     if (isNaN(seconds)) return '0:00';
     const mins = Math.floor(seconds / 60);
@@ -97,6 +548,18 @@ const InstrumentalPlayer: React.FC<InstrumentalPlayerProps> = ({ selectedInstrum
 
   if (!selectedInstrumental) return null;
 
+  // The metadata key as stored, else the analysed one
+  const trackKey = parseInstrumentalKey(selectedInstrumental.key ?? '') ?? selectedInstrumental.analysis?.key ?? null;
+  const shiftedKey = trackKey && {
+    key: MusicTheoryEngine.transposeNote(trackKey.key, semitones),
+    mode: trackKey.mode
+  };
+  const keyToDetected = trackKey && detectedKey
+    ? MusicTheoryEngine.getTranspositionInterval(trackKey, detectedKey)
+    : null;
+  const isAdjusted = semitones !== 0 || tempo !== 1;
+  const canTranspose = pitchShifter !== null;
+
   return (
     <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
       <div className="bg-gradient-to-br from-blue-900/90 to-cyan-900/90 rounded-lg p-6 border border-blue-500/30 max-w-md w-full shadow-xl">
@@ -104,8 +567,22 @@ const InstrumentalPlayer: React.FC<InstrumentalPlayerProps> = ({ selectedInstrum
           <div className="flex-1">
             <h2 className="text-xl font-bold text-white truncate">{selectedInstrumental.title}</h2>
             <div className="flex items-center space-x-4 text-sm text-gray-300 mt-2">
-              {selectedInstrumental.tempo && <span>{selectedInstrumental.tempo} BPM</span>}
-              {selectedInstrumental.key && <span>Key: {selectedInstrumental.key}</span>}
+              {selectedInstrumental.tempo && (
+                <span>
+                  {Math.round(selectedInstrumental.tempo * tempo)} BPM
+                  {tempo !== 1 && <span className="text-gray-400"> (was {selectedInstrumental.tempo})</span>}
+                </span>
+              )}
+              {(selectedInstrumental.key || trackKey) && (
+                <span>
+                  Key: {semitones === 0
+                    ? selectedInstrumental.key || instrumentalKeyLabel(trackKey!)
+                    : shiftedKey ? instrumentalKeyLabel(shiftedKey) : `${selectedInstrumental.key} ${formatSemitones(semitones)}`}
+                  {semitones !== 0 && shiftedKey && (
+                    <span className="text-gray-400"> (was {selectedInstrumental.key || instrumentalKeyLabel(trackKey)})</span>
+                  )}
+                </span>
+              )}
             </div>
           </div>
           <button
@@ -127,6 +604,28 @@ const InstrumentalPlayer: React.FC<InstrumentalPlayerProps> = ({ selectedInstrum
               onChange={(e) => handleSeek(parseFloat(e.target.value))}
               className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-blue-400"
             />
+            {/* Loop region and markers along the track */}
+            {totalTime > 0 && (loopStart !== null || markers.length > 0) && (
+              <div className="relative h-2">
+                {loopStart !== null && loopEnd !== null && (
+                  <div
+                    className={`absolute inset-y-0 rounded ${isLooping ? 'bg-blue-400/60' : 'bg-blue-400/20'}`}
+                    style={{
+                      left: `${(loopStart / totalTime) * 100}%`,
+                      width: `${((loopEnd - loopStart) / totalTime) * 100}%`
+                    }}
+                  />
+                )}
+                {markers.map(marker => (
+                  <div
+                    key={marker.id}
+                    className="absolute inset-y-0 w-0.5 bg-yellow-300"
+                    style={{ left: `${(marker.time / totalTime) * 100}%` }}
+                    title={marker.name}
+                  />
+                ))}
+              </div>
+            )}
             <div className="flex justify-between text-xs text-gray-400">
               <span>{formatTime(currentTime)}</span>
               <span>{formatTime(totalTime)}</span>
@@ -151,6 +650,32 @@ const InstrumentalPlayer: React.FC<InstrumentalPlayerProps> = ({ selectedInstrum
             </button>
           </div>
 
+          {/* Loop and count-in */}
+          <LoopControls
+            loopStart={loopStart}
+            loopEnd={loopEnd}
+            isLooping={isLooping}
+            renderProgress={loopProgress}
+            error={loopError}
+            onSetStart={handleSetLoopStart}
+            onSetEnd={handleSetLoopEnd}
+            onToggle={handleToggleLoop}
+            onClear={() => applyLoop(null, null, false)}
+            countInBars={countInBars}
+            onCountInChange={setCountInBars}
+            countInAvailable={selectedInstrumental.tempo > 0}
+          />
+
+          <InstrumentalMarkers
+            markers={markers}
+            currentTime={currentTime}
+            onAdd={handleAddMarker}
+            onDelete={handleDeleteMarker}
+            onJump={(marker) => handleSeek(marker.time)}
+            onLoopSection={handleLoopSection}
+            error={markerError}
+          />
+
           {/* Volume Control */}
           <div className="flex items-center space-x-3">
             {volume === 0 ? (
@@ -169,10 +694,115 @@ const InstrumentalPlayer: React.FC<InstrumentalPlayerProps> = ({ selectedInstrum
             />
             <span className="text-xs text-gray-400 w-8 text-right">{Math.round(volume * 100)}%</span>
           </div>
+
+          {/* Transpose and tempo */}
+          <div className="space-y-3 p-3 bg-black/20 rounded border border-blue-500/20">
+            <div className="flex items-center justify-between">
+              <span className="text-sm text-gray-300">Transpose</span>
+              <div className="flex items-center space-x-2">
+                <button
+                  onClick={() => handleTranspose(semitones - 1)}
+                  disabled={!canTranspose || semitones <= -MAX_TRANSPOSE_SEMITONES}
+                  className="p-1 bg-white/10 hover:bg-white/20 disabled:opacity-40 text-white rounded transition-colors"
+                  title="Down a semitone"
+                >
+                  <Minus className="w-4 h-4" />
+                </button>
+                <span className="text-sm text-white w-16 text-center">{formatSemitones(semitones)} st</span>
+                <button
+                  onClick={() => handleTranspose(semitones + 1)}
+                  disabled={!canTranspose || semitones >= MAX_TRANSPOSE_SEMITONES}
+                  className="p-1 bg-white/10 hover:bg-white/20 disabled:opacity-40 text-white rounded transition-colors"
+                  title="Up a semitone"
+                >
+                  <Plus className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => setSemitones(0)}
+                  disabled={semitones === 0}
+                  className="p-1 text-gray-400 hover:text-white disabled:opacity-40 transition-colors"
+                  title="Original key"
+                >
+                  <RotateCcw className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+
+            <div className="flex items-center space-x-3">
+              <span className="text-sm text-gray-300">Tempo</span>
+              <input
+                type="range"
+                min={MIN_STRETCH_TEMPO}
+                max={MAX_STRETCH_TEMPO}
+                step="0.05"
+                value={tempo}
+                onChange={(e) => handleTempoChange(parseFloat(e.target.value))}
+                className="flex-1 h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-blue-400"
+              />
+              <span className="text-xs text-gray-400 w-10 text-right">{Math.round(tempo * 100)}%</span>
+              <button
+                onClick={() => handleTempoChange(1)}
+                disabled={tempo === 1}
+                className="p-1 text-gray-400 hover:text-white disabled:opacity-40 transition-colors"
+                title="Original tempo"
+              >
+                <RotateCcw className="w-4 h-4" />
+              </button>
+            </div>
+
+            {keyToDetected !== null && detectedKey && (
+              <button
+                onClick={() => handleTranspose(keyToDetected)}
+                disabled={!canTranspose || keyToDetected === semitones}
+                className="w-full flex items-center justify-center space-x-2 px-3 py-1.5 bg-purple-500/20 hover:bg-purple-500/30 disabled:opacity-50 text-purple-300 rounded border border-purple-500/30 transition-colors text-sm"
+              >
+                <Wand2 className="w-4 h-4" />
+                <span>
+                  Transpose to detected key ({instrumentalKeyLabel(detectedKey)}, {formatSemitones(keyToDetected)} st)
+                </span>
+              </button>
+            )}
+
+            <button
+              onClick={handleExport}
+              disabled={!isAdjusted || exportProgress !== null}
+              className="w-full flex items-center justify-center space-x-2 px-3 py-1.5 bg-white/10 hover:bg-white/20 disabled:opacity-50 text-white rounded transition-colors text-sm"
+            >
+              {exportProgress !== null ? (
+                <>
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                  <span>Rendering… {Math.round(exportProgress * 100)}%</span>
+                </>
+              ) : (
+                <>
+                  <Download className="w-4 h-4" />
+                  <span>Export transposed WAV</span>
+                </>
+              )}
+            </button>
+
+            {exportError && <p className="text-xs text-red-400">{exportError}</p>}
+            {shifterFailed && (
+              <p className="text-xs text-yellow-400">Transposition needs AudioWorklet support; tempo still works.</p>
+            )}
+          </div>
         </div>
 
+        {onAnalyzeTrack && (
+          <button
+            onClick={() => gainNodeRef.current && onAnalyzeTrack(gainNodeRef.current)}
+            className="mt-4 w-full flex items-center justify-center space-x-2 px-4 py-2 bg-purple-500/20 hover:bg-purple-500/30 text-purple-300 rounded-lg border border-purple-500/30 transition-colors text-sm"
+          >
+            <Activity className="w-4 h-4" />
+            <span>Detect key from this track</span>
+          </button>
+        )}
+
         <div className="mt-4 p-3 bg-black/30 rounded border border-blue-500/20 text-sm text-gray-300">
           <p>Practice along with this instrumental track</p>
+          <p className="text-xs text-gray-400 mt-1">
+            Space play/pause · A / B loop points · L loop · M add marker · [ ] previous/next marker · 1–9 go to marker
+          </p>
         </div>
       </div>
     </div>
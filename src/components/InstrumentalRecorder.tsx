@@ -2,13 +2,19 @@ import React, { useState, useRef } from 'react';
 import { Mic, Square, Play, Pause, Trash2, Save } from 'lucide-react';
 import { Instrumental } from '../lib/supabase';
 import { InstrumentalService } from '../services/instrumentalService';
+import { OfflineAnalysisOptions, SmartAudioProcessor } from '../utils/audioProcessor';
+import { InstrumentalTagEstimate } from '../utils/recordingAnalysis';
+import InstrumentalTagFields from './InstrumentalTagFields';
 
 interface InstrumentalRecorderProps {
+  // Used to detect the take's tempo and key
+  audioProcessor: SmartAudioProcessor;
+  analysisOptions?: Pick<OfflineAnalysisOptions, 'keyProfile' | 'keyModes'>;
   onInstrumentalSaved?: (instrumental: Instrumental) => void;
   onRefresh?: () => void;
 }
 
-const InstrumentalRecorder: React.FC<InstrumentalRecorderProps> = ({ onInstrumentalSaved, onRefresh }) => {
+const InstrumentalRecorder: React.FC<InstrumentalRecorderProps> = ({ audioProcessor, analysisOptions, onInstrumentalSaved, onRefresh }) => {
   const [isRecording, setIsRecording] = useState(false);
   const [recordedBlob, setRecordedBlob] = useState<Blob | null>(null);
   const [isPlaying, setIsPlaying] = useState(false);
@@ -16,6 +22,7 @@ const InstrumentalRecorder: React.FC<InstrumentalRecorderProps> = ({ onInstrumen
   const [recordingTitle, setRecordingTitle] = useState('');
   const [recordingTempo, setRecordingTempo] = useState('120');
   const [recordingKey, setRecordingKey] = useState('');
+  const [tagEstimate, setTagEstimate] = useState<InstrumentalTagEstimate | null>(null);
   const [isSaving, setIsSaving] = useState(false);
 
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
@@ -136,7 +143,8 @@ const InstrumentalRecorder: React.FC<InstrumentalRecorderProps> = ({ onInstrumen
         recordingTitle.trim(),
         duration,
         parseInt(recordingTempo) || 120,
-        recordingKey
+        recordingKey,
+        tagEstimate?.analysis ?? null
       );
 
       if (instrumental) {
@@ -160,8 +168,6 @@ const InstrumentalRecorder: React.FC<InstrumentalRecorderProps> = ({ onInstrumen
     return `${mins}:${secs.toString().padStart(2, '0')}`;
   };
 
-  const keys = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
-
   return (
     <div className="bg-gradient-to-br from-purple-900/50 to-pink-900/50 backdrop-blur-sm rounded-lg p-6 border border-purple-500/30">
       <h3 className="text-lg font-semibold text-white mb-4">Record Instrumental</h3>
@@ -236,34 +242,17 @@ const InstrumentalRecorder: React.FC<InstrumentalRecorderProps> = ({ onInstrumen
                 />
               </div>
 
-              <div className="grid grid-cols-2 gap-3">
-                <div>
-                  <label className="block text-sm text-gray-300 mb-1">Tempo (BPM)</label>
-                  <input
-                    type="number"
-                    value={recordingTempo}
-                    onChange={(e) => setRecordingTempo(e.target.value)}
-                    min="40"
-                    max="300"
-                    className="w-full bg-gray-600 text-white px-3 py-2 rounded border border-gray-500 focus:outline-none focus:border-blue-400"
-                  />
-                </div>
-                <div>
-                  <label className="block text-sm text-gray-300 mb-1">Key</label>
-                  <select
-                    value={recordingKey}
-                    onChange={(e) => setRecordingKey(e.target.value)}
-                    className="w-full bg-gray-600 text-white px-3 py-2 rounded border border-gray-500 focus:outline-none focus:border-blue-400"
-                  >
-                    <option value="">Select key...</option>
-                    {keys.map((key) => (
-                      <option key={key} value={key}>
-                        {key}
-                      </option>
-                    ))}
-                  </select>
-                </div>
-              </div>
+              <InstrumentalTagFields
+                audio={recordedBlob}
+                audioProcessor={audioProcessor}
+                analysisOptions={analysisOptions}
+                tempo={recordingTempo}
+                keyLabel={recordingKey}
+                onTempoChange={setRecordingTempo}
+                onKeyChange={setRecordingKey}
+                onEstimate={setTagEstimate}
+                accent="blue"
+              />
             </div>
           </div>
 
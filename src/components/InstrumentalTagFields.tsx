@@ -0,0 +1,219 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Loader2, Wand2 } from 'lucide-react';
+import { OfflineAnalysisOptions, SmartAudioProcessor } from '../utils/audioProcessor';
+import { InstrumentalTagEstimate, instrumentalKeyLabel, instrumentalTagsFromOffline } from '../utils/recordingAnalysis';
+import { NOTE_NAMES } from '../utils/keyDetection';
+
+interface InstrumentalTagFieldsProps {
+  // The file or take to tag; analysed whenever it changes
+  audio: Blob | null;
+  audioProcessor: SmartAudioProcessor;
+  analysisOptions?: Pick<OfflineAnalysisOptions, 'keyProfile' | 'keyModes'>;
+  tempo: string;
+  keyLabel: string;
+  onTempoChange: (tempo: string) => void;
+  onKeyChange: (key: string) => void;
+  // The estimate once the analysis finishes; null while there is none
+  onEstimate?: (estimate: InstrumentalTagEstimate | null) => void;
+  accent?: 'green' | 'blue';
+}
+
+const FOCUS_CLASSES = {
+  green: 'focus:border-green-400',
+  blue: 'focus:border-blue-400'
+};
+
+// Every major and minor key in the instrumentals' "C" / "Am" form
+const KEY_OPTIONS = NOTE_NAMES.flatMap(note => [note, `${note}m`]);
+
+const confidenceClass = (confidence: number) =>
+  confidence >= 0.6 ? 'text-green-400' : confidence >= 0.3 ? 'text-yellow-400' : 'text-gray-400';
+
+// Tempo and key inputs for an instrumental, pre-filled from an analysis of
+// its audio. Fields the user has already changed are left alone, and the
+// estimates stay on show so they can be taken back.
+const InstrumentalTagFields: React.FC<InstrumentalTagFieldsProps> = ({
+  audio,
+  audioProcessor,
+  analysisOptions,
+  tempo,
+  keyLabel,
+  onTempoChange,
+  onKeyChange,
+  onEstimate,
+  accent = 'green'
+}) => {
+  const [estimate, setEstimate] = useState<InstrumentalTagEstimate | null>(null);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const touchedRef = useRef({ tempo: false, key: false });
+  // The analysis outlives renders; let it call the latest handlers
+  const handlersRef = useRef({ onTempoChange, onKeyChange, onEstimate });
+  handlersRef.current = { onTempoChange, onKeyChange, onEstimate };
+
+  useEffect(() => {
+    setEstimate(null);
+    setError(null);
+    handlersRef.current.onEstimate?.(null);
+    touchedRef.current = { tempo: false, key: false };
+    if (!audio) return;
+
+    const controller = new AbortController();
+    setProgress(0);
+    audioProcessor.analyzeOffline(audio, { ...analysisOptions, signal: controller.signal, onProgress: setProgress })
+      .then(result => {
+        if (controller.signal.aborted) return;
+        const detected = instrumentalTagsFromOffline(result);
+        console.log(`Instrumental tags: ${detected.tempo} BPM (${(detected.tempoConfidence * 100).toFixed(0)}%), key ${detected.key ? instrumentalKeyLabel(detected.key) : 'none'} (${(detected.keyConfidence * 100).toFixed(0)}%)`);
+        setEstimate(detected);
+        const handlers = handlersRef.current;
+        if (!touchedRef.current.tempo && detected.tempoConfidence > 0) {
+          handlers.onTempoChange(String(Math.round(detected.tempo)));
+        }
+        if (!touchedRef.current.key && detected.key) {
+          handlers.onKeyChange(instrumentalKeyLabel(detected.key));
+        }
+        handlers.onEstimate?.(detected);
+      })
+      .catch(error => {
+        if (controller.signal.aborted) return;
+        console.error('Error estimating tempo and key:', error);
+        setError('Could not detect tempo and key; enter them by hand');
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setProgress(null);
+      });
+
+    return () => controller.abort();
+  }, [audio, audioProcessor, analysisOptions]);
+
+  const handleTempoChange = (value: string) => {
+    touchedRef.current.tempo = true;
+    onTempoChange(value);
+  };
+
+  const handleKeyChange = (value: string) => {
+    touchedRef.current.key = true;
+    onKeyChange(value);
+  };
+
+  const scaleTempo = (factor: number) => {
+    const current = parseFloat(tempo);
+    if (current > 0) handleTempoChange(String(Math.round(current * factor)));
+  };
+
+  const detectedKeyLabel = estimate?.key ? instrumentalKeyLabel(estimate.key) : null;
+  const keyOptions = [...KEY_OPTIONS];
+  [keyLabel, detectedKeyLabel, ...(estimate?.alternativeKeys.map(instrumentalKeyLabel) ?? [])].forEach(label => {
+    if (label && !keyOptions.includes(label)) keyOptions.push(label);
+  });
+  const focusClass = FOCUS_CLASSES[accent];
+
+  return (
+    <div className="space-y-2">
+      {progress !== null ? (
+        <div className="flex items-center space-x-2 text-xs text-gray-400">
+          <Loader2 className="w-3 h-3 animate-spin" />
+          <span>Detecting tempo and key… {Math.round(progress * 100)}%</span>
+        </div>
+      ) : error ? (
+        <p className="text-xs text-red-400">{error}</p>
+      ) : estimate && (
+        <div className="flex items-center flex-wrap gap-x-3 gap-y-1 text-xs">
+          <Wand2 className="w-3 h-3 text-purple-300" />
+          <span className={confidenceClass(estimate.tempoConfidence)}>
+            {estimate.tempoConfidence > 0
+              ? `${Math.round(estimate.tempo)} BPM, ${Math.round(estimate.tempoConfidence * 100)}% sure`
+              : 'No steady beat found'}
+          </span>
+          <span className={confidenceClass(estimate.keyConfidence)}>
+            {detectedKeyLabel
+              ? `Key ${detectedKeyLabel}, held ${Math.round(estimate.keyConfidence * 100)}% of the time`
+              : 'No clear key'}
+          </span>
+          {((estimate.tempoConfidence > 0 && tempo !== String(Math.round(estimate.tempo))) ||
+            (detectedKeyLabel && keyLabel !== detectedKeyLabel)) && (
+            <button
+              type="button"
+              onClick={() => {
+                if (estimate.tempoConfidence > 0) onTempoChange(String(Math.round(estimate.tempo)));
+                if (detectedKeyLabel) onKeyChange(detectedKeyLabel);
+              }}
+              className="text-purple-300 hover:text-purple-200 transition-colors"
+            >
+              Use detected
+            </button>
+          )}
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className="block text-sm text-gray-300 mb-1">Tempo (BPM)</label>
+          <div className="flex items-center space-x-1">
+            <input
+              type="number"
+              value={tempo}
+              onChange={(e) => handleTempoChange(e.target.value)}
+              min="40"
+              max="300"
+              className={`w-full bg-gray-600 text-white px-3 py-2 rounded border border-gray-500 focus:outline-none ${focusClass}`}
+            />
+            {/* Beat trackers often lock onto half or double the felt tempo */}
+            <button
+              type="button"
+              onClick={() => scaleTempo(0.5)}
+              className="px-2 py-2 bg-gray-600 hover:bg-gray-500 text-gray-200 text-xs rounded transition-colors"
+              title="Half tempo"
+            >
+              ½×
+            </button>
+            <button
+              type="button"
+              onClick={() => scaleTempo(2)}
+              className="px-2 py-2 bg-gray-600 hover:bg-gray-500 text-gray-200 text-xs rounded transition-colors"
+              title="Double tempo"
+            >
+              2×
+            </button>
+          </div>
+        </div>
+        <div>
+          <label className="block text-sm text-gray-300 mb-1">Key</label>
+          <select
+            value={keyLabel}
+            onChange={(e) => handleKeyChange(e.target.value)}
+            className={`w-full bg-gray-600 text-white px-3 py-2 rounded border border-gray-500 focus:outline-none ${focusClass}`}
+          >
+            <option value="">Select key...</option>
+            {keyOptions.map((key) => (
+              <option key={key} value={key}>
+                {key}
+              </option>
+            ))}
+          </select>
+          {estimate && estimate.alternativeKeys.length > 0 && (
+            <div className="mt-1 flex flex-wrap gap-1 text-xs text-gray-400">
+              <span>Or:</span>
+              {estimate.alternativeKeys.map(alternative => {
+                const label = instrumentalKeyLabel(alternative);
+                return (
+                  <button
+                    key={label}
+                    type="button"
+                    onClick={() => handleKeyChange(label)}
+                    className="text-gray-300 hover:text-white underline decoration-dotted transition-colors"
+                  >
+                    {label}
+                  </button>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default InstrumentalTagFields;
@@ -1,14 +1,29 @@
-import React, { useState, useEffect } from 'react';
-import { Play, Pause, Trash2, CreditCard as Edit2, Check, X, Music, Upload } from 'lucide-react';
-import { Instrumental } from '../lib/supabase';
+import React, { useState, useEffect, useRef } from 'react';
+import { Play, Pause, Trash2, CreditCard as Edit2, Check, X, Music, Upload, RefreshCw, Loader2 } from 'lucide-react';
+import { Instrumental, InstrumentalMarker } from '../lib/supabase';
 import { InstrumentalService } from '../services/instrumentalService';
+import { OfflineAnalysisOptions, SmartAudioProcessor } from '../utils/audioProcessor';
+import { InstrumentalTagEstimate, analysisFromOffline, analyzeStoredAudio, instrumentalKeyLabel } from '../utils/recordingAnalysis';
+import InstrumentalTagFields from './InstrumentalTagFields';
 
 interface InstrumentalsListProps {
+  // Used to re-analyse stored instrumentals
+  audioProcessor: SmartAudioProcessor;
+  // Key detection settings for re-analysis, as used live
+  analysisOptions?: Pick<OfflineAnalysisOptions, 'keyProfile' | 'keyModes'>;
   onInstrumentalSelect?: (instrumental: Instrumental) => void;
   onRefresh?: () => void;
+  // Markers saved from the player, merged in without reloading the list
+  markerUpdate?: { id: string; markers: InstrumentalMarker[] } | null;
 }
 
-const InstrumentalsList: React.FC<InstrumentalsListProps> = ({ onInstrumentalSelect, onRefresh }) => {
+const InstrumentalsList: React.FC<InstrumentalsListProps> = ({
+  audioProcessor,
+  analysisOptions,
+  onInstrumentalSelect,
+  onRefresh,
+  markerUpdate = null
+}) => {
   const [instrumentals, setInstrumentals] = useState<Instrumental[]>([]);
   const [playingId, setPlayingId] = useState<string | null>(null);
   const [editingId, setEditingId] = useState<string | null>(null);
@@ -20,11 +35,34 @@ const InstrumentalsList: React.FC<InstrumentalsListProps> = ({ onInstrumentalSel
   const [uploadTempo, setUploadTempo] = useState('120');
   const [uploadKey, setUploadKey] = useState('');
   const [showUploadForm, setShowUploadForm] = useState(false);
+  // The chosen file waits here while its tempo and key are detected
+  const [uploadFile, setUploadFile] = useState<File | null>(null);
+  const [uploadEstimate, setUploadEstimate] = useState<InstrumentalTagEstimate | null>(null);
+  // Re-analysis of stored audio: the instrumental being analysed and how
+  // far, and the position in a whole-library pass
+  const [reanalysis, setReanalysis] = useState<{ id: string; progress: number } | null>(null);
+  const [backfill, setBackfill] = useState<{ done: number; total: number } | null>(null);
+  const [reanalysisError, setReanalysisError] = useState<string | null>(null);
+  const backfillAbortRef = useRef<AbortController | null>(null);
+  const reanalyzeAbortRef = useRef<AbortController | null>(null);
 
   useEffect(() => {
     loadInstrumentals();
   }, []);
 
+  useEffect(() => {
+    if (!markerUpdate) return;
+    setInstrumentals(prev => prev.map(item => (
+      item.id === markerUpdate.id ? { ...item, markers: markerUpdate.markers } : item
+    )));
+  }, [markerUpdate]);
+
+  // The list is remounted on refresh; nothing should carry on unseen
+  useEffect(() => () => {
+    backfillAbortRef.current?.abort();
+    reanalyzeAbortRef.current?.abort();
+  }, []);
+
   const loadInstrumentals = async () => {
     setLoading(true);
     const data = await InstrumentalService.getAllInstrumentals();
@@ -71,6 +109,81 @@ const InstrumentalsList: React.FC<InstrumentalsListProps> = ({ onInstrumentalSel
     }
   };
 
+  // Runs the detector over the stored file and replaces the tempo, key and
+  // duration with what it finds
+  const reanalyze = async (instrumental: Instrumental, signal?: AbortSignal) => {
+    setReanalysis({ id: instrumental.id, progress: 0 });
+    try {
+      const result = await analyzeStoredAudio(audioProcessor, instrumental.audio_url, {
+        ...analysisOptions,
+        signal,
+        onProgress: progress => setReanalysis({ id: instrumental.id, progress })
+      });
+      if (signal?.aborted) throw new DOMException('Re-analysis aborted', 'AbortError');
+      const analysis = analysisFromOffline(result);
+      // The columns are whole numbers
+      const metadata = {
+        tempo: Math.round(analysis.tempo),
+        key: analysis.key ? instrumentalKeyLabel(analysis.key) : '',
+        duration: Math.round(analysis.duration),
+        analysis
+      };
+      const success = await InstrumentalService.updateInstrumentalMetadata(instrumental.id, metadata);
+      if (!success) throw new Error('Failed to save the new analysis');
+
+      console.log(`Re-analysed "${instrumental.title}": ${metadata.key || 'no key'}, ${metadata.tempo} BPM`);
+      setInstrumentals(prev => prev.map(item => (item.id === instrumental.id ? { ...item, ...metadata } : item)));
+    } finally {
+      setReanalysis(null);
+    }
+  };
+
+  const handleReanalyze = async (instrumental: Instrumental) => {
+    const controller = new AbortController();
+    reanalyzeAbortRef.current = controller;
+    setReanalysisError(null);
+    try {
+      await reanalyze(instrumental, controller.signal);
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      console.error('Error re-analysing instrumental:', error);
+      setReanalysisError(`Could not re-analyse "${instrumental.title}"`);
+    } finally {
+      if (reanalyzeAbortRef.current === controller) reanalyzeAbortRef.current = null;
+    }
+  };
+
+  // Re-analyse every instrumental in turn, e.g. after the detector improves;
+  // pressed again, abandons the one running and stops
+  const handleReanalyzeAll = async () => {
+    if (backfillAbortRef.current) {
+      backfillAbortRef.current.abort();
+      return;
+    }
+
+    const controller = new AbortController();
+    backfillAbortRef.current = controller;
+    setReanalysisError(null);
+    const queue = [...instrumentals];
+    let failed = 0;
+    for (const [index, instrumental] of queue.entries()) {
+      if (controller.signal.aborted) break;
+      setBackfill({ done: index, total: queue.length });
+      try {
+        await reanalyze(instrumental, controller.signal);
+      } catch (error) {
+        if (controller.signal.aborted) break;
+        console.error(`Error re-analysing "${instrumental.title}":`, error);
+        failed++;
+      }
+    }
+
+    console.log(`Library re-analysis ${controller.signal.aborted ? 'stopped' : 'finished'}, ${failed} failed`);
+    if (failed > 0) setReanalysisError(`${failed} instrumental${failed === 1 ? '' : 's'} could not be re-analysed`);
+    backfillAbortRef.current = null;
+    setBackfill(null);
+  };
+
   const startEdit = (instrumental: Instrumental) => {
     setEditingId(instrumental.id);
     setEditTitle(instrumental.title);
@@ -94,13 +207,21 @@ const InstrumentalsList: React.FC<InstrumentalsListProps> = ({ onInstrumentalSel
     }
   };
 
-  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+  const handleFileChosen = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    setUploadFile(file);
+    if (!uploadTitle) setUploadTitle(file.name.replace(/\.[^.]+$/, ''));
+  };
+
+  const handleFileUpload = async () => {
+    const file = uploadFile;
     if (!file) return;
 
     setIsUploading(true);
     try {
-      const duration = 0;
+      const duration = Math.round(uploadEstimate?.analysis.duration ?? 0);
       const tempo = parseInt(uploadTempo) || 120;
 
       const instrumental = await InstrumentalService.saveInstrumental(
@@ -108,7 +229,8 @@ const InstrumentalsList: React.FC<InstrumentalsListProps> = ({ onInstrumentalSel
         uploadTitle || file.name,
         duration,
         tempo,
-        uploadKey
+        uploadKey,
+        uploadEstimate?.analysis ?? null
       );
 
       if (instrumental) {
@@ -116,8 +238,8 @@ const InstrumentalsList: React.FC<InstrumentalsListProps> = ({ onInstrumentalSel
         setUploadTitle('');
         setUploadTempo('120');
         setUploadKey('');
+        setUploadFile(null);
         setShowUploadForm(false);
-        event.target.value = '';
         onRefresh?.();
       }
     } catch (error) {
@@ -139,8 +261,6 @@ const InstrumentalsList: React.FC<InstrumentalsListProps> = ({ onInstrumentalSel
     return mb >= 1 ? `${mb.toFixed(2)} MB` : `${kb.toFixed(2)} KB`;
   };
 
-  const keys = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
-
   if (loading) {
     return (
       <div className="bg-gray-800/50 backdrop-blur-sm rounded-lg p-6 border border-gray-700">
@@ -158,15 +278,30 @@ const InstrumentalsList: React.FC<InstrumentalsListProps> = ({ onInstrumentalSel
           <h3 className="text-lg font-semibold text-white">Instrumentals Library</h3>
           <span className="text-sm text-gray-400">({instrumentals.length})</span>
         </div>
-        <button
-          onClick={() => setShowUploadForm(!showUploadForm)}
-          className="flex items-center space-x-2 px-3 py-2 bg-green-500 hover:bg-green-600 text-white rounded-lg transition-colors text-sm"
-        >
-          <Upload className="w-4 h-4" />
-          <span>Upload</span>
-        </button>
+        <div className="flex items-center space-x-2">
+          {instrumentals.length > 0 && (
+            <button
+              onClick={handleReanalyzeAll}
+              disabled={reanalysis !== null && !backfill}
+              className="flex items-center space-x-2 px-3 py-2 bg-gray-600 hover:bg-gray-500 disabled:opacity-50 text-white rounded-lg transition-colors text-sm"
+              title="Run the current detector over every instrumental and replace the saved tempo and key"
+            >
+              <RefreshCw className={`w-4 h-4 ${backfill ? 'animate-spin' : ''}`} />
+              <span>{backfill ? `Stop (${backfill.done + 1}/${backfill.total})` : 'Re-analyze all'}</span>
+            </button>
+          )}
+          <button
+            onClick={() => setShowUploadForm(!showUploadForm)}
+            className="flex items-center space-x-2 px-3 py-2 bg-green-500 hover:bg-green-600 text-white rounded-lg transition-colors text-sm"
+          >
+            <Upload className="w-4 h-4" />
+            <span>Upload</span>
+          </button>
+        </div>
       </div>
 
+      {reanalysisError && <p className="text-xs text-red-400 mb-3">{reanalysisError}</p>}
+
       {showUploadForm && (
         <div className="mb-4 p-4 bg-gray-700/50 rounded-lg border border-gray-600">
           <h4 className="text-white font-medium mb-3">Upload Instrumental</h4>
@@ -181,47 +316,37 @@ const InstrumentalsList: React.FC<InstrumentalsListProps> = ({ onInstrumentalSel
                 className="w-full bg-gray-600 text-white px-3 py-2 rounded border border-gray-500 focus:outline-none focus:border-green-400"
               />
             </div>
-            <div className="grid grid-cols-2 gap-3">
-              <div>
-                <label className="block text-sm text-gray-300 mb-1">Tempo (BPM)</label>
-                <input
-                  type="number"
-                  value={uploadTempo}
-                  onChange={(e) => setUploadTempo(e.target.value)}
-                  min="40"
-                  max="300"
-                  className="w-full bg-gray-600 text-white px-3 py-2 rounded border border-gray-500 focus:outline-none focus:border-green-400"
-                />
-              </div>
-              <div>
-                <label className="block text-sm text-gray-300 mb-1">Key</label>
-                <select
-                  value={uploadKey}
-                  onChange={(e) => setUploadKey(e.target.value)}
-                  className="w-full bg-gray-600 text-white px-3 py-2 rounded border border-gray-500 focus:outline-none focus:border-green-400"
-                >
-                  <option value="">Select key...</option>
-                  {keys.map((key) => (
-                    <option key={key} value={key}>
-                      {key}
-                    </option>
-                  ))}
-                </select>
-              </div>
-            </div>
             <div>
               <label className="block text-sm text-gray-300 mb-2">Audio File</label>
               <label className="flex items-center justify-center w-full px-4 py-3 border-2 border-dashed border-gray-500 rounded-lg cursor-pointer hover:border-green-400 transition-colors">
-                <span className="text-gray-300">Choose file...</span>
+                <span className="text-gray-300 truncate">{uploadFile ? uploadFile.name : 'Choose file...'}</span>
                 <input
                   type="file"
                   accept="audio/*"
-                  onChange={handleFileUpload}
+                  onChange={handleFileChosen}
                   disabled={isUploading}
                   className="hidden"
                 />
               </label>
             </div>
+            <InstrumentalTagFields
+              audio={uploadFile}
+              audioProcessor={audioProcessor}
+              analysisOptions={analysisOptions}
+              tempo={uploadTempo}
+              keyLabel={uploadKey}
+              onTempoChange={setUploadTempo}
+              onKeyChange={setUploadKey}
+              onEstimate={setUploadEstimate}
+            />
+            <button
+              onClick={handleFileUpload}
+              disabled={!uploadFile || isUploading}
+              className="w-full flex items-center justify-center space-x-2 px-4 py-2 bg-green-500 hover:bg-green-600 disabled:bg-gray-600 text-white rounded-lg font-medium transition-colors"
+            >
+              <Upload className="w-4 h-4" />
+              <span>{isUploading ? 'Uploading...' : 'Upload Instrumental'}</span>
+            </button>
           </div>
         </div>
       )}
@@ -297,6 +422,13 @@ const InstrumentalsList: React.FC<InstrumentalsListProps> = ({ onInstrumentalSel
                     {instrumental.key && <span className="text-green-400">Key: {instrumental.key}</span>}
                     <span>{new Date(instrumental.created_at).toLocaleDateString()}</span>
                   </div>
+
+                  {reanalysis?.id === instrumental.id && (
+                    <div className="mt-2 flex items-center space-x-2 text-xs text-gray-400">
+                      <Loader2 className="w-3 h-3 animate-spin" />
+                      <span>Re-analysing… {Math.round(reanalysis.progress * 100)}%</span>
+                    </div>
+                  )}
                 </div>
 
                 <div className="flex items-center space-x-2 ml-4">
@@ -317,6 +449,17 @@ const InstrumentalsList: React.FC<InstrumentalsListProps> = ({ onInstrumentalSel
                       <Play className="w-4 h-4" />
                     )}
                   </button>
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      handleReanalyze(instrumental);
+                    }}
+                    disabled={reanalysis !== null}
+                    className="p-2 rounded-lg bg-gray-600 hover:bg-gray-500 text-gray-200 transition-colors disabled:opacity-50"
+                    title="Re-analyze"
+                  >
+                    <RefreshCw className={`w-4 h-4 ${reanalysis?.id === instrumental.id ? 'animate-spin' : ''}`} />
+                  </button>
                   <button
                     onClick={(e) => {
                       e.stopPropagation();
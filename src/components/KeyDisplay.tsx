@@ -1,18 +1,29 @@
 import React from 'react';
-import { Music, Lock, Unlock } from 'lucide-react';
-import { KeyDetectionResult } from '../types/audio';
-import { KeyOverride } from '../types/music';
+import { Music, Lock, Unlock, AlertTriangle } from 'lucide-react';
+import { KeyDetectionResult, KeyModulation, KeySegment } from '../types/audio';
+import { KeyMode, KeyOverride } from '../types/music';
+import { KEY_MODES, MODE_LABELS } from '../utils/musicTheory';
+import KeyTimeline from './KeyTimeline';
 
 interface KeyDisplayProps {
   detectedKey: KeyDetectionResult | null;
   keyOverride: KeyOverride;
   confidence: number;
+  timeline?: KeySegment[];
+  modulations?: KeyModulation[];
+  // Key profile family the detected key was scored with
+  profileName?: string;
+  onOverrideModeChange?: (mode: KeyMode) => void;
 }
 
 const KeyDisplay: React.FC<KeyDisplayProps> = ({
   detectedKey,
   keyOverride,
-  confidence
+  confidence,
+  timeline = [],
+  modulations = [],
+  profileName,
+  onOverrideModeChange
 }) => {
   const currentKey = keyOverride.isActive 
     ? { key: keyOverride.selectedKey, mode: keyOverride.selectedMode }
@@ -39,7 +50,7 @@ const KeyDisplay: React.FC<KeyDisplayProps> = ({
             <h3 className="text-sm font-medium text-white">Detected Key</h3>
             <div className="flex items-center space-x-2">
               <span className="text-xs text-gray-400">
-                {keyOverride.isActive ? 'Manual Override' : 'Auto Detection'}
+                {keyOverride.isActive ? 'Manual Override' : `Auto Detection${profileName ? ` · ${profileName}` : ''}`}
               </span>
               {keyOverride.isActive ? (
                 <Lock className="w-3 h-3 text-pink-400" />
@@ -68,11 +79,11 @@ const KeyDisplay: React.FC<KeyDisplayProps> = ({
             <div className="text-4xl font-bold text-white">
               {currentKey.key}
               <span className="text-2xl text-gray-400 ml-2">
-                {currentKey.mode}
+                {MODE_LABELS[currentKey.mode]}
               </span>
             </div>
             <div className="text-sm text-gray-400">
-              {currentKey.key} {currentKey.mode} scale
+              {currentKey.key} {MODE_LABELS[currentKey.mode].toLowerCase()} scale
             </div>
           </div>
         ) : (
@@ -100,6 +111,52 @@ const KeyDisplay: React.FC<KeyDisplayProps> = ({
         </div>
       </div>
 
+      {/* Candidates */}
+      {!keyOverride.isActive && detectedKey && detectedKey.candidates.length > 1 && (
+        <div className="mt-4 space-y-1">
+          <div className="text-xs text-gray-400">Candidates</div>
+          {detectedKey.candidates.map(candidate => {
+            const chosen = candidate.key === detectedKey.key && candidate.mode === detectedKey.mode;
+            return (
+              <div key={`${candidate.key}-${candidate.mode}`} className="flex items-center space-x-2 text-xs">
+                <span className={`w-20 ${chosen ? 'text-white font-medium' : 'text-gray-400'}`}>
+                  {candidate.key} {candidate.mode}
+                </span>
+                <div className="flex-1 h-1.5 bg-gray-700 rounded-full overflow-hidden">
+                  <div
+                    className={`h-full rounded-full ${chosen ? 'bg-blue-400' : 'bg-gray-500'}`}
+                    style={{ width: `${candidate.probability * 100}%` }}
+                  />
+                </div>
+                <span className="w-12 text-right font-mono text-gray-500" title="Correlation with the key profile">
+                  r {candidate.score.toFixed(2)}
+                </span>
+              </div>
+            );
+          })}
+
+          {detectedKey.ambiguities.map(ambiguity => (
+            <div
+              key={`${ambiguity.relation}-${ambiguity.key}-${ambiguity.mode}`}
+              className="flex items-center space-x-2 text-xs text-yellow-300 mt-1"
+            >
+              <AlertTriangle className="w-3 h-3" />
+              <span>
+                Close to {ambiguity.relation} key {ambiguity.key} {ambiguity.mode}
+                {' '}({ambiguity.margin >= 0 ? `${ambiguity.margin.toFixed(2)} behind` : `${(-ambiguity.margin).toFixed(2)} ahead`})
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Key Timeline */}
+      {timeline.length > 0 && (
+        <div className="mt-4">
+          <KeyTimeline timeline={timeline} modulations={modulations} />
+        </div>
+      )}
+
       {/* Mode Indicator */}
       {keyOverride.isActive && (
         <div className="mt-3 p-2 bg-pink-500/10 rounded border border-pink-500/20">
@@ -110,6 +167,19 @@ const KeyDisplay: React.FC<KeyDisplayProps> = ({
           <div className="text-xs text-pink-300 text-center mt-1">
             Press different key to change, double-tap to return to auto
           </div>
+          {onOverrideModeChange && (
+            <select
+              value={keyOverride.selectedMode}
+              onChange={(e) => onOverrideModeChange(e.target.value as KeyMode)}
+              className="mt-2 w-full bg-gray-700 text-white text-sm px-2 py-1 rounded border border-pink-500/30 focus:outline-none focus:border-pink-400"
+            >
+              {KEY_MODES.map(mode => (
+                <option key={mode} value={mode}>
+                  {keyOverride.selectedKey} {MODE_LABELS[mode]}
+                </option>
+              ))}
+            </select>
+          )}
         </div>
       )}
     </div>
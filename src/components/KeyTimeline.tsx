@@ -0,0 +1,89 @@
+import React from 'react';
+import { ArrowRight } from 'lucide-react';
+import { KeyModulation, KeySegment } from '../types/audio';
+import { KeyMode } from '../types/music';
+import { NOTE_NAMES } from '../utils/keyDetection';
+import { MODE_INTERVALS, MusicTheoryEngine } from '../utils/musicTheory';
+
+interface KeyTimelineProps {
+  timeline: KeySegment[];
+  modulations?: KeyModulation[];
+  // How many of the latest modulations to list under the bar
+  maxModulations?: number;
+}
+
+// Neighbouring keys on the circle of fifths get neighbouring hues; other
+// modes share the hue of the major key with their signature, and modes with
+// a minor third are drawn darker
+const keyColor = (key: string, mode: KeyMode) => {
+  const parentMajor = NOTE_NAMES.indexOf(MusicTheoryEngine.getParentMajor(key, mode));
+  const fifths = (parentMajor * 7) % 12;
+  return `hsl(${fifths * 30}, 70%, ${MODE_INTERVALS[mode][2] === 3 ? 38 : 55}%)`;
+};
+
+const SHORT_MODE_NAMES: Partial<Record<KeyMode, string>> = {
+  minor: 'm',
+  dorian: ' dor',
+  phrygian: ' phr',
+  lydian: ' lyd',
+  mixolydian: ' mix',
+  locrian: ' loc',
+  'harmonic-minor': 'm harm',
+  'melodic-minor': 'm mel'
+};
+
+const formatTime = (seconds: number) => {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+};
+
+const KeyTimeline: React.FC<KeyTimelineProps> = ({ timeline, modulations = [], maxModulations = 3 }) => {
+  if (timeline.length === 0) return null;
+
+  const start = timeline[0].start;
+  const length = timeline[timeline.length - 1].end - start;
+  if (length <= 0) return null;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex justify-between text-xs text-gray-400">
+        <span>Key timeline</span>
+        <span>{formatTime(length)}</span>
+      </div>
+      <div className="flex h-5 rounded overflow-hidden bg-gray-700">
+        {timeline.map(segment => {
+          const share = (segment.end - segment.start) / length;
+          return (
+            <div
+              key={`${segment.start}-${segment.key}-${segment.mode}`}
+              className="h-full flex items-center justify-center text-[10px] text-white/90 overflow-hidden"
+              style={{ width: `${share * 100}%`, backgroundColor: keyColor(segment.key, segment.mode) }}
+              title={`${segment.key} ${segment.mode}, ${formatTime(segment.start - start)}–${formatTime(segment.end - start)} (${(segment.confidence * 100).toFixed(0)}%)`}
+            >
+              {share > 0.12 && `${segment.key}${SHORT_MODE_NAMES[segment.mode] ?? ''}`}
+            </div>
+          );
+        })}
+      </div>
+
+      {modulations.length > 0 && maxModulations > 0 && (
+        <div className="space-y-1">
+          {modulations.slice(-maxModulations).reverse().map(modulation => (
+            <div key={modulation.time} className="flex items-center space-x-2 text-xs text-gray-300">
+              <span className="font-mono text-gray-500">{formatTime(modulation.time - start)}</span>
+              <span>{modulation.from.key} {modulation.from.mode}</span>
+              <ArrowRight className="w-3 h-3 text-gray-500" />
+              <span className="text-white">{modulation.to.key} {modulation.to.mode}</span>
+              <span className="text-gray-500">
+                ({modulation.semitones > 0 ? '+' : ''}{modulation.semitones})
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default KeyTimeline;
@@ -0,0 +1,106 @@
+import React from 'react';
+import { Loader2, Repeat, Timer, X } from 'lucide-react';
+
+interface LoopControlsProps {
+  loopStart: number | null;
+  loopEnd: number | null;
+  isLooping: boolean;
+  // Progress while a tempo-changed loop is being rendered
+  renderProgress: number | null;
+  error?: string | null;
+  onSetStart: () => void;
+  onSetEnd: () => void;
+  onToggle: () => void;
+  onClear: () => void;
+  countInBars: number;
+  onCountInChange: (bars: number) => void;
+  // Needs the instrumental's tempo
+  countInAvailable: boolean;
+}
+
+const formatLoopTime = (seconds: number | null) => {
+  if (seconds === null) return '–';
+  const mins = Math.floor(seconds / 60);
+  const secs = (seconds % 60).toFixed(1);
+  return `${mins}:${secs.padStart(4, '0')}`;
+};
+
+const LoopControls: React.FC<LoopControlsProps> = ({
+  loopStart,
+  loopEnd,
+  isLooping,
+  renderProgress,
+  error = null,
+  onSetStart,
+  onSetEnd,
+  onToggle,
+  onClear,
+  countInBars,
+  onCountInChange,
+  countInAvailable
+}) => {
+  const hasRegion = loopStart !== null && loopEnd !== null;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center space-x-2">
+        <button
+          onClick={onSetStart}
+          className="px-2 py-1 bg-white/10 hover:bg-white/20 text-white rounded text-sm font-medium transition-colors"
+          title="Set loop start at the playhead (A)"
+        >
+          A
+        </button>
+        <span className="text-xs text-gray-300 w-14 text-center">{formatLoopTime(loopStart)}</span>
+        <button
+          onClick={onSetEnd}
+          className="px-2 py-1 bg-white/10 hover:bg-white/20 text-white rounded text-sm font-medium transition-colors"
+          title="Set loop end at the playhead (B)"
+        >
+          B
+        </button>
+        <span className="text-xs text-gray-300 w-14 text-center">{formatLoopTime(loopEnd)}</span>
+        <button
+          onClick={onToggle}
+          disabled={!hasRegion}
+          className={`p-1.5 rounded transition-colors disabled:opacity-40 ${
+            isLooping ? 'bg-blue-500 text-white' : 'bg-white/10 hover:bg-white/20 text-gray-300'
+          }`}
+          title="Loop A–B (L)"
+        >
+          {renderProgress !== null ? <Loader2 className="w-4 h-4 animate-spin" /> : <Repeat className="w-4 h-4" />}
+        </button>
+        {(loopStart !== null || loopEnd !== null) && (
+          <button
+            onClick={onClear}
+            className="p-1 text-gray-400 hover:text-white transition-colors"
+            title="Clear loop"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        )}
+
+        <div className="flex-1" />
+        <Timer className="w-4 h-4 text-gray-400" />
+        <select
+          value={countInBars}
+          onChange={(e) => onCountInChange(parseInt(e.target.value))}
+          disabled={!countInAvailable}
+          className="bg-gray-700 text-white text-sm px-1 py-1 rounded border border-gray-600 focus:outline-none focus:border-blue-400 disabled:opacity-50"
+          title={countInAvailable ? 'Count-in before playing' : 'Count-in needs the track tempo'}
+        >
+          <option value={0}>No count-in</option>
+          <option value={1}>1 bar</option>
+          <option value={2}>2 bars</option>
+        </select>
+      </div>
+
+      {renderProgress !== null && (
+        <p className="text-xs text-gray-400">Preparing loop… {Math.round(renderProgress * 100)}%</p>
+      )}
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </div>
+  );
+};
+
+export default LoopControls;
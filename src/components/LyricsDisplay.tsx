@@ -3,16 +3,19 @@ import { Music, Globe, AlertCircle } from 'lucide-react';
 import { HarmonyAnalysis } from '../utils/audioProcessor';
 import { songService, type SongMatch as ServiceSongMatch, type SupportedLanguage } from '../services/songService';
 import { languageDetector } from '../utils/languageDetector';
+import { KeyMode } from '../types/music';
 
 interface LyricsDisplayProps {
   harmonyAnalysis: HarmonyAnalysis | null;
   detectedKey: string;
+  detectedMode: KeyMode;
   isRecording: boolean;
 }
 
 const LyricsDisplay: React.FC<LyricsDisplayProps> = ({
   harmonyAnalysis,
   detectedKey,
+  detectedMode,
   isRecording
 }) => {
   const [songMatches, setSongMatches] = useState<ServiceSongMatch[]>([]);
@@ -50,7 +53,7 @@ const LyricsDisplay: React.FC<LyricsDisplayProps> = ({
 
         const keyParts = detectedKey.split('/');
         const key = (keyParts[0].toUpperCase() as any);
-        const mode = (harmonyAnalysis.harmonyType === 'minor' ? 'minor' : 'major') as 'major' | 'minor';
+        const mode = detectedMode;
 
         const matchedLyrics = (harmonyAnalysis.melodyNotes || [])
           .concat(harmonyAnalysis.chordNotes || [])
@@ -83,7 +86,7 @@ const LyricsDisplay: React.FC<LyricsDisplayProps> = ({
 
     const debounceTimer = setTimeout(detectAndFetchSongs, 1000);
     return () => clearTimeout(debounceTimer);
-  }, [isRecording, detectedKey, harmonyAnalysis, languageFilter]);
+  }, [isRecording, detectedKey, detectedMode, harmonyAnalysis, languageFilter]);
 
   if (!isRecording) {
     return (
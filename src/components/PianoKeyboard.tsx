@@ -1,19 +1,21 @@
 import React, { useState, useEffect, useCallback } from 'react';
-import { PianoKeyState, KeyOverride } from '../types/music';
+import { PianoKeyState, KeyOverride, KeyMode } from '../types/music';
 import { MusicTheoryEngine } from '../utils/musicTheory';
 import { HarmonyAnalysis } from '../utils/audioProcessor';
+import { DEFAULT_REFERENCE_A4 } from '../utils/defaultAudioConfig';
 
 interface PianoKeyboardProps {
   detectedNotes: string[];
   scaleNotes: string[];
   rootNote: string;
-  onKeyOverride: (key: string, mode: 'major' | 'minor') => void;
+  onKeyOverride: (key: string, mode: KeyMode) => void;
   keyOverride: KeyOverride;
   melodyNotes: string[];
   chordNotes: string[];
   harmonyAnalysis: HarmonyAnalysis | null;
   showAllNotes?: boolean; // If true, highlight all notes in melodyNotes, not just the first
   title?: string;
+  referenceA4?: number;
 }
 
 const PianoKeyboard: React.FC<PianoKeyboardProps> = ({
@@ -26,7 +28,8 @@ const PianoKeyboard: React.FC<PianoKeyboardProps> = ({
   chordNotes,
   harmonyAnalysis,
   showAllNotes = false,
-  title = 'Virtual Piano - Melody Display'
+  title = 'Virtual Piano - Melody Display',
+  referenceA4 = DEFAULT_REFERENCE_A4
 }) => {
   const [keyStates, setKeyStates] = useState<{ [key: string]: PianoKeyState }>({});
   const [longPressKey, setLongPressKey] = useState<string | null>(null);
@@ -174,6 +177,12 @@ const PianoKeyboard: React.FC<PianoKeyboardProps> = ({
     return '';
   };
 
+  // Hover text with the key's pitch at the current tuning reference
+  const getKeyTitle = (keyNote: string) => {
+    const frequency = MusicTheoryEngine.getFrequencyFromNote(keyNote.slice(0, -1), parseInt(keyNote.slice(-1)), referenceA4);
+    return `${keyNote} · ${frequency.toFixed(1)} Hz`;
+  };
+
   const identifiedChord = showAllNotes && melodyNotes.length > 0 ? MusicTheoryEngine.identifyChord(melodyNotes) : null;
 
   return (
@@ -188,8 +197,9 @@ const PianoKeyboard: React.FC<PianoKeyboardProps> = ({
             </div>
           )}
         </div>
-        <div className="text-xs text-gray-400">
-          Long press any key to set manual override
+        <div className="text-xs text-gray-400 text-right">
+          <div>Long press any key to set manual override</div>
+          <div>A4 = {referenceA4.toFixed(1)} Hz</div>
         </div>
       </div>
 
@@ -201,7 +211,7 @@ const PianoKeyboard: React.FC<PianoKeyboardProps> = ({
               Melody Detection: <span className="text-green-300">Active</span>
             </div>
             <div className="text-xs text-gray-400">
-              Tempo: {harmonyAnalysis.rhythmData.tempo} BPM | Beat: {harmonyAnalysis.rhythmData.currentBeat}/4
+              Tempo: {harmonyAnalysis.rhythmData.tempo} BPM ({harmonyAnalysis.rhythmData.timeSignature}) | Beat: {harmonyAnalysis.rhythmData.currentBeat}/{harmonyAnalysis.rhythmData.beatsPerBar}
             </div>
           </div>
           {melodyNotes.length > 0 ? (
@@ -236,6 +246,7 @@ const PianoKeyboard: React.FC<PianoKeyboardProps> = ({
             <button
               key={key.note}
               className="relative border-2 rounded-b-lg transition-all duration-150 select-none"
+              title={getKeyTitle(key.note)}
               style={{
                 width: '50px',
                 height: '100px',
@@ -276,6 +287,7 @@ const PianoKeyboard: React.FC<PianoKeyboardProps> = ({
               <button
                 key={key.note}
                 className="absolute border-2 rounded-b-lg transition-all duration-150 select-none z-10"
+                title={getKeyTitle(key.note)}
                 style={{
                   width: '30px',
                   height: '65px',
@@ -1,15 +1,19 @@
 import React, { useEffect, useRef } from 'react';
-import { PitchData } from '../types/audio';
+import { NoteEvent, PitchData } from '../types/audio';
 import { TrendingUp } from 'lucide-react';
+import { MusicTheoryEngine } from '../utils/musicTheory';
 
 interface PitchVisualizerProps {
   pitchHistory: PitchData[];
   isActive: boolean;
+  // Finished notes from the note tracker; the latest few are listed
+  noteEvents?: NoteEvent[];
 }
 
 const PitchVisualizer: React.FC<PitchVisualizerProps> = ({
   pitchHistory,
-  isActive
+  isActive,
+  noteEvents = []
 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
 
@@ -181,6 +185,22 @@ const PitchVisualizer: React.FC<PitchVisualizerProps> = ({
           <span>Time →</span>
         </div>
       </div>
+
+      {/* Recent notes */}
+      {noteEvents.length > 0 && (
+        <div className="mt-3 flex items-center space-x-2 text-xs overflow-hidden">
+          <span className="text-gray-400 shrink-0">Notes ({noteEvents.length})</span>
+          {noteEvents.slice(-8).map(note => (
+            <span
+              key={`${note.onset}-${note.midi}`}
+              className="px-1.5 py-0.5 rounded bg-gray-700/50 text-gray-300 font-mono whitespace-nowrap"
+              title={`Velocity ${note.velocity}, ${(note.confidence * 100).toFixed(0)}% confidence`}
+            >
+              {MusicTheoryEngine.getNoteNameFromMidi(note.midi)} {(note.offset - note.onset).toFixed(2)}s
+            </span>
+          ))}
+        </div>
+      )}
     </div>
   );
 };
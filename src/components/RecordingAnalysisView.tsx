@@ -0,0 +1,117 @@
+import React from 'react';
+import { RecordingAnalysis } from '../utils/recordingAnalysis';
+import { MusicTheoryEngine } from '../utils/musicTheory';
+import { NOTE_NAMES } from '../utils/keyDetection';
+
+interface RecordingAnalysisViewProps {
+  analysis: RecordingAnalysis;
+}
+
+const CONTOUR_WIDTH = 400;
+const CONTOUR_HEIGHT = 48;
+
+// Roots a fifth apart get neighbouring hues, minor-ish chords darker
+const chordColor = (root: string, quality: string) => {
+  const fifths = (NOTE_NAMES.indexOf(root) * 7) % 12;
+  const dark = quality === 'min' || quality === 'm7' || quality === 'dim';
+  return `hsl(${fifths * 30}, 55%, ${dark ? 32 : 45}%)`;
+};
+
+const formatTime = (seconds: number) => {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+};
+
+// The contour as polylines, broken wherever the voice stops for a while
+function contourLines(analysis: RecordingAnalysis): string[] {
+  const { points, stepSeconds, lowest, highest } = analysis.pitch;
+  if (lowest === null || highest === null || analysis.duration <= 0) return [];
+
+  const span = Math.max(highest - lowest, 12);
+  const bottom = (lowest + highest) / 2 - span / 2;
+  const x = (time: number) => ((time / analysis.duration) * CONTOUR_WIDTH).toFixed(1);
+  const y = (midi: number) => (CONTOUR_HEIGHT - ((midi - bottom) / span) * (CONTOUR_HEIGHT - 4) - 2).toFixed(1);
+
+  const lines: string[][] = [];
+  points.forEach((point, i) => {
+    const previous = points[i - 1];
+    if (!previous || point.time - previous.time > stepSeconds * 2) lines.push([]);
+    lines[lines.length - 1].push(`${x(point.time)},${y(point.midi)}`);
+  });
+  return lines.map(line => line.join(' '));
+}
+
+// Review of what was analysed while a recording was made: rhythm, melody
+// range, the chord progression and the pitch contour on one time line
+const RecordingAnalysisView: React.FC<RecordingAnalysisViewProps> = ({ analysis }) => {
+  const { pitch, chords, duration } = analysis;
+  const noteName = (midi: number) => MusicTheoryEngine.getNoteNameFromMidi(Math.round(midi));
+  const lines = contourLines(analysis);
+
+  return (
+    <div className="mt-3 space-y-2">
+      <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-400">
+        <span>{Math.round(analysis.tempo)} BPM, {analysis.timeSignature}</span>
+        <span>{analysis.beats.length} beats, {analysis.downbeats.length} bars</span>
+        <span>{analysis.notes.length} notes</span>
+        {pitch.lowest !== null && pitch.highest !== null && (
+          <span>Range {noteName(pitch.lowest)}–{noteName(pitch.highest)}</span>
+        )}
+        {duration > 0 && <span>{Math.round((pitch.voicedSeconds / duration) * 100)}% voiced</span>}
+      </div>
+
+      {chords.length > 0 && duration > 0 && (
+        <div>
+          <div className="text-xs text-gray-400 mb-1">Chords</div>
+          <div className="relative h-5 rounded overflow-hidden bg-gray-700">
+            {chords.map(segment => {
+              const share = (segment.end - segment.start) / duration;
+              return (
+                <div
+                  key={`${segment.start}-${segment.label}`}
+                  className="absolute inset-y-0 flex items-center justify-center text-[10px] text-white/90 overflow-hidden border-r border-gray-800/50"
+                  style={{
+                    left: `${(segment.start / duration) * 100}%`,
+                    width: `${share * 100}%`,
+                    backgroundColor: chordColor(segment.root, segment.quality)
+                  }}
+                  title={`${segment.label}, ${formatTime(segment.start)}–${formatTime(segment.end)} (${(segment.confidence * 100).toFixed(0)}%)`}
+                >
+                  {share > 0.04 && segment.label}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {lines.length > 0 && (
+        <div>
+          <div className="flex justify-between text-xs text-gray-400 mb-1">
+            <span>Pitch contour</span>
+            <span>{formatTime(duration)}</span>
+          </div>
+          <svg
+            viewBox={`0 0 ${CONTOUR_WIDTH} ${CONTOUR_HEIGHT}`}
+            preserveAspectRatio="none"
+            className="w-full h-12 bg-gray-700/50 rounded"
+          >
+            {lines.map((line, i) => (
+              <polyline
+                key={i}
+                points={line}
+                fill="none"
+                stroke="#60a5fa"
+                strokeWidth={1.5}
+                vectorEffect="non-scaling-stroke"
+              />
+            ))}
+          </svg>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RecordingAnalysisView;
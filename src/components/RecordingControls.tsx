@@ -0,0 +1,133 @@
+import React from 'react';
+import { Circle, Pause, Play, Square } from 'lucide-react';
+import { RecorderLevel } from '../utils/audioRecorder';
+
+interface RecordingControlsProps {
+  isRecording: boolean;
+  isPaused: boolean;
+  isSaving: boolean;
+  // Seconds recorded, pauses excluded
+  elapsed: number;
+  level: RecorderLevel | null;
+  // Latched once the input clips, until cleared
+  clipped: boolean;
+  onStart: () => void;
+  onStop: () => void;
+  onPause: () => void;
+  onResume: () => void;
+  onClearClip: () => void;
+}
+
+// The meter spans -60 dBFS to full scale
+const METER_FLOOR_DB = -60;
+
+const meterPercent = (db: number) => Math.max(0, Math.min(100, ((db - METER_FLOOR_DB) / -METER_FLOOR_DB) * 100));
+
+const formatElapsed = (seconds: number) => {
+  const whole = Math.floor(seconds);
+  return `${Math.floor(whole / 60)}:${(whole % 60).toString().padStart(2, '0')}`;
+};
+
+const RecordingControls: React.FC<RecordingControlsProps> = ({
+  isRecording,
+  isPaused,
+  isSaving,
+  elapsed,
+  level,
+  clipped,
+  onStart,
+  onStop,
+  onPause,
+  onResume,
+  onClearClip
+}) => {
+  if (!isRecording) {
+    return (
+      <button
+        onClick={onStart}
+        disabled={isSaving}
+        className={`flex items-center space-x-2 px-4 py-2 rounded-lg font-medium transition-colors bg-blue-500 hover:bg-blue-600 text-white ${
+          isSaving ? 'opacity-50 cursor-not-allowed' : ''
+        }`}
+      >
+        {isSaving ? (
+          <>
+            <Circle className="w-4 h-4 animate-spin" />
+            <span>Saving...</span>
+          </>
+        ) : (
+          <>
+            <Circle className="w-4 h-4" />
+            <span>Start Recording</span>
+          </>
+        )}
+      </button>
+    );
+  }
+
+  const peakDb = level?.peakDb ?? METER_FLOOR_DB;
+  const meterColour = peakDb > -3 ? 'bg-red-500' : peakDb > -12 ? 'bg-yellow-400' : 'bg-green-500';
+
+  return (
+    <div className="flex items-center space-x-2">
+      <button
+        onClick={onStop}
+        disabled={isSaving}
+        className={`flex items-center space-x-2 px-4 py-2 rounded-lg font-medium transition-colors bg-red-600 hover:bg-red-700 text-white ${
+          isPaused ? '' : 'animate-pulse'
+        } ${isSaving ? 'opacity-50 cursor-not-allowed' : ''}`}
+      >
+        {isSaving ? (
+          <>
+            <Circle className="w-4 h-4 animate-spin" />
+            <span>Saving...</span>
+          </>
+        ) : (
+          <>
+            <Square className="w-4 h-4" />
+            <span>Stop</span>
+          </>
+        )}
+      </button>
+
+      <button
+        onClick={isPaused ? onResume : onPause}
+        disabled={isSaving}
+        className="p-2 rounded-lg bg-gray-700 hover:bg-gray-600 text-white transition-colors disabled:opacity-50"
+        title={isPaused ? 'Resume recording' : 'Pause recording'}
+      >
+        {isPaused ? <Play className="w-4 h-4" /> : <Pause className="w-4 h-4" />}
+      </button>
+
+      <div className="flex flex-col items-start">
+        <span className={`text-sm font-mono ${isPaused ? 'text-yellow-400' : 'text-white'}`}>
+          {formatElapsed(elapsed)}
+          {isPaused && ' paused'}
+        </span>
+        {/* Peak over RMS: the lighter bar is the peak, the solid one the average */}
+        <div className="relative w-24 h-1.5 bg-gray-700 rounded-full overflow-hidden" title={`Peak ${peakDb.toFixed(1)} dBFS`}>
+          <div
+            className={`absolute inset-y-0 left-0 opacity-50 transition-all duration-75 ${meterColour}`}
+            style={{ width: `${meterPercent(peakDb)}%` }}
+          />
+          <div
+            className={`absolute inset-y-0 left-0 transition-all duration-75 ${meterColour}`}
+            style={{ width: `${meterPercent(level?.rmsDb ?? METER_FLOOR_DB)}%` }}
+          />
+        </div>
+      </div>
+
+      <button
+        onClick={onClearClip}
+        className={`px-2 py-0.5 rounded text-xs font-bold transition-colors ${
+          clipped ? 'bg-red-600 text-white' : 'bg-gray-700 text-gray-500'
+        }`}
+        title={clipped ? 'The input clipped: turn the gain down. Click to clear' : 'No clipping'}
+      >
+        CLIP
+      </button>
+    </div>
+  );
+};
+
+export default RecordingControls;
@@ -0,0 +1,114 @@
+import React from 'react';
+import { Disc } from 'lucide-react';
+import {
+  RECORDING_FORMAT_LABELS,
+  RecorderOptions,
+  RecordingFormat,
+  WAV_SAMPLE_RATES,
+  WavBitDepth
+} from '../utils/audioRecorder';
+
+interface RecordingSettingsProps {
+  options: RecorderOptions;
+  onChange: (options: Partial<RecorderOptions>) => void;
+  // Settings apply from the next recording
+  disabled?: boolean;
+}
+
+const MEGABYTE = 1024 * 1024;
+
+const RecordingSettings: React.FC<RecordingSettingsProps> = ({ options, onChange, disabled = false }) => {
+  const isWav = options.format === 'wav';
+
+  return (
+    <div className="mt-3 p-4 bg-gray-700/50 rounded-lg border border-gray-600">
+      <div className="flex items-center space-x-2 mb-3">
+        <Disc className="w-4 h-4 text-red-400" />
+        <h4 className="text-white font-medium">Recording</h4>
+        {disabled && <span className="text-xs text-gray-400">Applies to the next recording</span>}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        <div>
+          <label className="block text-sm text-gray-300 mb-1">Format</label>
+          <select
+            value={options.format}
+            onChange={(e) => onChange({ format: e.target.value as RecordingFormat })}
+            className="w-full bg-gray-600 text-white px-3 py-2 rounded border border-gray-500 focus:outline-none focus:border-red-400"
+          >
+            {(Object.keys(RECORDING_FORMAT_LABELS) as RecordingFormat[]).map(format => (
+              <option key={format} value={format}>
+                {RECORDING_FORMAT_LABELS[format]}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label className="block text-sm text-gray-300 mb-1">Bit Depth</label>
+          <select
+            value={options.bitDepth}
+            onChange={(e) => onChange({ bitDepth: parseInt(e.target.value) as WavBitDepth })}
+            disabled={!isWav}
+            className="w-full bg-gray-600 text-white px-3 py-2 rounded border border-gray-500 focus:outline-none focus:border-red-400 disabled:opacity-50"
+          >
+            <option value={16}>16-bit</option>
+            <option value={24}>24-bit</option>
+          </select>
+        </div>
+
+        <div>
+          <label className="block text-sm text-gray-300 mb-1">Sample Rate</label>
+          <select
+            value={options.sampleRate}
+            onChange={(e) => onChange({ sampleRate: parseInt(e.target.value) })}
+            disabled={!isWav}
+            className="w-full bg-gray-600 text-white px-3 py-2 rounded border border-gray-500 focus:outline-none focus:border-red-400 disabled:opacity-50"
+          >
+            {WAV_SAMPLE_RATES.map(rate => (
+              <option key={rate} value={rate}>
+                {(rate / 1000).toFixed(1)} kHz
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {/* Limits: recording pauses and saves itself at either; 0 for none */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mt-3">
+        <div>
+          <label className="block text-sm text-gray-300 mb-1">Max Length (minutes)</label>
+          <input
+            type="number"
+            min={0}
+            step={1}
+            value={Math.round(options.maxDurationSeconds / 60)}
+            onChange={(e) => onChange({ maxDurationSeconds: Math.max(0, parseInt(e.target.value) || 0) * 60 })}
+            className="w-full bg-gray-600 text-white px-3 py-2 rounded border border-gray-500 focus:outline-none focus:border-red-400"
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm text-gray-300 mb-1">Max Size (MB)</label>
+          <input
+            type="number"
+            min={0}
+            step={10}
+            value={Math.round(options.maxSizeBytes / MEGABYTE)}
+            onChange={(e) => onChange({ maxSizeBytes: Math.max(0, parseInt(e.target.value) || 0) * MEGABYTE })}
+            className="w-full bg-gray-600 text-white px-3 py-2 rounded border border-gray-500 focus:outline-none focus:border-red-400"
+          />
+        </div>
+      </div>
+
+      <p className="text-xs text-gray-400 mt-2">
+        {isWav
+          ? 'Uncompressed: best for re-analysis and editing, plays everywhere, about 10 MB a minute at 16-bit/48 kHz mono.'
+          : 'Small files in whatever the browser records best (Opus in WebM, or AAC in MP4 on Safari).'}
+        {' '}Recording stops and saves at the length or size limit, whichever comes first; 0 means no limit.
+      </p>
+    </div>
+  );
+};
+
+export default RecordingSettings;
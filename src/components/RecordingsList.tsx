@@ -1,24 +1,66 @@
-import React, { useState, useEffect } from 'react';
-import { Play, Pause, Trash2, Edit2, Check, X, Music2 } from 'lucide-react';
+import React, { useState, useEffect, useRef } from 'react';
+import { Play, Pause, Trash2, Edit2, Check, X, Music2, FileText, Loader2, Activity, RefreshCw } from 'lucide-react';
 import { Recording } from '../lib/supabase';
 import { RecordingService } from '../services/recordingService';
+import { findModulations } from '../utils/keyTracker';
+import { OfflineAnalysisOptions, SmartAudioProcessor } from '../utils/audioProcessor';
+import { KEY_MODES } from '../utils/musicTheory';
+import { Transcription, transcriptionFromAnalysis } from '../utils/transcription';
+import { createChordPro, createTextChart } from '../utils/chordChart';
+import { downloadFile, fileNameFromTitle } from '../utils/download';
+import { analysisFromOffline, analyzeStoredAudio } from '../utils/recordingAnalysis';
+import { KeyMode } from '../types/music';
+import KeyTimeline from './KeyTimeline';
+import RecordingAnalysisView from './RecordingAnalysisView';
 
 interface RecordingsListProps {
+  // Used to analyse a recording's audio for its chord chart or re-analysis
+  audioProcessor: SmartAudioProcessor;
+  // Key detection settings for re-analysis, as used live
+  analysisOptions?: Pick<OfflineAnalysisOptions, 'keyProfile' | 'keyModes'>;
   onRecordingsUpdate?: () => void;
 }
 
-const RecordingsList: React.FC<RecordingsListProps> = ({ onRecordingsUpdate }) => {
+// The key saved with a recording, if it is one the charts can use
+const recordingKey = (recording: Recording): Transcription['key'] | undefined =>
+  recording.detected_key && KEY_MODES.includes(recording.detected_mode as KeyMode)
+    ? { key: recording.detected_key, mode: recording.detected_mode as KeyMode }
+    : undefined;
+
+const RecordingsList: React.FC<RecordingsListProps> = ({ audioProcessor, analysisOptions, onRecordingsUpdate }) => {
   const [recordings, setRecordings] = useState<Recording[]>([]);
   const [playingId, setPlayingId] = useState<string | null>(null);
   const [editingId, setEditingId] = useState<string | null>(null);
   const [editTitle, setEditTitle] = useState('');
   const [audioElement, setAudioElement] = useState<HTMLAudioElement | null>(null);
   const [loading, setLoading] = useState(true);
+  // Chord chart panel: which recording it is open for, analyses so far, and
+  // progress of the one running
+  const [chartId, setChartId] = useState<string | null>(null);
+  const [chartTranscriptions, setChartTranscriptions] = useState<Record<string, Transcription>>({});
+  const [chartProgress, setChartProgress] = useState<number | null>(null);
+  const [chartError, setChartError] = useState<string | null>(null);
+  // Recordings whose saved analysis is expanded
+  const [reviewIds, setReviewIds] = useState<Set<string>>(new Set());
+  // Re-analysis of stored audio: the recording being analysed and how far,
+  // and the position in a whole-library pass
+  const [reanalysis, setReanalysis] = useState<{ id: string; progress: number } | null>(null);
+  const [backfill, setBackfill] = useState<{ done: number; total: number } | null>(null);
+  const [reanalysisError, setReanalysisError] = useState<string | null>(null);
+  const backfillAbortRef = useRef<AbortController | null>(null);
+  const reanalyzeAbortRef = useRef<AbortController | null>(null);
+  const isAnalyzing = chartProgress !== null || reanalysis !== null;
 
   useEffect(() => {
     loadRecordings();
   }, []);
 
+  // The list is remounted on refresh; nothing should carry on unseen
+  useEffect(() => () => {
+    backfillAbortRef.current?.abort();
+    reanalyzeAbortRef.current?.abort();
+  }, []);
+
   const loadRecordings = async () => {
     setLoading(true);
     const data = await RecordingService.getAllRecordings();
@@ -63,6 +105,138 @@ const RecordingsList: React.FC<RecordingsListProps> = ({ onRecordingsUpdate }) =
     }
   };
 
+  const handleChordChart = async (recording: Recording) => {
+    if (chartId === recording.id) {
+      setChartId(null);
+      return;
+    }
+
+    setChartId(recording.id);
+    setChartError(null);
+    if (chartTranscriptions[recording.id]) return;
+
+    // Recordings saved with their analysis need no second pass over the audio
+    if (recording.analysis) {
+      const transcription = transcriptionFromAnalysis(recording.analysis, recordingKey(recording));
+      setChartTranscriptions(prev => ({ ...prev, [recording.id]: transcription }));
+      return;
+    }
+
+    try {
+      setChartProgress(0);
+      const analysis = await analyzeStoredAudio(audioProcessor, recording.audio_url, { onProgress: setChartProgress });
+      const transcription = transcriptionFromAnalysis(analysis, recordingKey(recording));
+      console.log(`Chord chart for "${recording.title}": ${transcription.chords.length} chords at ${transcription.tempo} BPM`);
+      setChartTranscriptions(prev => ({ ...prev, [recording.id]: transcription }));
+    } catch (error) {
+      console.error('Error analysing recording for chord chart:', error);
+      setChartError('Could not analyse this recording');
+    } finally {
+      setChartProgress(null);
+    }
+  };
+
+  // Runs the detector over the stored file and replaces the saved key and
+  // analysis with what it finds
+  const reanalyze = async (recording: Recording, signal?: AbortSignal) => {
+    setReanalysis({ id: recording.id, progress: 0 });
+    try {
+      const result = await analyzeStoredAudio(audioProcessor, recording.audio_url, {
+        ...analysisOptions,
+        signal,
+        onProgress: progress => setReanalysis({ id: recording.id, progress })
+      });
+      if (signal?.aborted) throw new DOMException('Re-analysis aborted', 'AbortError');
+      const analysis = analysisFromOffline(result);
+      // A key set by hand outranks the detector
+      const detectedKey = recording.key_confirmed ? recording.detected_key : analysis.key?.key ?? '';
+      const detectedMode = recording.key_confirmed ? recording.detected_mode : analysis.key?.mode ?? 'major';
+      const success = await RecordingService.updateRecordingAnalysis(recording.id, analysis, detectedKey, detectedMode);
+      if (!success) throw new Error('Failed to save the new analysis');
+
+      console.log(`Re-analysed "${recording.title}": ${detectedKey} ${detectedMode}, ${analysis.chords.length} chords at ${analysis.tempo} BPM`);
+      setRecordings(prev => prev.map(item => item.id === recording.id
+        ? { ...item, detected_key: detectedKey, detected_mode: detectedMode, key_timeline: analysis.keyTimeline, analysis }
+        : item
+      ));
+      // The chart is rebuilt from the new analysis when next opened
+      setChartTranscriptions(prev => {
+        const next = { ...prev };
+        delete next[recording.id];
+        return next;
+      });
+      if (chartId === recording.id) setChartId(null);
+    } finally {
+      setReanalysis(null);
+    }
+  };
+
+  const handleReanalyze = async (recording: Recording) => {
+    const controller = new AbortController();
+    reanalyzeAbortRef.current = controller;
+    setReanalysisError(null);
+    try {
+      await reanalyze(recording, controller.signal);
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      console.error('Error re-analysing recording:', error);
+      setReanalysisError(`Could not re-analyse "${recording.title}"`);
+    } finally {
+      if (reanalyzeAbortRef.current === controller) reanalyzeAbortRef.current = null;
+    }
+  };
+
+  // Re-analyse every recording in turn, e.g. after the detector improves;
+  // pressed again, abandons the one running and stops
+  const handleReanalyzeAll = async () => {
+    if (backfillAbortRef.current) {
+      backfillAbortRef.current.abort();
+      return;
+    }
+
+    const controller = new AbortController();
+    backfillAbortRef.current = controller;
+    setReanalysisError(null);
+    const queue = [...recordings];
+    let failed = 0;
+    for (const [index, recording] of queue.entries()) {
+      if (controller.signal.aborted) break;
+      setBackfill({ done: index, total: queue.length });
+      try {
+        await reanalyze(recording, controller.signal);
+      } catch (error) {
+        if (controller.signal.aborted) break;
+        console.error(`Error re-analysing "${recording.title}":`, error);
+        failed++;
+      }
+    }
+
+    console.log(`Library re-analysis ${controller.signal.aborted ? 'stopped' : 'finished'}, ${failed} failed`);
+    if (failed > 0) setReanalysisError(`${failed} recording${failed === 1 ? '' : 's'} could not be re-analysed`);
+    backfillAbortRef.current = null;
+    setBackfill(null);
+  };
+
+  const toggleReview = (id: string) => {
+    setReviewIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const downloadChart = (recording: Recording, format: 'chordpro' | 'text') => {
+    const transcription = chartTranscriptions[recording.id];
+    if (!transcription) return;
+    const name = fileNameFromTitle(recording.title);
+    if (format === 'chordpro') {
+      downloadFile(createChordPro(transcription, { title: recording.title }), `${name}.cho`, 'text/plain');
+    } else {
+      downloadFile(createTextChart(transcription, { title: recording.title }), `${name}.txt`, 'text/plain');
+    }
+  };
+
   const startEdit = (recording: Recording) => {
     setEditingId(recording.id);
     setEditTitle(recording.title);
@@ -115,8 +289,21 @@ const RecordingsList: React.FC<RecordingsListProps> = ({ onRecordingsUpdate }) =
           <h3 className="text-lg font-semibold text-white">Your Recordings</h3>
           <span className="text-sm text-gray-400">({recordings.length})</span>
         </div>
+        {recordings.length > 0 && (
+          <button
+            onClick={handleReanalyzeAll}
+            disabled={isAnalyzing && !backfill}
+            className="flex items-center space-x-2 px-3 py-2 bg-gray-600 hover:bg-gray-500 disabled:opacity-50 text-white rounded-lg transition-colors text-sm"
+            title="Run the current detector over every recording and replace the saved analysis"
+          >
+            <RefreshCw className={`w-4 h-4 ${backfill ? 'animate-spin' : ''}`} />
+            <span>{backfill ? `Stop (${backfill.done + 1}/${backfill.total})` : 'Re-analyze all'}</span>
+          </button>
+        )}
       </div>
 
+      {reanalysisError && <p className="text-xs text-red-400 mb-3">{reanalysisError}</p>}
+
       {recordings.length === 0 ? (
         <div className="text-center text-gray-400 py-8">
           <Music2 className="w-12 h-12 mx-auto mb-3 opacity-50" />
@@ -178,6 +365,57 @@ const RecordingsList: React.FC<RecordingsListProps> = ({ onRecordingsUpdate }) =
                     )}
                     <span>{new Date(recording.created_at).toLocaleDateString()}</span>
                   </div>
+
+                  {reanalysis?.id === recording.id && (
+                    <div className="mt-2 flex items-center space-x-2 text-xs text-gray-400">
+                      <Loader2 className="w-3 h-3 animate-spin" />
+                      <span>Re-analysing… {Math.round(reanalysis.progress * 100)}%</span>
+                    </div>
+                  )}
+
+                  {reviewIds.has(recording.id) && recording.analysis && (
+                    <RecordingAnalysisView analysis={recording.analysis} />
+                  )}
+
+                  {recording.key_timeline?.length > 1 && (
+                    <div className="mt-2">
+                      <KeyTimeline
+                        timeline={recording.key_timeline}
+                        modulations={findModulations(recording.key_timeline)}
+                      />
+                    </div>
+                  )}
+
+                  {chartId === recording.id && (
+                    <div className="mt-3 flex items-center space-x-2 text-xs">
+                      {chartProgress !== null ? (
+                        <span className="flex items-center space-x-2 text-gray-400">
+                          <Loader2 className="w-3 h-3 animate-spin" />
+                          <span>Analysing chords… {Math.round(chartProgress * 100)}%</span>
+                        </span>
+                      ) : chartError ? (
+                        <span className="text-red-400">{chartError}</span>
+                      ) : chartTranscriptions[recording.id]?.chords.length ? (
+                        <>
+                          <span className="text-gray-400">Chord chart:</span>
+                          <button
+                            onClick={() => downloadChart(recording, 'chordpro')}
+                            className="px-2 py-1 bg-gray-600 hover:bg-gray-500 text-white rounded transition-colors"
+                          >
+                            ChordPro
+                          </button>
+                          <button
+                            onClick={() => downloadChart(recording, 'text')}
+                            className="px-2 py-1 bg-gray-600 hover:bg-gray-500 text-white rounded transition-colors"
+                          >
+                            Text
+                          </button>
+                        </>
+                      ) : (
+                        <span className="text-gray-400">No chords found in this recording</span>
+                      )}
+                    </div>
+                  )}
                 </div>
 
                 <div className="flex items-center space-x-2 ml-4">
@@ -195,6 +433,39 @@ const RecordingsList: React.FC<RecordingsListProps> = ({ onRecordingsUpdate }) =
                       <Play className="w-4 h-4" />
                     )}
                   </button>
+                  {recording.analysis && (
+                    <button
+                      onClick={() => toggleReview(recording.id)}
+                      className={`p-2 rounded-lg transition-colors ${
+                        reviewIds.has(recording.id)
+                          ? 'bg-blue-500 hover:bg-blue-600 text-white'
+                          : 'bg-gray-600 hover:bg-gray-500 text-gray-200'
+                      }`}
+                      title="Analysis"
+                    >
+                      <Activity className="w-4 h-4" />
+                    </button>
+                  )}
+                  <button
+                    onClick={() => handleReanalyze(recording)}
+                    disabled={isAnalyzing}
+                    className="p-2 rounded-lg bg-gray-600 hover:bg-gray-500 text-gray-200 transition-colors disabled:opacity-50"
+                    title="Re-analyze"
+                  >
+                    <RefreshCw className={`w-4 h-4 ${reanalysis?.id === recording.id ? 'animate-spin' : ''}`} />
+                  </button>
+                  <button
+                    onClick={() => handleChordChart(recording)}
+                    disabled={(chartProgress !== null && chartId !== recording.id) || reanalysis !== null}
+                    className={`p-2 rounded-lg transition-colors disabled:opacity-50 ${
+                      chartId === recording.id
+                        ? 'bg-teal-500 hover:bg-teal-600 text-white'
+                        : 'bg-gray-600 hover:bg-gray-500 text-gray-200'
+                    }`}
+                    title="Chord chart"
+                  >
+                    <FileText className="w-4 h-4" />
+                  </button>
                   <button
                     onClick={() => handleDelete(recording)}
                     className="p-2 bg-red-500/20 hover:bg-red-500/30 text-red-400 rounded-lg transition-colors"
@@ -0,0 +1,142 @@
+import React, { useState } from 'react';
+import { Download, FileMusic, FileText } from 'lucide-react';
+import { QUANTIZE_GRIDS, QuantizeGrid, Transcription } from '../utils/transcription';
+import { createSessionMidi } from '../utils/midiExport';
+import { createLeadSheet } from '../utils/musicXmlExport';
+import { createChordPro, createTextChart } from '../utils/chordChart';
+import { downloadFile } from '../utils/download';
+
+interface SessionExportProps {
+  transcription: Transcription;
+}
+
+// e.g. session-2026-10-18-1530
+const sessionFilename = () => {
+  const now = new Date();
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return `session-${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}-${pad(now.getHours())}${pad(now.getMinutes())}`;
+};
+
+const SessionExport: React.FC<SessionExportProps> = ({ transcription }) => {
+  const [quantize, setQuantize] = useState<QuantizeGrid>('1/16');
+  const [showLyrics, setShowLyrics] = useState(false);
+  const [lyrics, setLyrics] = useState('');
+  const hasChords = transcription.chords.length > 0;
+  const isEmpty = transcription.notes.length === 0 && !hasChords;
+
+  const handleExportMidi = () => {
+    const midi = createSessionMidi(transcription, { quantize });
+    downloadFile(midi, `${sessionFilename()}.mid`, 'audio/midi');
+  };
+
+  const handleExportMusicXml = () => {
+    const xml = createLeadSheet(transcription, { quantize });
+    downloadFile(xml, `${sessionFilename()}.musicxml`, 'application/vnd.recordare.musicxml+xml');
+  };
+
+  const handleExportChordPro = () => {
+    downloadFile(createChordPro(transcription, { lyrics }), `${sessionFilename()}.cho`, 'text/plain');
+  };
+
+  const handleExportTextChart = () => {
+    downloadFile(createTextChart(transcription, { lyrics }), `${sessionFilename()}.txt`, 'text/plain');
+  };
+
+  return (
+    <div className="bg-gray-800/50 backdrop-blur-sm rounded-lg p-6 border border-gray-700">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-3">
+          <div className="p-2 bg-teal-500/20 rounded-full">
+            <FileMusic className="w-5 h-5 text-teal-400" />
+          </div>
+          <div>
+            <h3 className="text-sm font-medium text-white">Export Session</h3>
+            <p className="text-xs text-gray-400">
+              {isEmpty
+                ? 'Nothing heard yet'
+                : `${transcription.notes.length} melody note${transcription.notes.length === 1 ? '' : 's'}, ${transcription.chords.length} chord${transcription.chords.length === 1 ? '' : 's'} at ${Math.round(transcription.tempo)} BPM`}
+            </p>
+          </div>
+        </div>
+
+        <div className="flex items-center space-x-2">
+          <label className="text-xs text-gray-400" htmlFor="session-quantize">Quantize</label>
+          <select
+            id="session-quantize"
+            value={quantize}
+            onChange={(e) => setQuantize(e.target.value as QuantizeGrid)}
+            className="bg-gray-600 text-white text-sm px-2 py-1 rounded border border-gray-500 focus:outline-none focus:border-teal-400"
+          >
+            {(Object.keys(QUANTIZE_GRIDS) as QuantizeGrid[]).map(grid => (
+              <option key={grid} value={grid}>
+                {QUANTIZE_GRIDS[grid].label}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={handleExportMidi}
+            disabled={isEmpty}
+            className="flex items-center space-x-1 px-3 py-1 bg-teal-600 hover:bg-teal-700 disabled:bg-gray-600 disabled:text-gray-400 text-white text-sm rounded transition-colors"
+            title="Standard MIDI File: melody and chords on separate tracks"
+          >
+            <Download className="w-4 h-4" />
+            <span>MIDI</span>
+          </button>
+          <button
+            onClick={handleExportMusicXml}
+            disabled={isEmpty}
+            className="flex items-center space-x-1 px-3 py-1 bg-teal-600 hover:bg-teal-700 disabled:bg-gray-600 disabled:text-gray-400 text-white text-sm rounded transition-colors"
+            title="MusicXML lead sheet: melody with chord symbols (quantized to 1/16 when off)"
+          >
+            <Download className="w-4 h-4" />
+            <span>MusicXML</span>
+          </button>
+        </div>
+      </div>
+
+      {/* Chord charts, with lyrics when given */}
+      <div className="mt-4 flex items-center justify-between">
+        <button
+          onClick={() => setShowLyrics(!showLyrics)}
+          className="text-xs text-teal-300 hover:text-teal-200 transition-colors"
+        >
+          {showLyrics ? 'Hide lyrics' : lyrics.trim() ? 'Edit lyrics' : 'Add lyrics'}
+        </button>
+
+        <div className="flex items-center space-x-2">
+          <span className="text-xs text-gray-400">Chord chart</span>
+          <button
+            onClick={handleExportChordPro}
+            disabled={!hasChords}
+            className="flex items-center space-x-1 px-3 py-1 bg-gray-600 hover:bg-gray-500 disabled:text-gray-400 text-white text-sm rounded transition-colors"
+            title="ChordPro with inline chords over the lyrics"
+          >
+            <FileText className="w-4 h-4" />
+            <span>ChordPro</span>
+          </button>
+          <button
+            onClick={handleExportTextChart}
+            disabled={!hasChords}
+            className="flex items-center space-x-1 px-3 py-1 bg-gray-600 hover:bg-gray-500 disabled:text-gray-400 text-white text-sm rounded transition-colors"
+            title="Bars and slashes with Roman numerals in the key"
+          >
+            <FileText className="w-4 h-4" />
+            <span>Text</span>
+          </button>
+        </div>
+      </div>
+
+      {showLyrics && (
+        <textarea
+          value={lyrics}
+          onChange={(e) => setLyrics(e.target.value)}
+          rows={4}
+          placeholder="One line of lyrics per four bars"
+          className="mt-2 w-full bg-gray-700 text-white text-sm px-3 py-2 rounded border border-gray-600 focus:outline-none focus:border-teal-400"
+        />
+      )}
+    </div>
+  );
+};
+
+export default SessionExport;
@@ -0,0 +1,163 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Gauge } from 'lucide-react';
+import { PitchData } from '../types/audio';
+import { TUNER_PRESETS, TunerNeedle, TunerReading, getTunerReading } from '../utils/tuner';
+
+interface TunerViewProps {
+  pitch: PitchData | null;
+  referenceA4: number;
+  isActive: boolean;
+}
+
+// Ignore pitches the tracker is unsure of; they make the needle twitch
+const MIN_CONFIDENCE = 0.4;
+// Keep showing the last note this long after the pitch drops out
+const HOLD_MS = 800;
+// Needle swing at ±50 cents
+const MAX_ANGLE = 60;
+
+const TunerView: React.FC<TunerViewProps> = ({ pitch, referenceA4, isActive }) => {
+  const [presetId, setPresetId] = useState(TUNER_PRESETS[0].id);
+  const [reading, setReading] = useState<TunerReading | null>(null);
+  const needleRef = useRef(new TunerNeedle());
+
+  const preset = TUNER_PRESETS.find(p => p.id === presetId) || TUNER_PRESETS[0];
+
+  useEffect(() => {
+    if (!pitch || pitch.confidence < MIN_CONFIDENCE) {
+      const timeout = setTimeout(() => {
+        needleRef.current.reset();
+        setReading(null);
+      }, HOLD_MS);
+      return () => clearTimeout(timeout);
+    }
+
+    const raw = getTunerReading(pitch.frequency, preset, referenceA4);
+    setReading(needleRef.current.update(raw, pitch.timestamp, preset.toleranceCents));
+  }, [pitch, preset, referenceA4]);
+
+  useEffect(() => {
+    needleRef.current.reset();
+    setReading(null);
+  }, [presetId]);
+
+  const cents = reading ? Math.max(-50, Math.min(50, reading.cents)) : 0;
+  const angle = (cents / 50) * MAX_ANGLE;
+  const color = !reading
+    ? 'text-gray-500'
+    : reading.inTune
+      ? 'text-green-400'
+      : Math.abs(reading.cents) <= 15 ? 'text-yellow-400' : 'text-red-400';
+  const needleColor = !reading
+    ? '#6b7280'
+    : reading.inTune ? '#4ade80' : Math.abs(reading.cents) <= 15 ? '#facc15' : '#f87171';
+
+  return (
+    <div className="bg-gray-800/50 backdrop-blur-sm rounded-lg p-4 border border-gray-700">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center space-x-3">
+          <div className="p-2 bg-green-500/20 rounded-full">
+            <Gauge className="w-5 h-5 text-green-400" />
+          </div>
+          <div>
+            <h3 className="text-sm font-medium text-white">Tuner</h3>
+            <p className="text-xs text-gray-400">
+              {isActive ? `A4 = ${referenceA4.toFixed(1)} Hz` : 'Start listening to tune'}
+            </p>
+          </div>
+        </div>
+
+        <select
+          value={presetId}
+          onChange={(e) => setPresetId(e.target.value)}
+          className="bg-gray-700 text-white text-sm px-2 py-1 rounded border border-gray-600 focus:outline-none focus:border-green-400"
+        >
+          {TUNER_PRESETS.map(p => (
+            <option key={p.id} value={p.id}>
+              {p.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {/* Dial */}
+      <div className="relative mx-auto" style={{ width: '220px', height: '120px' }}>
+        <svg viewBox="0 0 220 120" className="absolute inset-0">
+          {Array.from({ length: 11 }, (_, i) => {
+            const tickAngle = ((i - 5) / 5) * MAX_ANGLE * (Math.PI / 180);
+            const inner = i === 5 ? 78 : 88;
+            return (
+              <line
+                key={i}
+                x1={110 + inner * Math.sin(tickAngle)}
+                y1={110 - inner * Math.cos(tickAngle)}
+                x2={110 + 100 * Math.sin(tickAngle)}
+                y2={110 - 100 * Math.cos(tickAngle)}
+                stroke={i === 5 ? '#4ade80' : '#4b5563'}
+                strokeWidth={i === 5 ? 3 : 2}
+              />
+            );
+          })}
+          <line
+            x1={110}
+            y1={110}
+            x2={110 + 95 * Math.sin(angle * (Math.PI / 180))}
+            y2={110 - 95 * Math.cos(angle * (Math.PI / 180))}
+            stroke={needleColor}
+            strokeWidth={3}
+            strokeLinecap="round"
+          />
+          <circle cx={110} cy={110} r={5} fill={needleColor} />
+        </svg>
+        <div className="absolute bottom-0 left-0 text-xs text-gray-500">♭</div>
+        <div className="absolute bottom-0 right-0 text-xs text-gray-500">♯</div>
+      </div>
+
+      {/* Reading */}
+      <div className="text-center mt-2">
+        <div className={`text-4xl font-bold ${color}`}>
+          {reading ? reading.note : '–'}
+          {reading && <span className="text-lg align-sub">{reading.octave}</span>}
+        </div>
+        <div className={`text-sm font-mono ${color}`}>
+          {reading ? `${reading.cents >= 0 ? '+' : ''}${reading.cents.toFixed(1)} ¢` : ' '}
+        </div>
+        <div className="text-xs text-gray-400 mt-1">
+          {reading
+            ? `${reading.frequency.toFixed(1)} Hz → ${reading.targetFrequency.toFixed(1)} Hz`
+            : isActive ? 'Play or sing a note' : 'Waiting for input'}
+        </div>
+        {reading && !reading.inTune && (
+          <div className="text-xs text-gray-300 mt-1">
+            {reading.cents < 0 ? 'Flat – tune up' : 'Sharp – tune down'}
+          </div>
+        )}
+      </div>
+
+      {/* Preset targets */}
+      {preset.targets.length > 0 && (
+        <div className="flex justify-center flex-wrap gap-2 mt-3">
+          {preset.targets.map(target => {
+            const active = reading?.targetLabel === target.label;
+            return (
+              <div
+                key={target.label}
+                className={`px-2 py-1 rounded text-xs border ${
+                  active
+                    ? reading?.inTune
+                      ? 'bg-green-500/20 border-green-400 text-green-300'
+                      : 'bg-yellow-500/20 border-yellow-400 text-yellow-300'
+                    : 'bg-gray-700/50 border-gray-600 text-gray-400'
+                }`}
+              >
+                {target.label}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TunerView;
@@ -1,4 +1,6 @@
 import { createClient } from '@supabase/supabase-js';
+import { KeySegment } from '../types/audio';
+import { RecordingAnalysis } from '../utils/recordingAnalysis';
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
@@ -16,10 +18,23 @@ export interface Recording {
   duration: number;
   detected_key: string;
   detected_mode: string;
+  // The key was set by hand when saving, not detected
+  key_confirmed: boolean;
+  // Keys detected over the course of the recording, in recording time
+  key_timeline: KeySegment[];
+  // Chords, notes, beats and pitch from recording; null for older recordings
+  analysis: RecordingAnalysis | null;
   created_at: string;
   file_size: number;
 }
 
+// A named point in an instrumental, e.g. where the chorus starts
+export interface InstrumentalMarker {
+  id: string;
+  name: string;
+  time: number; // seconds
+}
+
 export interface Instrumental {
   id: string;
   title: string;
@@ -27,6 +42,10 @@ export interface Instrumental {
   duration: number;
   tempo: number;
   key: string;
+  // Set once the file has been analysed; null until then
+  analysis: RecordingAnalysis | null;
+  // Section markers in time order
+  markers: InstrumentalMarker[];
   created_at: string;
   file_size: number;
 }
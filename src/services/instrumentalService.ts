@@ -1,4 +1,5 @@
-import { supabase, Instrumental } from '../lib/supabase';
+import { supabase, Instrumental, InstrumentalMarker } from '../lib/supabase';
+import { RecordingAnalysis } from '../utils/recordingAnalysis';
 
 export class InstrumentalService {
   static async saveInstrumental(
@@ -6,7 +7,8 @@ export class InstrumentalService {
     title: string,
     duration: number,
     tempo: number = 120,
-    key: string = ''
+    key: string = '',
+    analysis: RecordingAnalysis | null = null
   ): Promise<Instrumental | null> {
     try {
       console.log('Starting instrumental save process...');
@@ -47,6 +49,7 @@ export class InstrumentalService {
         duration,
         tempo,
         key,
+        analysis,
         file_size: audioBlob.size,
       };
 
@@ -139,7 +142,7 @@ export class InstrumentalService {
 
   static async updateInstrumentalMetadata(
     id: string,
-    metadata: { tempo?: number; key?: string }
+    metadata: { tempo?: number; key?: string; duration?: number; analysis?: RecordingAnalysis }
   ): Promise<boolean> {
     try {
       const { error } = await supabase
@@ -158,4 +161,23 @@ export class InstrumentalService {
       return false;
     }
   }
+
+  static async updateInstrumentalMarkers(id: string, markers: InstrumentalMarker[]): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('instrumentals')
+        .update({ markers })
+        .eq('id', id);
+
+      if (error) {
+        console.error('Error updating markers:', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('Error updating instrumental markers:', error);
+      return false;
+    }
+  }
 }
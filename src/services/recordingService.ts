@@ -1,11 +1,17 @@
 import { supabase, Recording } from '../lib/supabase';
+import { KeySegment } from '../types/audio';
+import { audioFileExtension } from '../utils/audioRecorder';
+import { RecordingAnalysis } from '../utils/recordingAnalysis';
 
 export class RecordingService {
   static async saveRecording(
     audioBlob: Blob,
     duration: number,
     detectedKey: string = '',
-    detectedMode: string = 'major'
+    detectedMode: string = 'major',
+    keyTimeline: KeySegment[] = [],
+    analysis: RecordingAnalysis | null = null,
+    keyConfirmed: boolean = false
   ): Promise<Recording | null> {
     try {
       console.log('Starting recording save process...');
@@ -13,14 +19,16 @@ export class RecordingService {
       console.log('Blob type:', audioBlob.type);
       console.log('Duration:', duration, 'seconds');
 
+      // The blob carries what the recorder actually produced (WebM, MP4 or WAV)
+      const contentType = audioBlob.type || 'audio/webm';
       const timestamp = Date.now();
-      const fileName = `recording-${timestamp}.webm`;
+      const fileName = `recording-${timestamp}.${audioFileExtension(contentType)}`;
       console.log('Uploading file:', fileName);
 
       const { data: uploadData, error: uploadError } = await supabase.storage
         .from('recordings')
         .upload(fileName, audioBlob, {
-          contentType: 'audio/webm',
+          contentType,
           cacheControl: '3600',
         });
 
@@ -40,9 +48,13 @@ export class RecordingService {
       const recordingData = {
         title: `Recording ${new Date(timestamp).toLocaleString()}`,
         audio_url: urlData.publicUrl,
-        duration,
+        // The column is whole seconds
+        duration: Math.round(duration),
         detected_key: detectedKey,
         detected_mode: detectedMode,
+        key_confirmed: keyConfirmed,
+        key_timeline: keyTimeline,
+        analysis,
         file_size: audioBlob.size,
       };
 
@@ -135,4 +147,35 @@ export class RecordingService {
       return false;
     }
   }
+
+  // Replace a recording's analysis, e.g. after running a newer detector over
+  // the stored file
+  static async updateRecordingAnalysis(
+    id: string,
+    analysis: RecordingAnalysis,
+    detectedKey: string,
+    detectedMode: string
+  ): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('recordings')
+        .update({
+          detected_key: detectedKey,
+          detected_mode: detectedMode,
+          key_timeline: analysis.keyTimeline,
+          analysis,
+        })
+        .eq('id', id);
+
+      if (error) {
+        console.error('Error updating analysis:', error);
+        throw error;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('Error in updateRecordingAnalysis:', error);
+      return false;
+    }
+  }
 }
@@ -1,8 +1,9 @@
 import { supabase } from '../lib/supabase';
+import { KeyMode } from '../types/music';
 
 export type SupportedLanguage = 'english' | 'swahili' | 'kirundi' | 'kinyarwanda' | 'lingala';
 export type MusicKey = 'C' | 'D' | 'E' | 'F' | 'G' | 'A' | 'B';
-export type MusicMode = 'major' | 'minor';
+export type MusicMode = KeyMode;
 
 export interface Song {
   id: string;
@@ -1,3 +1,5 @@
+import { KeyMode } from './music';
+
 export interface AudioConfig {
   sampleRate: number;
   bufferSize: number;
@@ -38,17 +40,107 @@ export interface PitchData {
   frequency: number;
   confidence: number;
   timestamp: number;
+  voicingProbability?: number;
+}
+
+// A fundamental found by the multi-pitch estimator
+export interface DetectedNote {
+  midi: number;
+  name: string;
+  octave: number;
+  frequency: number;
+  confidence: number;
+  // Share of the first harmonics that were found in the spectrum (0–1)
+  harmonicSupport: number;
+  salience: number;
 }
 
 export interface ChromaData {
   vector: number[];
   dominant: number;
   confidence: number;
+  // Split chroma below and above the bass split point, when enabled
+  bass?: number[];
+  treble?: number[];
+}
+
+export interface KeyCandidate {
+  key: string;
+  mode: KeyMode;
+  // Pearson correlation with the key profile (-1..1)
+  score: number;
+  // Share of the evidence across all 24 keys (softmax over the scores)
+  probability: number;
+}
+
+// How a competing key relates to the chosen one
+export type KeyRelation = 'relative' | 'parallel' | 'dominant' | 'subdominant';
+
+export interface KeyAmbiguity {
+  relation: KeyRelation;
+  key: string;
+  mode: KeyMode;
+  // Chosen key's score minus this key's; negative if this one scored higher
+  margin: number;
 }
 
 export interface KeyDetectionResult {
   key: string;
-  mode: 'major' | 'minor';
+  mode: KeyMode;
   confidence: number;
   chroma: ChromaData;
-}
\ No newline at end of file
+  // Best-scoring keys, strongest first
+  candidates: KeyCandidate[];
+  // Closely related keys that scored nearly as well as the chosen one
+  ambiguities: KeyAmbiguity[];
+  // Id of the key profile the scores came from
+  profile: string;
+}
+
+// A stretch of a performance in a single key
+export interface KeySegment {
+  key: string;
+  mode: KeyMode;
+  start: number; // seconds
+  end: number; // seconds
+  // Mean correlation of the segment's chroma with the key profile (0–1)
+  confidence: number;
+}
+
+export interface KeyModulation {
+  time: number; // seconds
+  from: { key: string; mode: KeyMode };
+  to: { key: string; mode: KeyMode };
+  // Tonic movement in semitones, -5..+6
+  semitones: number;
+}
+export type ChordQuality = 'maj' | 'min' | '7' | 'maj7' | 'm7' | 'dim' | 'aug' | 'sus2' | 'sus4';
+
+export interface ChordEstimate {
+  root: string;
+  quality: ChordQuality;
+  // Lowest chord tone when it isn't the root, as in C/E
+  bass?: string;
+  // Chord symbol, e.g. "Am7" or "C/E"
+  label: string;
+  // Mean similarity of the chroma with the chord template (0–1)
+  confidence: number;
+}
+
+// A stretch of a performance under one chord. Gaps between segments are
+// silence or sound that fits no chord.
+export interface ChordSegment extends ChordEstimate {
+  start: number; // seconds
+  end: number; // seconds
+}
+
+// One played note, from the note tracker
+export interface NoteEvent {
+  midi: number;
+  onset: number; // seconds
+  offset: number; // seconds
+  // MIDI velocity (1–127) from the level at the attack
+  velocity: number;
+  // Mean pitch confidence over the note (0–1)
+  confidence: number;
+}
@@ -3,11 +3,25 @@ export interface Note {
   frequency: number;
   midiNumber: number;
   octave: number;
+  // Offset of frequency from the equal-tempered note, -50..+50
+  cents?: number;
 }
 
+// 'major' and 'minor' are Ionian and natural minor (Aeolian)
+export type KeyMode =
+  | 'major'
+  | 'minor'
+  | 'dorian'
+  | 'phrygian'
+  | 'lydian'
+  | 'mixolydian'
+  | 'locrian'
+  | 'harmonic-minor'
+  | 'melodic-minor';
+
 export interface Scale {
   root: string;
-  mode: 'major' | 'minor';
+  mode: KeyMode;
   notes: string[];
   chords: ChordProgression[];
 }
@@ -35,6 +49,6 @@ export interface PianoKeyState {
 export interface KeyOverride {
   isActive: boolean;
   selectedKey: string;
-  selectedMode: 'major' | 'minor';
+  selectedMode: KeyMode;
   timestamp: number;
 }
\ No newline at end of file
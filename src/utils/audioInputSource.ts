@@ -0,0 +1,178 @@
+export type AudioInputKind = 'microphone' | 'playback' | 'oscillator';
+
+// Something that can feed the analysis pipeline. connect() returns the node
+// the processor should read from; disconnect() releases whatever it opened.
+export interface AudioInputSource {
+  readonly kind: AudioInputKind;
+  readonly label: string;
+  connect(context: AudioContext): Promise<AudioNode>;
+  disconnect(): void;
+}
+
+export interface MicrophoneInputOptions {
+  deviceId?: string;
+  label?: string;
+  // Zero-based channel of a multi-channel interface; omit to mix all channels
+  channel?: number;
+}
+
+export class MicrophoneInputSource implements AudioInputSource {
+  readonly kind = 'microphone' as const;
+  private mediaStream: MediaStream | null = null;
+  private nodes: AudioNode[] = [];
+
+  constructor(private options: MicrophoneInputOptions = {}) {}
+
+  get label(): string {
+    const device = this.options.label || (this.options.deviceId ? 'Selected microphone' : 'Default microphone');
+    return this.options.channel !== undefined ? `${device} (ch ${this.options.channel + 1})` : device;
+  }
+
+  async connect(context: AudioContext): Promise<AudioNode> {
+    const { deviceId, channel } = this.options;
+
+    console.log('Requesting microphone access...', deviceId ? `device ${deviceId}` : 'default device');
+    this.mediaStream = await navigator.mediaDevices.getUserMedia({
+      audio: {
+        deviceId: deviceId ? { exact: deviceId } : undefined,
+        sampleRate: context.sampleRate,
+        echoCancellation: false,
+        noiseSuppression: false,
+        autoGainControl: false,
+        channelCount: channel !== undefined ? { ideal: Math.max(2, channel + 1) } : 1
+      }
+    });
+
+    const source = context.createMediaStreamSource(this.mediaStream);
+    this.nodes = [source];
+
+    if (channel === undefined) {
+      return source;
+    }
+
+    const trackChannels = this.mediaStream.getAudioTracks()[0]?.getSettings().channelCount ?? 1;
+    if (channel >= trackChannels) {
+      console.warn(`Input has ${trackChannels} channel(s), channel ${channel + 1} unavailable; using channel 1`);
+    }
+
+    const splitter = context.createChannelSplitter(Math.max(trackChannels, channel + 1));
+    const output = context.createGain();
+    source.connect(splitter);
+    splitter.connect(output, Math.min(channel, trackChannels - 1));
+    this.nodes.push(splitter, output);
+    return output;
+  }
+
+  disconnect(): void {
+    this.nodes.forEach(node => node.disconnect());
+    this.nodes = [];
+
+    if (this.mediaStream) {
+      this.mediaStream.getTracks().forEach(track => track.stop());
+      this.mediaStream = null;
+    }
+  }
+}
+
+// Analyses what a player is sending to its speakers, from a node in the
+// player's own graph, so the player's output is left as it is. Players keep
+// their own context, so the audio crosses over as a MediaStream.
+export class PlaybackInputSource implements AudioInputSource {
+  readonly kind = 'playback' as const;
+  // What the tap feeds: a gain in the same context, or a stream destination
+  private link: AudioNode | null = null;
+  private nodes: AudioNode[] = [];
+
+  constructor(private tap: AudioNode, readonly label: string = 'Playback') {}
+
+  async connect(context: AudioContext): Promise<AudioNode> {
+    if (this.tap.context === context) {
+      const output = context.createGain();
+      this.tap.connect(output);
+      this.link = output;
+      this.nodes = [output];
+      return output;
+    }
+
+    const destination = (this.tap.context as AudioContext).createMediaStreamDestination();
+    this.tap.connect(destination);
+    this.link = destination;
+    const source = context.createMediaStreamSource(destination.stream);
+    this.nodes = [source];
+    return source;
+  }
+
+  disconnect(): void {
+    this.nodes.forEach(node => node.disconnect());
+    this.nodes = [];
+
+    if (this.link) {
+      try {
+        this.tap.disconnect(this.link);
+      } catch {
+        // The player's graph is already gone
+      }
+      this.link = null;
+    }
+  }
+}
+
+export interface OscillatorInputOptions {
+  frequencies: number[];
+  type?: OscillatorType;
+  gain?: number;
+  label?: string;
+}
+
+// Synthetic tones for demos and for checking the pipeline without a mic
+export class OscillatorInputSource implements AudioInputSource {
+  readonly kind = 'oscillator' as const;
+  private oscillators: OscillatorNode[] = [];
+  private output: GainNode | null = null;
+
+  constructor(private options: OscillatorInputOptions) {}
+
+  get label(): string {
+    return this.options.label || `Test tone (${this.options.frequencies.map(f => f.toFixed(0)).join(' + ')} Hz)`;
+  }
+
+  async connect(context: AudioContext): Promise<AudioNode> {
+    const { frequencies, type = 'triangle', gain = 0.3 } = this.options;
+
+    this.output = context.createGain();
+    this.output.gain.value = frequencies.length > 0 ? gain / frequencies.length : 0;
+
+    this.oscillators = frequencies.map(frequency => {
+      const oscillator = context.createOscillator();
+      oscillator.type = type;
+      oscillator.frequency.value = frequency;
+      oscillator.connect(this.output!);
+      oscillator.start();
+      return oscillator;
+    });
+
+    return this.output;
+  }
+
+  disconnect(): void {
+    this.oscillators.forEach(oscillator => {
+      oscillator.stop();
+      oscillator.disconnect();
+    });
+    this.oscillators = [];
+    this.output?.disconnect();
+    this.output = null;
+  }
+}
+
+export async function listAudioInputDevices(): Promise<MediaDeviceInfo[]> {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+
+  try {
+    const devices = await navigator.mediaDevices.enumerateDevices();
+    return devices.filter(device => device.kind === 'audioinput');
+  } catch (error) {
+    console.error('Failed to list audio input devices:', error);
+    return [];
+  }
+}
@@ -1,56 +1,403 @@
+import { PCM_CAPTURE_PROCESSOR, PcmCaptureOptions, PcmCaptureRequest, PcmCaptureResponse } from '../worklets/pcmCaptureMessages';
+import pcmCaptureProcessorUrl from '../worklets/pcmCaptureProcessor.ts?worker&url';
+import { WavBitDepth, encodeWav } from './wavEncoder';
+
+export type { WavBitDepth } from './wavEncoder';
+
+export type RecordingFormat = 'compressed' | 'wav';
+
+export interface RecorderOptions {
+  format: RecordingFormat;
+  // WAV only; compressed capture keeps the browser's choices
+  bitDepth: WavBitDepth;
+  sampleRate: number;
+  // The recorder pauses itself and reports the limit past either; 0 for none
+  maxDurationSeconds: number;
+  maxSizeBytes: number;
+}
+
+export const DEFAULT_RECORDER_OPTIONS: RecorderOptions = {
+  format: 'compressed',
+  bitDepth: 16,
+  sampleRate: 48000,
+  maxDurationSeconds: 30 * 60,
+  maxSizeBytes: 250 * 1024 * 1024
+};
+
+export const RECORDING_FORMAT_LABELS: Record<RecordingFormat, string> = {
+  compressed: 'Compressed (WebM/MP4)',
+  wav: 'WAV (lossless PCM)'
+};
+
+export const WAV_SAMPLE_RATES = [44100, 48000, 96000];
+
+export type RecorderLimit = 'duration' | 'size';
+
+export interface RecorderLevel {
+  // Over the last ~50 ms, in dBFS
+  peakDb: number;
+  rmsDb: number;
+  // Some samples hit full scale in that time
+  clipped: boolean;
+}
+
+export interface RecorderCallbacks {
+  onLevel?: (level: RecorderLevel) => void;
+  // Seconds recorded (pauses excluded) and bytes so far, a few times a second
+  onProgress?: (duration: number, size: number) => void;
+  // The recorder has paused at a limit; call stop() to finish the recording
+  onLimitReached?: (limit: RecorderLimit) => void;
+}
+
+// Asked of MediaRecorder in this order; Safari only offers MP4
+const COMPRESSED_MIME_TYPES = ['audio/webm;codecs=opus', 'audio/webm', 'audio/mp4', 'audio/ogg;codecs=opus'];
+
+// How long stop() waits for the worklet to hand over its last samples
+const FLUSH_TIMEOUT_MS = 1000;
+const PROGRESS_INTERVAL_MS = 250;
+const WAV_HEADER_BYTES = 44;
+const SILENCE_DB = -100;
+
+const toDb = (value: number) => (value > 0 ? Math.max(SILENCE_DB, 20 * Math.log10(value)) : SILENCE_DB);
+
+export interface RecordedAudio {
+  blob: Blob;
+  // Seconds of audio, pauses excluded
+  duration: number;
+  // What the blob actually holds, e.g. 'audio/webm;codecs=opus' or 'audio/wav'
+  mimeType: string;
+  extension: string;
+}
+
+// File extension for an audio MIME type, parameters ignored
+export function audioFileExtension(mimeType: string): string {
+  switch (mimeType.split(';')[0].trim().toLowerCase()) {
+    case 'audio/wav':
+    case 'audio/wave':
+    case 'audio/x-wav':
+      return 'wav';
+    case 'audio/mp4':
+    case 'audio/x-m4a':
+    case 'audio/aac':
+      return 'm4a';
+    case 'audio/ogg':
+      return 'ogg';
+    case 'audio/mpeg':
+      return 'mp3';
+    default:
+      return 'webm';
+  }
+}
+
+// Records compressed audio through MediaRecorder or PCM WAV from a capture
+// worklet. The worklet runs for both formats to meter the input, where the
+// browser has AudioWorklet.
 export class AudioRecorder {
+  private options: RecorderOptions = DEFAULT_RECORDER_OPTIONS;
+  private callbacks: RecorderCallbacks = {};
+  // The format actually being recorded; null when idle
+  private format: RecordingFormat | null = null;
+
   private mediaRecorder: MediaRecorder | null = null;
   private audioChunks: Blob[] = [];
-  private startTime: number = 0;
+  private compressedBytes = 0;
+
+  // Capture worklet: levels always, and for WAV the raw samples, one array
+  // per channel per chunk
+  private captureContext: AudioContext | null = null;
+  private captureNode: AudioWorkletNode | null = null;
+  private channelCount = 1;
+  private pcmChunks: Float32Array[][] = [];
+  private pcmFrames = 0;
+
+  // Time recorded before the current stretch, and when that stretch began
+  // (null while paused)
+  private elapsedMs = 0;
+  private segmentStart: number | null = null;
+  private clippedSamples = 0;
+  private limitReached: RecorderLimit | null = null;
+  private progressTimer: ReturnType<typeof setInterval> | null = null;
 
-  async start(stream: MediaStream): Promise<void> {
+  async start(stream: MediaStream, options: Partial<RecorderOptions> = {}, callbacks: RecorderCallbacks = {}): Promise<void> {
+    this.options = { ...DEFAULT_RECORDER_OPTIONS, ...options };
+    this.callbacks = callbacks;
     this.audioChunks = [];
-    this.startTime = Date.now();
+    this.compressedBytes = 0;
+    this.pcmChunks = [];
+    this.pcmFrames = 0;
+    this.elapsedMs = 0;
+    this.clippedSamples = 0;
+    this.limitReached = null;
+
+    const wantsWav = this.options.format === 'wav';
+    const capturing = await this.startCapture(stream, wantsWav);
+    if (wantsWav && capturing) {
+      this.format = 'wav';
+    } else {
+      if (wantsWav) console.warn('WAV capture unavailable, recording compressed audio instead');
+      this.startCompressed(stream);
+      this.format = 'compressed';
+    }
+
+    this.segmentStart = performance.now();
+    this.progressTimer = setInterval(() => this.checkProgress(), PROGRESS_INTERVAL_MS);
+  }
+
+  async stop(): Promise<RecordedAudio> {
+    if (!this.format) throw new Error('Recorder not started');
+
+    const duration = this.getDuration();
+    if (this.progressTimer) clearInterval(this.progressTimer);
+    this.progressTimer = null;
+    this.segmentStart = null;
+
+    try {
+      return this.format === 'wav' ? await this.stopWav() : await this.stopCompressed(duration);
+    } finally {
+      await this.stopCapture();
+      this.format = null;
+    }
+  }
+
+  pause(): void {
+    if (!this.format || this.segmentStart === null) return;
+    this.elapsedMs += performance.now() - this.segmentStart;
+    this.segmentStart = null;
+    if (this.mediaRecorder?.state === 'recording') this.mediaRecorder.pause();
+    this.postToCapture({ type: 'pause' });
+    console.log(`Recording paused at ${this.getDuration().toFixed(1)}s`);
+  }
+
+  resume(): void {
+    if (!this.format || this.segmentStart !== null) return;
+    this.segmentStart = performance.now();
+    this.limitReached = null;
+    if (this.mediaRecorder?.state === 'paused') this.mediaRecorder.resume();
+    this.postToCapture({ type: 'resume' });
+    console.log('Recording resumed');
+  }
+
+  isRecording(): boolean {
+    return this.format !== null;
+  }
 
-    const options = { mimeType: 'audio/webm' };
+  isPaused(): boolean {
+    return this.format !== null && this.segmentStart === null;
+  }
+
+  // Seconds recorded so far, not counting pauses
+  getDuration(): number {
+    const running = this.segmentStart !== null ? performance.now() - this.segmentStart : 0;
+    return (this.elapsedMs + running) / 1000;
+  }
+
+  // Bytes recorded so far; for WAV, the size the file will be
+  getSize(): number {
+    return this.format === 'wav'
+      ? WAV_HEADER_BYTES + this.pcmFrames * this.channelCount * (this.options.bitDepth / 8)
+      : this.compressedBytes;
+  }
+
+  // Samples at full scale since recording started
+  getClippedSamples(): number {
+    return this.clippedSamples;
+  }
+
+  private checkProgress(): void {
+    if (this.segmentStart === null) return;
+    const duration = this.getDuration();
+    const size = this.getSize();
+    this.callbacks.onProgress?.(duration, size);
+
+    const { maxDurationSeconds, maxSizeBytes } = this.options;
+    const limit: RecorderLimit | null =
+      maxDurationSeconds > 0 && duration >= maxDurationSeconds ? 'duration'
+        : maxSizeBytes > 0 && size >= maxSizeBytes ? 'size'
+          : null;
+    if (limit && !this.limitReached) {
+      console.warn(`Recording limit reached (${limit}): ${duration.toFixed(1)}s, ${size} bytes`);
+      this.limitReached = limit;
+      this.pause();
+      this.callbacks.onLimitReached?.(limit);
+    }
+  }
+
+  private startCompressed(stream: MediaStream): void {
+    const mimeType = COMPRESSED_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type));
 
     try {
-      this.mediaRecorder = new MediaRecorder(stream, options);
-    } catch (e) {
+      this.mediaRecorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+    } catch (error) {
+      console.warn(`MediaRecorder rejected ${mimeType}, using the default format:`, error);
       this.mediaRecorder = new MediaRecorder(stream);
     }
 
     this.mediaRecorder.ondataavailable = (event) => {
       if (event.data.size > 0) {
         this.audioChunks.push(event.data);
+        this.compressedBytes += event.data.size;
       }
     };
 
     this.mediaRecorder.start(100);
+    console.log(`Recording compressed audio as ${this.mediaRecorder.mimeType || 'the browser default'}`);
   }
 
-  stop(): Promise<{ blob: Blob; duration: number }> {
+  private stopCompressed(duration: number): Promise<RecordedAudio> {
     return new Promise((resolve, reject) => {
-      if (!this.mediaRecorder) {
+      const mediaRecorder = this.mediaRecorder;
+      if (!mediaRecorder) {
         reject(new Error('MediaRecorder not initialized'));
         return;
       }
 
-      this.mediaRecorder.onstop = () => {
-        const blob = new Blob(this.audioChunks, { type: 'audio/webm' });
-        const duration = Math.floor((Date.now() - this.startTime) / 1000);
-        resolve({ blob, duration });
+      mediaRecorder.onstop = () => {
+        // Label the file with what the browser produced, not what was asked for
+        const mimeType = mediaRecorder.mimeType || this.audioChunks[0]?.type || 'audio/webm';
+        const blob = new Blob(this.audioChunks, { type: mimeType });
+        this.mediaRecorder = null;
+        resolve({ blob, duration, mimeType, extension: audioFileExtension(mimeType) });
       };
 
-      this.mediaRecorder.onerror = (event) => {
+      mediaRecorder.onerror = (event) => {
         reject(event);
       };
 
-      this.mediaRecorder.stop();
+      mediaRecorder.stop();
     });
   }
 
-  isRecording(): boolean {
-    return this.mediaRecorder?.state === 'recording';
+  // Sets up the capture worklet, at the WAV sample rate when collecting
+  // samples and at the device rate when only metering
+  private async startCapture(stream: MediaStream, collect: boolean): Promise<boolean> {
+    if (typeof AudioWorkletNode === 'undefined') return false;
+
+    let context: AudioContext | null = null;
+    try {
+      // Some browsers refuse to connect a stream to a context at a different
+      // rate; then capture at the device rate and resample when stopping
+      let source: MediaStreamAudioSourceNode;
+      try {
+        context = new AudioContext(collect ? { sampleRate: this.options.sampleRate } : undefined);
+        source = context.createMediaStreamSource(stream);
+      } catch (error) {
+        console.warn(`Cannot capture at ${this.options.sampleRate} Hz directly, will resample:`, error);
+        await context?.close();
+        context = new AudioContext();
+        source = context.createMediaStreamSource(stream);
+      }
+
+      await context.audioWorklet.addModule(pcmCaptureProcessorUrl);
+      this.channelCount = Math.min(2, stream.getAudioTracks()[0]?.getSettings().channelCount ?? 1);
+      const processorOptions: PcmCaptureOptions = { channelCount: this.channelCount, collect };
+      const node = new AudioWorkletNode(context, PCM_CAPTURE_PROCESSOR, {
+        numberOfInputs: 1,
+        numberOfOutputs: 1,
+        channelCount: this.channelCount,
+        channelCountMode: 'explicit',
+        channelInterpretation: 'speakers',
+        processorOptions
+      });
+      node.port.onmessage = (event: MessageEvent<PcmCaptureResponse>) => this.handleCaptureMessage(event.data);
+
+      source.connect(node);
+      // The node outputs silence; connecting it keeps it in the render graph
+      node.connect(context.destination);
+      if (context.state === 'suspended') await context.resume();
+
+      this.captureContext = context;
+      this.captureNode = node;
+      if (collect) {
+        console.log(`Recording ${this.options.bitDepth}-bit WAV, ${this.channelCount} channel(s) at ${context.sampleRate} Hz`);
+      }
+      return true;
+    } catch (error) {
+      console.error('Failed to start capture worklet:', error);
+      await context?.close();
+      return false;
+    }
   }
 
-  getDuration(): number {
-    if (!this.startTime) return 0;
-    return Math.floor((Date.now() - this.startTime) / 1000);
+  private handleCaptureMessage(message: PcmCaptureResponse): void {
+    if (message.type === 'pcm') {
+      this.pcmChunks.push(message.channels);
+      this.pcmFrames += message.channels[0].length;
+    } else if (message.type === 'level') {
+      this.clippedSamples += message.clippedSamples;
+      this.callbacks.onLevel?.({
+        peakDb: toDb(message.peak),
+        rmsDb: toDb(message.rms),
+        clipped: message.clippedSamples > 0
+      });
+    }
+  }
+
+  private postToCapture(request: PcmCaptureRequest): void {
+    this.captureNode?.port.postMessage(request);
+  }
+
+  private async stopCapture(): Promise<void> {
+    this.captureNode?.disconnect();
+    this.captureNode = null;
+    if (this.captureContext && this.captureContext.state !== 'closed') {
+      await this.captureContext.close();
+    }
+    this.captureContext = null;
+  }
+
+  private async stopWav(): Promise<RecordedAudio> {
+    const node = this.captureNode!;
+    const captureRate = this.captureContext!.sampleRate;
+
+    // Collect the partial chunk the worklet is still holding
+    await Promise.race([
+      new Promise<void>(resolve => {
+        node.port.onmessage = (event: MessageEvent<PcmCaptureResponse>) => {
+          if (event.data.type === 'flushed') resolve();
+          else this.handleCaptureMessage(event.data);
+        };
+        this.postToCapture({ type: 'flush' });
+      }),
+      new Promise<void>(resolve => setTimeout(resolve, FLUSH_TIMEOUT_MS))
+    ]);
+
+    let channels = this.joinChunks();
+    this.pcmChunks = [];
+    if (captureRate !== this.options.sampleRate && channels[0].length > 0) {
+      channels = await this.resample(channels, captureRate, this.options.sampleRate);
+    }
+
+    const blob = encodeWav(channels, this.options.sampleRate, this.options.bitDepth);
+    const duration = channels[0].length / this.options.sampleRate;
+    console.log(`WAV recording: ${duration.toFixed(1)}s, ${(blob.size / 1024 / 1024).toFixed(2)} MB`);
+    return { blob, duration, mimeType: 'audio/wav', extension: 'wav' };
+  }
+
+  private joinChunks(): Float32Array[] {
+    const channelCount = this.pcmChunks[0]?.length ?? 1;
+    const frames = this.pcmChunks.reduce((sum, chunk) => sum + chunk[0].length, 0);
+    return Array.from({ length: channelCount }, (_, c) => {
+      const joined = new Float32Array(frames);
+      let offset = 0;
+      this.pcmChunks.forEach(chunk => {
+        joined.set(chunk[c], offset);
+        offset += chunk[c].length;
+      });
+      return joined;
+    });
+  }
+
+  private async resample(channels: Float32Array[], fromRate: number, toRate: number): Promise<Float32Array[]> {
+    const input = new AudioBuffer({ numberOfChannels: channels.length, length: channels[0].length, sampleRate: fromRate });
+    channels.forEach((channel, c) => input.copyToChannel(channel, c));
+
+    const length = Math.round((channels[0].length * toRate) / fromRate);
+    const offline = new OfflineAudioContext(channels.length, length, toRate);
+    const source = offline.createBufferSource();
+    source.buffer = input;
+    source.connect(offline.destination);
+    source.start();
+    const rendered = await offline.startRendering();
+    return channels.map((_, c) => rendered.getChannelData(c));
   }
 }
@@ -0,0 +1,485 @@
+export type TimeSignature = '4/4' | '3/4' | '6/8';
+
+export interface BeatTrackerState {
+  // Tactus tempo: quarter notes in 4/4 and 3/4, dotted quarters in 6/8
+  tempo: number;
+  tempoConfidence: number;
+  // Onset strength of the current frame, 0–1
+  onsetStrength: number;
+  // An onset was picked in this frame
+  onset: boolean;
+  timeSignature: TimeSignature;
+  beatsPerBar: number;
+  // 1-based position of the most recent beat in its bar
+  currentBeat: number;
+  // Within ON_BEAT_WINDOW_MS after a beat
+  isOnBeat: boolean;
+  // Recent beat and downbeat times in ms (frame time base)
+  beatTimes: number[];
+  downbeatTimes: number[];
+}
+
+// The onset envelope is resampled to a fixed grid so tempo lags don't
+// depend on the frame rate (worker hop, rAF, or offline hop)
+const ENVELOPE_RATE = 100;
+const ENVELOPE_SECONDS = 8;
+const MIN_ENVELOPE_SECONDS = 3;
+const TEMPO_UPDATE_MS = 500;
+const MIN_BPM = 40;
+const MAX_BPM = 240;
+// Log-Gaussian tempo prior (Ellis 2007): centre and width in octaves
+const PRIOR_BPM = 120;
+const PRIOR_OCTAVES = 1;
+const ON_BEAT_WINDOW_MS = 100;
+const MIN_ONSET_GAP_MS = 50;
+const MAX_PULSES = 32;
+// A grouping of 3 on a pulse this fast is read as the eighths of a 6/8 bar
+const COMPOUND_PULSE_BPM = 140;
+
+const FLUX_BAND = { min: 30, max: 8000 };
+const BASS_BAND = { min: 30, max: 250 };
+
+interface Meter {
+  timeSignature: TimeSignature;
+  beatsPerBar: number;
+  pulsesPerBeat: number;
+}
+
+const DEFAULT_METER: Meter = { timeSignature: '4/4', beatsPerBar: 4, pulsesPerBeat: 1 };
+
+// Minimum envelope autocorrelation at the half or third of the period for
+// the pulse to count as subdivided
+const MIN_SUBDIVISION_ACF = 0.25;
+
+interface Pulse {
+  index: number;
+  time: number;
+  accent: number;
+}
+
+// Spectral-flux onsets, autocorrelation tempo with a comb over the first
+// four multiples of the period, and phase-locked beat prediction. Meter
+// comes from how bass/onset accents group over the tracked pulses plus
+// whether the pulse divides into two or three.
+export class BeatTracker {
+  private previousSpectrum: Float32Array | null = null;
+  private fluxHistory: number[] = [];
+  private recentFlux: Array<{ time: number; flux: number }> = [];
+  private lastOnsetTime = -Infinity;
+
+  // Onset envelope (all bands) and bass flux on the ENVELOPE_RATE grid
+  private envelope: number[] = [];
+  private bassEnvelope: number[] = [];
+  private envelopeStartTime = 0;
+  private lastFrame: { time: number; flux: number; bassFlux: number } | null = null;
+
+  // Tactus period from the tempo estimate, and the pulse we actually track:
+  // the tactus itself or its audible subdivision (eighths, triplets)
+  private periodMs = 0;
+  private tempoConfidence = 0;
+  private pendingPeriodMs = 0;
+  private subdivision = 1;
+  private pulsePeriodMs = 0;
+  private lastTempoUpdate = -Infinity;
+  private nextPulseTime = 0;
+
+  private pulses: Pulse[] = [];
+  private pulseCount = 0;
+  private meter: Meter = DEFAULT_METER;
+  private downbeatPhase = 0;
+
+  process(frequencyData: Float32Array, sampleRate: number, time: number): BeatTrackerState {
+    const { flux, bassFlux } = this.computeFlux(frequencyData, sampleRate);
+    const onset = this.pickOnset(flux, time);
+    this.appendEnvelope(time, flux, bassFlux);
+
+    if (time - this.lastTempoUpdate >= TEMPO_UPDATE_MS &&
+        this.envelope.length >= MIN_ENVELOPE_SECONDS * ENVELOPE_RATE) {
+      this.lastTempoUpdate = time;
+      this.updateTempoAndPhase(time);
+    }
+
+    if (this.pulsePeriodMs > 0) {
+      while (this.nextPulseTime <= time) {
+        this.registerPulse(this.nextPulseTime);
+        this.nextPulseTime += this.pulsePeriodMs;
+      }
+    }
+
+    return this.getState(time, flux, onset);
+  }
+
+  reset(): void {
+    this.previousSpectrum = null;
+    this.fluxHistory = [];
+    this.recentFlux = [];
+    this.lastOnsetTime = -Infinity;
+    this.envelope = [];
+    this.bassEnvelope = [];
+    this.envelopeStartTime = 0;
+    this.lastFrame = null;
+    this.periodMs = 0;
+    this.tempoConfidence = 0;
+    this.pendingPeriodMs = 0;
+    this.subdivision = 1;
+    this.pulsePeriodMs = 0;
+    this.lastTempoUpdate = -Infinity;
+    this.nextPulseTime = 0;
+    this.pulses = [];
+    this.pulseCount = 0;
+    this.meter = DEFAULT_METER;
+    this.downbeatPhase = 0;
+  }
+
+  // Half-wave rectified increase of log-compressed magnitude, averaged over bins
+  private computeFlux(frequencyData: Float32Array, sampleRate: number): { flux: number; bassFlux: number } {
+    const binWidth = sampleRate / (2 * frequencyData.length);
+    const minBin = Math.max(1, Math.floor(FLUX_BAND.min / binWidth));
+    const maxBin = Math.min(frequencyData.length - 1, Math.ceil(FLUX_BAND.max / binWidth));
+    const bassMaxBin = Math.ceil(BASS_BAND.max / binWidth);
+
+    const spectrum = new Float32Array(frequencyData.length);
+    for (let i = minBin; i <= maxBin; i++) {
+      const magnitude = isFinite(frequencyData[i]) ? Math.pow(10, frequencyData[i] / 20) : 0;
+      spectrum[i] = Math.log1p(100 * magnitude);
+    }
+
+    let flux = 0;
+    let bassFlux = 0;
+    if (this.previousSpectrum) {
+      for (let i = minBin; i <= maxBin; i++) {
+        const increase = Math.max(0, spectrum[i] - this.previousSpectrum[i]);
+        flux += increase;
+        if (i <= bassMaxBin) bassFlux += increase;
+      }
+      flux /= maxBin - minBin + 1;
+      bassFlux /= Math.max(1, bassMaxBin - minBin + 1);
+    }
+
+    this.previousSpectrum = spectrum;
+    return { flux, bassFlux };
+  }
+
+  // Peak in flux above median + margin of the last ~second. Decided one
+  // frame late, once we know the previous frame was a local maximum.
+  private pickOnset(flux: number, time: number): boolean {
+    this.recentFlux.push({ time, flux });
+    if (this.recentFlux.length > 3) this.recentFlux.shift();
+
+    this.fluxHistory.push(flux);
+    if (this.fluxHistory.length > 24) this.fluxHistory.shift();
+
+    if (this.recentFlux.length < 3) return false;
+
+    const sorted = [...this.fluxHistory].sort((a, b) => a - b);
+    const median = sorted[Math.floor(sorted.length / 2)];
+    const mean = this.fluxHistory.reduce((a, b) => a + b, 0) / this.fluxHistory.length;
+    const threshold = 1.5 * median + 0.1 * mean + 1e-3;
+
+    const [before, candidate, after] = this.recentFlux;
+    const isPeak = candidate.flux > before.flux && candidate.flux >= after.flux && candidate.flux > threshold;
+    if (isPeak && candidate.time - this.lastOnsetTime >= MIN_ONSET_GAP_MS) {
+      this.lastOnsetTime = candidate.time;
+      return true;
+    }
+    return false;
+  }
+
+  // Linear interpolation between frames onto the fixed-rate grid
+  private appendEnvelope(time: number, flux: number, bassFlux: number): void {
+    const step = 1000 / ENVELOPE_RATE;
+
+    if (!this.lastFrame || time <= this.lastFrame.time) {
+      if (!this.lastFrame) {
+        this.envelopeStartTime = time;
+        this.envelope = [flux];
+        this.bassEnvelope = [bassFlux];
+      }
+      this.lastFrame = { time, flux, bassFlux };
+      return;
+    }
+
+    const previous = this.lastFrame;
+    let gridTime = this.envelopeStartTime + this.envelope.length * step;
+    // After a long gap (tab in background, paused input) restart the envelope
+    if (time - previous.time > 1000) {
+      this.envelopeStartTime = time;
+      this.envelope = [flux];
+      this.bassEnvelope = [bassFlux];
+      this.lastFrame = { time, flux, bassFlux };
+      return;
+    }
+
+    while (gridTime <= time) {
+      const t = (gridTime - previous.time) / (time - previous.time);
+      this.envelope.push(previous.flux + t * (flux - previous.flux));
+      this.bassEnvelope.push(previous.bassFlux + t * (bassFlux - previous.bassFlux));
+      gridTime += step;
+    }
+    this.lastFrame = { time, flux, bassFlux };
+
+    const maxLength = ENVELOPE_SECONDS * ENVELOPE_RATE;
+    if (this.envelope.length > maxLength * 1.25) {
+      const excess = this.envelope.length - maxLength;
+      this.envelope.splice(0, excess);
+      this.bassEnvelope.splice(0, excess);
+      this.envelopeStartTime += excess * step;
+    }
+  }
+
+  private updateTempoAndPhase(time: number): void {
+    const env = this.envelope.slice(-ENVELOPE_SECONDS * ENVELOPE_RATE);
+    const mean = env.reduce((a, b) => a + b, 0) / env.length;
+    const centred = env.map(value => value - mean);
+
+    const maxLag = Math.min(centred.length - 1, Math.ceil((60 / MIN_BPM) * ENVELOPE_RATE * 4));
+    const acf = new Float32Array(maxLag + 1);
+    for (let lag = 0; lag <= maxLag; lag++) {
+      let sum = 0;
+      for (let i = lag; i < centred.length; i++) {
+        sum += centred[i] * centred[i - lag];
+      }
+      // Unbiased, so long lags aren't penalised for having fewer terms
+      acf[lag] = sum / (centred.length - lag);
+    }
+    if (acf[0] <= 0) return;
+    for (let lag = maxLag; lag >= 0; lag--) acf[lag] /= acf[0];
+
+    const acfAt = (lag: number) => {
+      if (lag < 0 || lag > maxLag - 1) return 0;
+      const i = Math.floor(lag);
+      return acf[i] + (lag - i) * (acf[i + 1] - acf[i]);
+    };
+
+    const minPeriod = Math.floor((60 / MAX_BPM) * ENVELOPE_RATE);
+    const maxPeriod = Math.ceil((60 / MIN_BPM) * ENVELOPE_RATE);
+    let bestLag = -1;
+    let bestScore = -Infinity;
+    const scores = new Float32Array(maxPeriod + 2);
+    for (let lag = minPeriod; lag <= maxPeriod; lag++) {
+      let comb = 0;
+      let weight = 0;
+      for (let k = 1; k <= 4; k++) {
+        if (k * lag > maxLag - 1) break;
+        comb += acfAt(k * lag) / k;
+        weight += 1 / k;
+      }
+      const bpm = (60 * ENVELOPE_RATE) / lag;
+      const octaves = Math.log2(bpm / PRIOR_BPM) / PRIOR_OCTAVES;
+      scores[lag] = weight > 0 ? (comb / weight) * Math.exp(-0.5 * octaves * octaves) : 0;
+      if (scores[lag] > bestScore) {
+        bestScore = scores[lag];
+        bestLag = lag;
+      }
+    }
+    if (bestLag < 0 || bestScore <= 0) return;
+
+    // Parabolic refinement of the period
+    let period = bestLag;
+    if (bestLag > minPeriod && bestLag < maxPeriod) {
+      const left = scores[bestLag - 1];
+      const right = scores[bestLag + 1];
+      const denominator = left - 2 * bestScore + right;
+      if (denominator < 0) period += 0.5 * (left - right) / denominator;
+    }
+
+    const periodMs = (period * 1000) / ENVELOPE_RATE;
+    this.tempoConfidence = Math.max(0, Math.min(1, acfAt(period)));
+
+    // Only switch to a clearly different tempo once it has been seen twice
+    if (this.periodMs === 0 || Math.abs(periodMs / this.periodMs - 1) < 0.08) {
+      this.periodMs = this.periodMs === 0 ? periodMs : 0.7 * this.periodMs + 0.3 * periodMs;
+      this.pendingPeriodMs = 0;
+    } else if (this.pendingPeriodMs > 0 && Math.abs(periodMs / this.pendingPeriodMs - 1) < 0.08) {
+      this.periodMs = periodMs;
+      this.pendingPeriodMs = 0;
+    } else {
+      this.pendingPeriodMs = periodMs;
+    }
+
+    const tactus = (this.periodMs / 1000) * ENVELOPE_RATE;
+    const binary = acfAt(tactus / 2);
+    const ternary = (acfAt(tactus / 3) + acfAt((2 * tactus) / 3)) / 2;
+    let subdivision = 1;
+    if (ternary > MIN_SUBDIVISION_ACF && ternary > binary * 1.1) {
+      subdivision = 3;
+    } else if (binary > MIN_SUBDIVISION_ACF) {
+      subdivision = 2;
+    }
+
+    const pulsePeriodMs = this.periodMs / subdivision;
+    if (subdivision !== this.subdivision || Math.abs(pulsePeriodMs / (this.pulsePeriodMs || pulsePeriodMs) - 1) > 0.08) {
+      // Pulse indices from a different grid say nothing about this one
+      this.pulses = [];
+      this.meter = DEFAULT_METER;
+    }
+    this.subdivision = subdivision;
+    this.pulsePeriodMs = pulsePeriodMs;
+
+    this.updatePhase(env, (pulsePeriodMs / 1000) * ENVELOPE_RATE, time);
+  }
+
+  // Align the pulse grid with the envelope: pick the offset whose comb over
+  // the last few periods collects the most onset energy
+  private updatePhase(env: number[], period: number, time: number): void {
+    const end = env.length - 1;
+    const beats = Math.max(1, Math.floor((env.length - 1) / period));
+    let bestOffset = 0;
+    let bestScore = -Infinity;
+
+    for (let offset = 0; offset < Math.ceil(period); offset++) {
+      let score = 0;
+      for (let k = 0; k < beats; k++) {
+        const index = Math.round(end - offset - k * period);
+        if (index < 0) break;
+        score += env[index] * Math.pow(0.9, k);
+      }
+      if (score > bestScore) {
+        bestScore = score;
+        bestOffset = offset;
+      }
+    }
+
+    const envelopeEndTime = this.envelopeStartTime + (this.envelope.length - 1) * (1000 / ENVELOPE_RATE);
+    const lastPulseTime = envelopeEndTime - (bestOffset * 1000) / ENVELOPE_RATE;
+    const lastRegistered = this.pulses[this.pulses.length - 1]?.time;
+
+    if (lastRegistered === undefined) {
+      let nextPulseTime = lastPulseTime + this.pulsePeriodMs;
+      while (nextPulseTime < time) nextPulseTime += this.pulsePeriodMs;
+      this.nextPulseTime = nextPulseTime;
+      return;
+    }
+
+    // Of the grid points consistent with the new phase, take the one closest
+    // to where the running grid expects the next pulse, so no pulse is
+    // skipped or doubled and pulse indices stay aligned with the bar
+    const expected = lastRegistered + this.pulsePeriodMs;
+    const steps = Math.round((expected - lastPulseTime) / this.pulsePeriodMs);
+    this.nextPulseTime = Math.max(
+      lastPulseTime + steps * this.pulsePeriodMs,
+      lastRegistered + 0.5 * this.pulsePeriodMs
+    );
+  }
+
+  private registerPulse(time: number): void {
+    // The previous pulse's neighbourhood is now fully in the envelope
+    const previous = this.pulses[this.pulses.length - 1];
+    if (previous) previous.accent = this.accentAt(previous.time);
+
+    this.pulses.push({ index: this.pulseCount++, time, accent: 0 });
+    if (this.pulses.length > MAX_PULSES) this.pulses.shift();
+
+    this.updateMeter();
+  }
+
+  private accentAt(time: number): number {
+    const step = 1000 / ENVELOPE_RATE;
+    const center = Math.round((time - this.envelopeStartTime) / step);
+    const radius = Math.round(ON_BEAT_WINDOW_MS / 2 / step);
+    let onsetPeak = 0;
+    let bassPeak = 0;
+    for (let i = center - radius; i <= center + radius; i++) {
+      if (i < 0 || i >= this.envelope.length) continue;
+      onsetPeak = Math.max(onsetPeak, this.envelope[i]);
+      bassPeak = Math.max(bassPeak, this.bassEnvelope[i]);
+    }
+    // Bass carries most of the downbeat information in accompaniment
+    return onsetPeak + 2 * bassPeak;
+  }
+
+  // Relative accent contrast of pulses at `phase` (mod grouping) against the rest
+  private groupingContrast(pulses: Pulse[], grouping: number, meanAccent: number): { contrast: number; phase: number } {
+    let best = { contrast: -Infinity, phase: 0 };
+    for (let phase = 0; phase < grouping; phase++) {
+      const strong = pulses.filter(pulse => (pulse.index - phase) % grouping === 0);
+      const weak = pulses.filter(pulse => (pulse.index - phase) % grouping !== 0);
+      if (strong.length === 0 || weak.length === 0) continue;
+      const contrast = (
+        strong.reduce((sum, pulse) => sum + pulse.accent, 0) / strong.length -
+        weak.reduce((sum, pulse) => sum + pulse.accent, 0) / weak.length
+      ) / meanAccent;
+      if (contrast > best.contrast) best = { contrast, phase };
+    }
+    return best;
+  }
+
+  // Beat level first (how pulses group into beats), then bar level (how
+  // beats group into bars), both from accent contrast
+  private updateMeter(): void {
+    const scored = this.pulses.slice(0, -1).filter(pulse => pulse.accent > 0);
+    if (scored.length < 12) return;
+
+    const meanAccent = scored.reduce((sum, pulse) => sum + pulse.accent, 0) / scored.length;
+    if (meanAccent <= 0) return;
+
+    const pulseBpm = 60000 / this.pulsePeriodMs;
+    let pulsesPerBeat = this.subdivision;
+    if (this.subdivision === 2) {
+      // Is the "subdivision" really the eighths of a compound meter? A strong
+      // downbeat favours any grouping that contains it, so compare 2 against
+      // 3 with the bar's strongest pulse position left out.
+      const barPhase = this.groupingContrast(scored, 6, meanAccent).phase;
+      const rest = scored.filter(pulse => (pulse.index - barPhase) % 6 !== 0);
+      const restAccent = rest.reduce((sum, pulse) => sum + pulse.accent, 0) / rest.length;
+      if (this.groupingContrast(rest, 3, restAccent).contrast > this.groupingContrast(rest, 2, restAccent).contrast) {
+        pulsesPerBeat = 3;
+      }
+    }
+
+    if (pulsesPerBeat === 3) {
+      this.meter = { timeSignature: '6/8', beatsPerBar: 2, pulsesPerBeat };
+      this.downbeatPhase = this.groupingContrast(scored, 6, meanAccent).phase;
+      return;
+    }
+
+    // Bar level on the beats alone, so off-beat eighths don't dilute it
+    const beatPhase = pulsesPerBeat > 1 ? this.groupingContrast(scored, pulsesPerBeat, meanAccent).phase : 0;
+    const beats = scored
+      .filter(pulse => (pulse.index - beatPhase) % pulsesPerBeat === 0)
+      .map(pulse => ({ ...pulse, index: (pulse.index - beatPhase) / pulsesPerBeat }));
+    if (beats.length < 8) return;
+
+    const beatAccent = beats.reduce((sum, beat) => sum + beat.accent, 0) / beats.length;
+    const three = this.groupingContrast(beats, 3, beatAccent);
+    const duple = [this.groupingContrast(beats, 4, beatAccent), this.groupingContrast(beats, 2, beatAccent)]
+      .reduce((a, b) => (b.contrast > a.contrast ? b : a));
+
+    if (three.contrast > duple.contrast && three.contrast > 0.15) {
+      if (pulsesPerBeat === 1 && pulseBpm >= COMPOUND_PULSE_BPM) {
+        this.meter = { timeSignature: '6/8', beatsPerBar: 2, pulsesPerBeat: 3 };
+        this.downbeatPhase = this.groupingContrast(scored, 6, meanAccent).phase;
+      } else {
+        this.meter = { timeSignature: '3/4', beatsPerBar: 3, pulsesPerBeat };
+        this.downbeatPhase = beatPhase + three.phase * pulsesPerBeat;
+      }
+    } else if (duple.contrast > 0.15) {
+      this.meter = { timeSignature: '4/4', beatsPerBar: 4, pulsesPerBeat };
+      this.downbeatPhase = beatPhase + this.groupingContrast(beats, 4, beatAccent).phase * pulsesPerBeat;
+    }
+    // Otherwise no clear accents: keep the current reading
+  }
+
+  private getState(time: number, flux: number, onset: boolean): BeatTrackerState {
+    const { timeSignature, beatsPerBar, pulsesPerBeat } = this.meter;
+    const barPulses = beatsPerBar * pulsesPerBeat;
+    const position = (pulse: Pulse) => (((pulse.index - this.downbeatPhase) % barPulses) + barPulses) % barPulses;
+
+    const beats = this.pulses.filter(pulse => position(pulse) % pulsesPerBeat === 0);
+    const lastBeat = beats[beats.length - 1];
+    const maxFlux = Math.max(...this.fluxHistory, 1e-6);
+
+    return {
+      tempo: this.pulsePeriodMs > 0 ? 60000 / (this.pulsePeriodMs * pulsesPerBeat) : 0,
+      tempoConfidence: this.tempoConfidence,
+      onsetStrength: Math.min(1, flux / maxFlux),
+      onset,
+      timeSignature,
+      beatsPerBar,
+      currentBeat: lastBeat ? Math.floor(position(lastBeat) / pulsesPerBeat) + 1 : 1,
+      isOnBeat: lastBeat !== undefined && time - lastBeat.time < ON_BEAT_WINDOW_MS,
+      beatTimes: beats.map(pulse => pulse.time),
+      downbeatTimes: beats.filter(pulse => position(pulse) === 0).map(pulse => pulse.time)
+    };
+  }
+}
@@ -0,0 +1,216 @@
+import { ChordEstimate, ChordQuality } from '../types/audio';
+import { Scale } from '../types/music';
+import { chordLabel } from './chordRecognizer';
+import { NOTE_NAMES } from './keyDetection';
+import { MODE_LABELS, MusicTheoryEngine } from './musicTheory';
+import { Transcription, placeChords, quartersPerBar } from './transcription';
+
+export interface ChordChartOptions {
+  title: string;
+  // One lyric line per chart line; blank lines are skipped
+  lyrics?: string;
+  barsPerLine: number;
+}
+
+const DEFAULT_CHORD_CHART_OPTIONS: ChordChartOptions = {
+  title: 'Session',
+  barsPerLine: 4
+};
+
+const FLAT_NAMES: Record<string, string> = { 'C#': 'Db', 'D#': 'Eb', 'F#': 'Gb', 'G#': 'Ab', 'A#': 'Bb' };
+
+// Chromatic degrees for roots outside the scale, relative to the major scale
+const CHROMATIC_NUMERALS = ['I', 'bII', 'II', 'bIII', 'III', 'IV', '#IV', 'V', 'bVI', 'VI', 'bVII', 'VII'];
+
+// Which diatonic triad each quality can stand in for, and what it adds to
+// the numeral
+const NUMERAL_QUALITIES: Record<ChordQuality, { triad: string; suffix: string }> = {
+  maj: { triad: 'Major', suffix: '' },
+  min: { triad: 'minor', suffix: '' },
+  '7': { triad: 'Major', suffix: '7' },
+  maj7: { triad: 'Major', suffix: 'maj7' },
+  m7: { triad: 'minor', suffix: '7' },
+  dim: { triad: 'diminished', suffix: '' },
+  aug: { triad: 'augmented', suffix: '' },
+  sus2: { triad: 'Major', suffix: 'sus2' },
+  sus4: { triad: 'Major', suffix: 'sus4' }
+};
+
+// One beat of the chart: the chord covering most of it, if any
+type Slot = ChordEstimate | null;
+
+// Roman numeral of a chord in a key, from the scale's diatonic chords when
+// the chord is one of them (I, ii, vii°), otherwise from its degree with the
+// case and sign of its own quality (iv in a major key, bVII)
+export function romanNumeral(chord: ChordEstimate, scale: Scale): string {
+  const { triad, suffix } = NUMERAL_QUALITIES[chord.quality];
+  const degree = scale.notes.indexOf(chord.root);
+  const diatonic = degree === -1 ? null : scale.chords[degree];
+  if (diatonic && diatonic.name === triad) return `${diatonic.numeral}${suffix}`;
+
+  const interval = (NOTE_NAMES.indexOf(chord.root) - NOTE_NAMES.indexOf(scale.root) + 12) % 12;
+  const numeral = CHROMATIC_NUMERALS[interval];
+  const cased = triad === 'minor' || triad === 'diminished' ? numeral.toLowerCase() : numeral;
+  const sign = triad === 'diminished' ? '°' : triad === 'augmented' ? '+' : '';
+  return `${cased}${sign}${suffix}`;
+}
+
+function chartContext(transcription: Transcription) {
+  const { key, timeSignature } = transcription;
+  const fifths = key ? MusicTheoryEngine.getKeySignatureFifths(key.key, key.mode) : 0;
+  const spell = (note: string) => (fifths < 0 ? FLAT_NAMES[note] ?? note : note);
+  const name = (chord: ChordEstimate) => chordLabel(spell(chord.root), chord.quality, chord.bass && spell(chord.bass));
+  const scale = key ? MusicTheoryEngine.getScale(key.key, key.mode) : null;
+
+  // Chart beats: quarters in 4/4 and 3/4, dotted quarters in 6/8
+  const beatQuarters = timeSignature === '6/8' ? 1.5 : 1;
+  const slotsPerBar = Math.round(quartersPerBar(timeSignature) / beatQuarters);
+  return { spell, name, scale, beatQuarters, slotsPerBar };
+}
+
+// The chord progression laid out in bars of beat slots
+function chartBars(transcription: Transcription, beatQuarters: number, slotsPerBar: number): Slot[][] {
+  const chords = placeChords(transcription);
+  const end = Math.max(0, ...chords.map(chord => chord.start + chord.duration));
+  const barQuarters = beatQuarters * slotsPerBar;
+  const barCount = Math.ceil(end / barQuarters);
+
+  return Array.from({ length: barCount }, (_, bar) =>
+    Array.from({ length: slotsPerBar }, (_, slot) => {
+      const slotStart = bar * barQuarters + slot * beatQuarters;
+      const slotEnd = slotStart + beatQuarters;
+      let best: Slot = null;
+      let bestOverlap = beatQuarters / 2;
+      for (const { chord, start, duration } of chords) {
+        const overlap = Math.min(slotEnd, start + duration) - Math.max(slotStart, start);
+        if (overlap >= bestOverlap) {
+          best = chord;
+          bestOverlap = overlap;
+        }
+      }
+      return best;
+    })
+  );
+}
+
+// The chord names to write in each slot: a name where the chord changes,
+// null where the previous one carries on (or nothing has started yet)
+function slotLabels(bars: Slot[][], name: (chord: ChordEstimate) => string): (string | null)[][] {
+  let previous = 'N.C.';
+  return bars.map(bar => bar.map(slot => {
+    const label = slot ? name(slot) : 'N.C.';
+    if (label === previous) return null;
+    previous = label;
+    return label;
+  }));
+}
+
+const lyricLines = (lyrics?: string) =>
+  (lyrics ?? '').split('\n').map(line => line.trim()).filter(line => line.length > 0);
+
+const chunk = <T,>(items: T[], size: number): T[][] =>
+  Array.from({ length: Math.ceil(items.length / size) }, (_, i) => items.slice(i * size, (i + 1) * size));
+
+function keyDescription(transcription: Transcription, spell: (note: string) => string): string | null {
+  const { key } = transcription;
+  return key ? `${spell(key.key)} ${MODE_LABELS[key.mode].toLowerCase()}` : null;
+}
+
+// Puts each chord into a lyric line at the word nearest where it falls in
+// the line's bars
+function placeChordsInLyric(lyric: string, changes: { label: string; position: number }[]): string {
+  const wordStarts = [...lyric.matchAll(/\S+/g)].map(match => match.index ?? 0);
+  const inserts = new Map<number, string>();
+  changes.forEach(({ label, position }) => {
+    const target = position * lyric.length;
+    const at = wordStarts.reduce((best, start) => (Math.abs(start - target) < Math.abs(best - target) ? start : best), 0);
+    inserts.set(at, `${inserts.get(at) ?? ''}[${label}]`);
+  });
+
+  let line = '';
+  for (let i = 0; i <= lyric.length; i++) {
+    line += inserts.get(i) ?? '';
+    if (i < lyric.length) line += lyric[i];
+  }
+  return line;
+}
+
+// ChordPro: title, key, tempo and meter directives, then lyric lines with
+// inline [C] chords where lyrics are given, and a chord grid for the rest
+export function createChordPro(transcription: Transcription, options: Partial<ChordChartOptions> = {}): string {
+  const { title, lyrics, barsPerLine } = { ...DEFAULT_CHORD_CHART_OPTIONS, ...options };
+  const { spell, name, beatQuarters, slotsPerBar } = chartContext(transcription);
+  const labels = slotLabels(chartBars(transcription, beatQuarters, slotsPerBar), name);
+  const lines = chunk(labels, barsPerLine);
+  const lyricsByLine = lyricLines(lyrics);
+
+  const output = [`{title: ${title}}`];
+  const { key } = transcription;
+  if (key) {
+    const minor = key.mode === 'minor' || key.mode === 'harmonic-minor' || key.mode === 'melodic-minor';
+    output.push(`{key: ${spell(key.key)}${minor ? 'm' : ''}}`);
+    if (!minor && key.mode !== 'major') output.push(`{comment: ${keyDescription(transcription, spell)}}`);
+  }
+  output.push(`{tempo: ${Math.round(transcription.tempo)}}`, `{time: ${transcription.timeSignature}}`, '');
+
+  const sung = Math.min(lines.length, lyricsByLine.length);
+  lines.slice(0, sung).forEach((bars, i) => {
+    const slotCount = bars.length * slotsPerBar;
+    const changes = bars.flatMap((bar, b) => bar.flatMap((label, s) =>
+      label ? [{ label, position: (b * slotsPerBar + s) / slotCount }] : []
+    ));
+    output.push(placeChordsInLyric(lyricsByLine[i], changes));
+  });
+  // Lyrics beyond the chords are kept as they are
+  lyricsByLine.slice(sung).forEach(line => output.push(line));
+
+  if (lines.length > sung) {
+    if (sung > 0) output.push('');
+    output.push(`{start_of_grid: ${slotsPerBar}x${barsPerLine}}`);
+    lines.slice(sung).forEach(bars => {
+      output.push(`| ${bars.map(bar => bar.map(label => label ?? '.').join(' ')).join(' | ')} |`);
+    });
+    output.push('{end_of_grid}');
+  }
+
+  return `${output.join('\n')}\n`;
+}
+
+// Plain-text chart: bars of chord names and slashes, with the Roman
+// numerals in the key underneath and any lyrics below that
+export function createTextChart(transcription: Transcription, options: Partial<ChordChartOptions> = {}): string {
+  const { title, lyrics, barsPerLine } = { ...DEFAULT_CHORD_CHART_OPTIONS, ...options };
+  const { spell, name, scale, beatQuarters, slotsPerBar } = chartContext(transcription);
+  const bars = chartBars(transcription, beatQuarters, slotsPerBar);
+  const labels = slotLabels(bars, name);
+  const lyricsByLine = lyricLines(lyrics);
+
+  const details = [
+    keyDescription(transcription, spell) && `Key: ${keyDescription(transcription, spell)}`,
+    `Tempo: ${Math.round(transcription.tempo)} BPM`,
+    `Time: ${transcription.timeSignature}`
+  ].filter(Boolean);
+  const output = [title, details.join('   '), ''];
+
+  chunk(bars.map((bar, i) => ({ slots: bar, labels: labels[i] })), barsPerLine).forEach((line, i) => {
+    let chordRow = '';
+    let numeralRow = '';
+    line.forEach(({ slots, labels: barLabels }) => {
+      chordRow += '| ';
+      numeralRow += '  ';
+      barLabels.forEach((label, s) => {
+        const chord = slots[s];
+        const numeral = label && chord && scale ? romanNumeral(chord, scale) : '';
+        const width = Math.max((label ?? '/').length, numeral.length) + 1;
+        chordRow += (label ?? '/').padEnd(width);
+        numeralRow += numeral.padEnd(width);
+      });
+    });
+    output.push(`${chordRow}|`);
+    if (scale) output.push(numeralRow.trimEnd());
+    if (lyricsByLine[i]) output.push(`  ${lyricsByLine[i]}`);
+    output.push('');
+  });
+
+  return `${output.join('\n').trimEnd()}\n`;
+}
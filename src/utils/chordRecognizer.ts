@@ -0,0 +1,286 @@
+import { ChordEstimate, ChordQuality, ChordSegment, ChromaData } from '../types/audio';
+import { NOTE_NAMES } from './keyDetection';
+
+export const CHORD_QUALITIES: Record<ChordQuality, { intervals: number[]; suffix: string }> = {
+  maj: { intervals: [0, 4, 7], suffix: '' },
+  min: { intervals: [0, 3, 7], suffix: 'm' },
+  '7': { intervals: [0, 4, 7, 10], suffix: '7' },
+  maj7: { intervals: [0, 4, 7, 11], suffix: 'maj7' },
+  m7: { intervals: [0, 3, 7, 10], suffix: 'm7' },
+  dim: { intervals: [0, 3, 6], suffix: 'dim' },
+  aug: { intervals: [0, 4, 8], suffix: 'aug' },
+  sus2: { intervals: [0, 2, 7], suffix: 'sus2' },
+  sus4: { intervals: [0, 5, 7], suffix: 'sus4' }
+};
+
+export interface ChordRecognizerConfig {
+  // Chroma is averaged over steps of this length before decoding
+  stepSeconds: number;
+  // Log-score cost of changing chord between two steps
+  switchPenalty: number;
+  // Scales template similarity into a log score per step
+  emissionGain: number;
+  // Steps a decision may still be revised before it enters the timeline
+  commitLagSteps: number;
+  // Similarity a chord has to beat before it is preferred to no chord
+  noChordScore: number;
+  // Share of a chord's score that comes from the bass chroma, when there is one
+  bassWeight: number;
+}
+
+const DEFAULT_CHORD_RECOGNIZER_CONFIG: ChordRecognizerConfig = {
+  stepSeconds: 0.1,
+  switchPenalty: 3,
+  emissionGain: 10,
+  commitLagSteps: 20, // 2 s
+  noChordScore: 0.6,
+  bassWeight: 0.3
+};
+
+const QUALITIES = Object.keys(CHORD_QUALITIES) as ChordQuality[];
+// States are every root in every quality (root first), then no chord
+const NO_CHORD = 12 * QUALITIES.length;
+const STATE_COUNT = NO_CHORD + 1;
+
+const chordOf = (state: number) => ({
+  root: Math.floor(state / QUALITIES.length),
+  quality: QUALITIES[state % QUALITIES.length]
+});
+
+const chordTones = (state: number) => {
+  const { root, quality } = chordOf(state);
+  return CHORD_QUALITIES[quality].intervals.map(interval => (root + interval) % 12);
+};
+
+export function chordLabel(root: string, quality: ChordQuality, bass?: string): string {
+  return `${root}${CHORD_QUALITIES[quality].suffix}${bass ? `/${bass}` : ''}`;
+}
+
+interface PendingStep {
+  start: number;
+  end: number;
+  // Best predecessor of each state at this step
+  backPointers: Uint8Array;
+  scores: number[];
+  bass: number[] | null;
+}
+
+// Consecutive steps under one state, with what is needed to label it
+interface OpenSegment {
+  state: number;
+  start: number;
+  end: number;
+  scoreSum: number;
+  steps: number;
+  bass: number[];
+}
+
+// Similarity of a step's chroma with every chord template: cosine similarity
+// with the chord's pitch classes, blended with how much of the bass sits on
+// the root (or, at half weight, another chord tone). The bass is what tells
+// Csus2 from Gsus4 and C from Am7 without its A.
+function scoreStep(chroma: number[], bass: number[] | null, config: ChordRecognizerConfig): number[] {
+  const scores = new Array<number>(STATE_COUNT).fill(0);
+  const norm = Math.sqrt(chroma.reduce((sum, value) => sum + value * value, 0));
+  if (norm <= 0) {
+    scores[NO_CHORD] = 1;
+    return scores;
+  }
+
+  const bassSum = bass ? bass.reduce((sum, value) => sum + value, 0) : 0;
+  const bassWeight = bassSum > 0 ? config.bassWeight : 0;
+
+  for (let state = 0; state < NO_CHORD; state++) {
+    const tones = chordTones(state);
+    const cosine = tones.reduce((sum, pitchClass) => sum + chroma[pitchClass], 0) / (norm * Math.sqrt(tones.length));
+    const bassScore = bassWeight > 0
+      ? tones.reduce((sum, pitchClass, i) => sum + (i === 0 ? 1 : 0.5) * bass![pitchClass], 0) / bassSum
+      : 0;
+    scores[state] = (1 - bassWeight) * cosine + bassWeight * bassScore;
+  }
+  scores[NO_CHORD] = config.noChordScore;
+  return scores;
+}
+
+// Chord recognition by template matching with HMM smoothing. Chroma is
+// pooled into short steps, every step scores each chord template, and an
+// online Viterbi over 12 roots × 9 qualities plus "no chord" charges a fixed
+// penalty for every change, so a passing note or a strummed upbeat doesn't
+// start a new chord but a change on the beat does. Works like KeyTracker,
+// on a much shorter time scale.
+export class ChordRecognizer {
+  private config: ChordRecognizerConfig;
+  private delta: number[] | null = null;
+  private pending: PendingStep[] = [];
+  private committed: OpenSegment[] = [];
+  private timeline: ChordSegment[] = [];
+  private current: ChordEstimate | null = null;
+
+  private stepStart: number | null = null;
+  private stepChroma = new Array(12).fill(0);
+  private stepBass = new Array(12).fill(0);
+  private stepHasBass = false;
+  private stepFrames = 0;
+
+  constructor(config: Partial<ChordRecognizerConfig> = {}) {
+    this.config = { ...DEFAULT_CHORD_RECOGNIZER_CONFIG, ...config };
+  }
+
+  // Feed every frame, with null chroma for silent or unpitched ones; `time`
+  // in seconds. Returns the chord at the latest step, or null for none.
+  update(chroma: ChromaData | null, time: number): ChordEstimate | null {
+    if (this.stepStart === null) this.stepStart = time;
+    if (time - this.stepStart >= this.config.stepSeconds && this.stepFrames > 0) {
+      this.decodeStep(this.stepStart, time);
+      this.stepStart = time;
+      this.stepChroma.fill(0);
+      this.stepBass.fill(0);
+      this.stepHasBass = false;
+      this.stepFrames = 0;
+    }
+
+    if (chroma && chroma.vector.length === 12) {
+      chroma.vector.forEach((value, i) => { this.stepChroma[i] += value; });
+      if (chroma.bass) {
+        chroma.bass.forEach((value, i) => { this.stepBass[i] += value; });
+        this.stepHasBass = true;
+      }
+    }
+    this.stepFrames++;
+    return this.current;
+  }
+
+  getCurrentChord(): ChordEstimate | null {
+    return this.current;
+  }
+
+  // Committed segments followed by the still-provisional recent decisions.
+  // The same array is returned until the next step is decoded.
+  getTimeline(): ChordSegment[] {
+    return this.timeline;
+  }
+
+  reset(): void {
+    this.delta = null;
+    this.pending = [];
+    this.committed = [];
+    this.timeline = [];
+    this.current = null;
+    this.stepStart = null;
+    this.stepChroma.fill(0);
+    this.stepBass.fill(0);
+    this.stepHasBass = false;
+    this.stepFrames = 0;
+  }
+
+  private decodeStep(start: number, end: number): void {
+    const bass = this.stepHasBass ? [...this.stepBass] : null;
+    const scores = scoreStep(this.stepChroma, bass, this.config);
+    const backPointers = new Uint8Array(STATE_COUNT);
+    const next = new Array<number>(STATE_COUNT);
+
+    if (!this.delta) {
+      scores.forEach((score, state) => {
+        next[state] = this.config.emissionGain * score;
+        backPointers[state] = state;
+      });
+    } else {
+      const previous = this.delta;
+      const leader = this.argmax(previous);
+      const switchScore = previous[leader] - this.config.switchPenalty;
+      scores.forEach((score, state) => {
+        const stay = previous[state] >= switchScore;
+        next[state] = (stay ? previous[state] : switchScore) + this.config.emissionGain * score;
+        backPointers[state] = stay ? state : leader;
+      });
+    }
+
+    // Keep the scores bounded over long sessions
+    const best = this.argmax(next);
+    const top = next[best];
+    this.delta = next.map(value => value - top);
+
+    this.pending.push({ start, end, backPointers, scores, bass });
+    const path = this.backtrack(best);
+    if (this.pending.length > this.config.commitLagSteps) {
+      const step = this.pending.shift()!;
+      this.extend(this.committed, step, path.shift()!);
+    }
+
+    // Only the last committed segment can still grow, so it is the only one copied
+    const segments = this.committed.slice();
+    const last = segments[segments.length - 1];
+    if (last) segments[segments.length - 1] = { ...last, bass: [...last.bass] };
+    path.forEach((state, i) => this.extend(segments, this.pending[i], state));
+
+    this.timeline = segments.filter(segment => segment.state !== NO_CHORD).map(segment => this.toChordSegment(segment));
+    this.current = best === NO_CHORD ? null : this.describe(best, scores[best], bass);
+  }
+
+  private argmax(values: number[]): number {
+    let best = 0;
+    for (let i = 1; i < values.length; i++) {
+      if (values[i] > values[best]) best = i;
+    }
+    return best;
+  }
+
+  // States along the best path through the pending steps, oldest first
+  private backtrack(finalState: number): number[] {
+    const path = new Array<number>(this.pending.length);
+    let state = finalState;
+    for (let i = this.pending.length - 1; i >= 0; i--) {
+      path[i] = state;
+      state = this.pending[i].backPointers[state];
+    }
+    return path;
+  }
+
+  private extend(segments: OpenSegment[], step: PendingStep, state: number): void {
+    const score = Math.max(0, step.scores[state]);
+    const last = segments[segments.length - 1];
+
+    if (last && last.state === state) {
+      last.end = step.end;
+      last.scoreSum += score;
+      last.steps++;
+      step.bass?.forEach((value, i) => { last.bass[i] += value; });
+      return;
+    }
+
+    segments.push({
+      state,
+      start: step.start,
+      end: step.end,
+      scoreSum: score,
+      steps: 1,
+      bass: step.bass ? [...step.bass] : new Array(12).fill(0)
+    });
+  }
+
+  private toChordSegment(segment: OpenSegment): ChordSegment {
+    return {
+      ...this.describe(segment.state, segment.scoreSum / segment.steps, segment.bass),
+      start: segment.start,
+      end: segment.end
+    };
+  }
+
+  // Names the chord, as a slash chord when another chord tone has the bass
+  private describe(state: number, score: number, bass: number[] | null): ChordEstimate {
+    const { root, quality } = chordOf(state);
+    let bassNote: string | undefined;
+    if (bass && bass.some(value => value > 0)) {
+      const lowest = this.argmax(bass);
+      if (lowest !== root && chordTones(state).includes(lowest)) bassNote = NOTE_NAMES[lowest];
+    }
+
+    return {
+      root: NOTE_NAMES[root],
+      quality,
+      ...(bassNote && { bass: bassNote }),
+      label: chordLabel(NOTE_NAMES[root], quality, bassNote),
+      confidence: Math.max(0, Math.min(1, score))
+    };
+  }
+}
@@ -0,0 +1,258 @@
+import { ChromaData } from '../types/audio';
+import { SpectrumAnalyzer } from './fft';
+import { SpectralPeak, findSpectralPeaks } from './multiPitchEstimator';
+
+export type ChromaMethod = 'linear' | 'hpcp';
+
+export const DEFAULT_CHROMA_METHOD: ChromaMethod = 'hpcp';
+
+export const CHROMA_METHOD_LABELS: Record<ChromaMethod, string> = {
+  linear: 'FFT bins (fast)',
+  hpcp: 'HPCP (harmonic, multi-resolution)'
+};
+
+export interface ChromaOptions {
+  // Also fold notes below splitMidi and from it up into separate bass and
+  // treble chroma
+  bassSplit: boolean;
+  splitMidi: number;
+}
+
+export const DEFAULT_CHROMA_OPTIONS: ChromaOptions = {
+  // Chord recognition uses the bass to name inversions
+  bassSplit: true,
+  splitMidi: 55 // G3
+};
+
+export interface ChromaExtractor {
+  readonly method: ChromaMethod;
+  // Called on every frame with the frame's samples and time in ms, so an
+  // extractor that looks further back than one frame has a continuous signal
+  observe(timeData: Float32Array, time: number): void;
+  // `frequencyData` is the frame's dB spectrum; pitch classes are centred on
+  // the equal-tempered grid around `referenceA4`
+  extract(frequencyData: Float32Array, referenceA4: number): ChromaData;
+  reset(): void;
+}
+
+const midiOf = (frequency: number, referenceA4: number) => 12 * Math.log2(frequency / referenceA4) + 69;
+
+// Lowest fundamental a peak may vote for (E1)
+const MIN_CHROMA_MIDI = 28;
+
+// The lowest note is what makes a chord an inversion, so bass chroma weighs
+// notes more the further they sit below the split point
+const bassEmphasis = (midi: number, splitMidi: number) =>
+  Math.max(0, Math.min(1, (splitMidi - midi) / (splitMidi - MIN_CHROMA_MIDI)));
+
+// Normalised chroma plus its strongest class
+function toChromaData(vector: number[], bass?: number[], treble?: number[]): ChromaData {
+  const normalise = (values: number[]) => {
+    const sum = values.reduce((a, b) => a + b, 0);
+    return sum > 0 ? values.map(value => value / sum) : values;
+  };
+
+  const normalised = normalise(vector);
+  let dominant = 0;
+  for (let i = 1; i < 12; i++) {
+    if (normalised[i] > normalised[dominant]) dominant = i;
+  }
+
+  return {
+    vector: normalised,
+    dominant,
+    confidence: normalised[dominant],
+    ...(bass && treble && { bass: normalise(bass), treble: normalise(treble) })
+  };
+}
+
+// Every FFT bin adds its magnitude to the nearest pitch class. Cheap, but a
+// bin is ~10 Hz wide at the default fftSize, which is more than a semitone
+// below ~180 Hz, and every overtone counts as a note of its own.
+export class LinearChromaExtractor implements ChromaExtractor {
+  readonly method = 'linear';
+
+  constructor(private sampleRate: number, private options: ChromaOptions = DEFAULT_CHROMA_OPTIONS) {}
+
+  observe(): void {}
+
+  extract(frequencyData: Float32Array, referenceA4: number): ChromaData {
+    const chroma = new Array(12).fill(0);
+    const bass = new Array(12).fill(0);
+    const treble = new Array(12).fill(0);
+    const binCount = frequencyData.length;
+
+    for (let i = 1; i < binCount; i++) {
+      const frequency = (i * this.sampleRate) / (2 * binCount);
+      if (frequency < 80 || frequency > 2000) continue;
+
+      const magnitude = Math.pow(10, frequencyData[i] / 20);
+      if (magnitude < 0.001) continue;
+
+      const midi = Math.round(midiOf(frequency, referenceA4));
+      const chromaClass = ((midi % 12) + 12) % 12;
+      chroma[chromaClass] += magnitude;
+      if (midi < this.options.splitMidi) {
+        bass[chromaClass] += magnitude * bassEmphasis(midi, this.options.splitMidi);
+      } else {
+        treble[chromaClass] += magnitude;
+      }
+    }
+
+    return this.options.bassSplit ? toChromaData(chroma, bass, treble) : toChromaData(chroma);
+  }
+
+  reset(): void {}
+}
+
+export interface HpcpConfig {
+  // Subharmonics each spectral peak votes for, and the weight ratio between
+  // successive ones
+  harmonics: number;
+  harmonicDecay: number;
+  // Width of each peak's cos² contribution, in semitones
+  windowSemitones: number;
+  // Samples kept for the long bass window (~0.37 s at 44.1 kHz)
+  bassWindowSize: number;
+  // Peaks below this come from the long window, above it from the frame
+  bassBandHz: number;
+  minFrequency: number;
+  maxFrequency: number;
+  peakRangeDb: number;
+  minProminenceDb: number;
+}
+
+const DEFAULT_HPCP_CONFIG: HpcpConfig = {
+  harmonics: 8,
+  harmonicDecay: 0.6,
+  windowSemitones: 4 / 3,
+  bassWindowSize: 16384,
+  bassBandHz: 300,
+  minFrequency: 40,
+  maxFrequency: 5000,
+  peakRangeDb: 50,
+  minProminenceDb: 6
+};
+
+// Sub-semitone resolution of the profile before it is folded to 12 classes
+const BINS_PER_SEMITONE = 3;
+const HPCP_BINS = 12 * BINS_PER_SEMITONE;
+
+// Harmonic pitch class profile (Gómez 2006) over spectral peaks. Peaks are
+// interpolated to well under a bin, and every peak also votes for the
+// fundamentals it could be a harmonic of (with decaying weight) when there
+// is a peak there too, so a note's overtones reinforce its own class instead
+// of adding the fifth and major third above it. Each vote is spread over a
+// 36-bin profile with a cos² window before folding. Peaks below bassBandHz come from a 16k-sample
+// window over the recent signal, where the frame's own FFT cannot separate
+// neighbouring bass notes.
+export class HpcpChromaExtractor implements ChromaExtractor {
+  readonly method = 'hpcp';
+  private config: HpcpConfig;
+  private history: Float32Array;
+  private lastTime: number | null = null;
+  private bassSpectrum: SpectrumAnalyzer;
+  private bassFrequencyData: Float32Array;
+
+  constructor(
+    private sampleRate: number,
+    private options: ChromaOptions = DEFAULT_CHROMA_OPTIONS,
+    config: Partial<HpcpConfig> = {}
+  ) {
+    this.config = { ...DEFAULT_HPCP_CONFIG, ...config };
+    this.history = new Float32Array(this.config.bassWindowSize);
+    this.bassSpectrum = new SpectrumAnalyzer(this.config.bassWindowSize, 0);
+    this.bassFrequencyData = new Float32Array(this.bassSpectrum.frequencyBinCount);
+  }
+
+  // Frames overlap, so only the samples that are new since the last frame
+  // are appended; the hop is recovered from the frame times
+  observe(timeData: Float32Array, time: number): void {
+    const length = Math.min(timeData.length, this.history.length);
+    const elapsed = this.lastTime === null ? length : Math.round(((time - this.lastTime) * this.sampleRate) / 1000);
+    const hop = Math.max(0, Math.min(length, elapsed));
+    this.lastTime = time;
+    if (hop === 0) return;
+
+    this.history.copyWithin(0, hop);
+    this.history.set(timeData.subarray(timeData.length - hop), this.history.length - hop);
+  }
+
+  extract(frequencyData: Float32Array, referenceA4: number): ChromaData {
+    const { bassBandHz, minFrequency, maxFrequency, peakRangeDb, minProminenceDb } = this.config;
+    const peakOptions = { rangeDb: peakRangeDb, minProminenceDb };
+
+    this.bassSpectrum.getFloatFrequencyData(this.history, this.bassFrequencyData);
+    const peaks: SpectralPeak[] = [
+      ...findSpectralPeaks(this.bassFrequencyData, this.sampleRate, { ...peakOptions, minFrequency, maxFrequency: bassBandHz }),
+      ...findSpectralPeaks(frequencyData, this.sampleRate, { ...peakOptions, minFrequency: bassBandHz, maxFrequency })
+    ];
+
+    const profile = new Float64Array(HPCP_BINS);
+    const bassProfile = new Float64Array(HPCP_BINS);
+    const trebleProfile = new Float64Array(HPCP_BINS);
+    const halfWidth = this.config.windowSemitones / 2;
+
+    const peakMidis = peaks.map(peak => midiOf(peak.frequency, referenceA4));
+
+    peaks.forEach(peak => {
+      const energy = peak.magnitude * peak.magnitude;
+      let weight = 1;
+
+      for (let harmonic = 1; harmonic <= this.config.harmonics; harmonic++, weight *= this.config.harmonicDecay) {
+        const midi = midiOf(peak.frequency / harmonic, referenceA4);
+        if (midi < MIN_CHROMA_MIDI) break;
+        // Only vote for fundamentals that are actually sounding
+        if (harmonic > 1 && !peakMidis.some(peakMidi => Math.abs(peakMidi - midi) < halfWidth)) continue;
+
+        const inBass = midi < this.options.splitMidi;
+        const bassWeight = inBass ? bassEmphasis(midi, this.options.splitMidi) : 0;
+        const centre = Math.round(midi * BINS_PER_SEMITONE);
+        const reach = Math.floor(halfWidth * BINS_PER_SEMITONE);
+
+        for (let bin = centre - reach; bin <= centre + reach; bin++) {
+          const distance = Math.abs(bin / BINS_PER_SEMITONE - midi);
+          if (distance >= halfWidth) continue;
+          const contribution = energy * weight * Math.pow(Math.cos((Math.PI / 2) * (distance / halfWidth)), 2);
+          const index = ((bin % HPCP_BINS) + HPCP_BINS) % HPCP_BINS;
+          profile[index] += contribution;
+          if (inBass) {
+            bassProfile[index] += contribution * bassWeight;
+          } else {
+            trebleProfile[index] += contribution;
+          }
+        }
+      }
+    });
+
+    // Each class takes its centre bin and the bins a third of a semitone
+    // either side
+    const fold = (bins: Float64Array) => Array.from({ length: 12 }, (_, pitchClass) => {
+      const centre = pitchClass * BINS_PER_SEMITONE;
+      return bins[(centre - 1 + HPCP_BINS) % HPCP_BINS] + bins[centre] + bins[centre + 1];
+    });
+
+    return this.options.bassSplit
+      ? toChromaData(fold(profile), fold(bassProfile), fold(trebleProfile))
+      : toChromaData(fold(profile));
+  }
+
+  reset(): void {
+    this.history.fill(0);
+    this.lastTime = null;
+  }
+}
+
+export function createChromaExtractor(
+  method: ChromaMethod,
+  sampleRate: number,
+  options: ChromaOptions = DEFAULT_CHROMA_OPTIONS
+): ChromaExtractor {
+  switch (method) {
+    case 'hpcp':
+      return new HpcpChromaExtractor(sampleRate, options);
+    case 'linear':
+    default:
+      return new LinearChromaExtractor(sampleRate, options);
+  }
+}
@@ -0,0 +1,58 @@
+export interface CountIn {
+  // Context time the music should come in on
+  end: number;
+  // Silences any clicks still to come
+  cancel: () => void;
+}
+
+const CLICK_SECONDS = 0.04;
+// Higher click on the first beat of each bar
+const ACCENT_FREQUENCY = 1600;
+const BEAT_FREQUENCY = 1000;
+
+// Beats in a bar of a time signature such as "3/4"; 4 if unreadable. The
+// beat is what the tempo counts, so 6/8 has two: dotted quarters, as the
+// beat tracker measures them.
+export function beatsPerBar(timeSignature?: string | null): number {
+  const [top, bottom] = (timeSignature ?? '').split('/').map(part => parseInt(part, 10));
+  if (!(top > 0)) return 4;
+  // Compound time: groups of three eighths
+  return bottom === 8 && top % 3 === 0 && top > 3 ? top / 3 : top;
+}
+
+// Schedules metronome clicks for a count-in of some bars, starting at when
+export function scheduleCountIn(
+  context: BaseAudioContext,
+  destination: AudioNode,
+  options: { tempo: number; bars: number; beatsPerBar: number; when?: number }
+): CountIn {
+  const beatSeconds = 60 / options.tempo;
+  const start = options.when ?? context.currentTime + 0.05;
+  const clicks: OscillatorNode[] = [];
+
+  for (let beat = 0; beat < options.bars * options.beatsPerBar; beat++) {
+    const time = start + beat * beatSeconds;
+    const oscillator = context.createOscillator();
+    const envelope = context.createGain();
+    oscillator.frequency.value = beat % options.beatsPerBar === 0 ? ACCENT_FREQUENCY : BEAT_FREQUENCY;
+    envelope.gain.setValueAtTime(0.6, time);
+    envelope.gain.exponentialRampToValueAtTime(0.001, time + CLICK_SECONDS);
+    oscillator.connect(envelope);
+    envelope.connect(destination);
+    oscillator.start(time);
+    oscillator.stop(time + CLICK_SECONDS);
+    clicks.push(oscillator);
+  }
+
+  return {
+    end: start + options.bars * options.beatsPerBar * beatSeconds,
+    cancel: () => clicks.forEach(click => {
+      try {
+        click.stop();
+      } catch {
+        // Already stopped
+      }
+      click.disconnect();
+    })
+  };
+}
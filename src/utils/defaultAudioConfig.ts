@@ -0,0 +1,34 @@
+import { AudioConfig, NoiseGateConfig, SignalDetectionConfig } from '../types/audio';
+
+export const DEFAULT_AUDIO_CONFIG: AudioConfig = {
+  sampleRate: 44100,
+  bufferSize: 2048,
+  fftSize: 4096,
+  minFreq: 80,
+  maxFreq: 1100
+};
+
+export const DEFAULT_NOISE_GATE: NoiseGateConfig = {
+  thresholdMin: -65,
+  thresholdMax: -20,
+  attackTime: 0.01,
+  releaseTime: 0.1,
+  hysteresis: 3,
+  adaptiveWindow: 2.0
+};
+
+export const DEFAULT_SIGNAL_DETECTION: SignalDetectionConfig = {
+  harmonicThreshold: 0.18,
+  pitchStability: 0.35,
+  minDuration: 0.12,
+  spectralCentroid: {
+    minVocal: 150,
+    maxVocal: 1200,
+    minPiano: 27,
+    maxPiano: 4186
+  }
+};
+
+// Concert pitch; the tuning reference used unless the user or the tuning
+// estimator says otherwise
+export const DEFAULT_REFERENCE_A4 = 440;
@@ -0,0 +1,15 @@
+// Saves generated data (an export, a chart) as a file through the browser
+export function downloadFile(data: BlobPart, filename: string, type: string): void {
+  const url = URL.createObjectURL(new Blob([data], { type }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+// A title made safe to use as a file name
+export const fileNameFromTitle = (title: string) =>
+  title.trim().replace(/[^\w\- ]+/g, '').replace(/\s+/g, '-').toLowerCase() || 'untitled';
@@ -0,0 +1,116 @@
+// Radix-2 FFT used wherever we need spectra outside of an AnalyserNode
+// (offline analysis, worker-side analysis, FFT autocorrelation).
+export class FFT {
+  readonly size: number;
+  private readonly cosTable: Float32Array;
+  private readonly sinTable: Float32Array;
+  private readonly reverseTable: Uint32Array;
+
+  constructor(size: number) {
+    if (size < 2 || (size & (size - 1)) !== 0) {
+      throw new Error(`FFT size must be a power of two, got ${size}`);
+    }
+
+    this.size = size;
+    this.cosTable = new Float32Array(size / 2);
+    this.sinTable = new Float32Array(size / 2);
+    for (let i = 0; i < size / 2; i++) {
+      this.cosTable[i] = Math.cos((2 * Math.PI * i) / size);
+      this.sinTable[i] = Math.sin((2 * Math.PI * i) / size);
+    }
+
+    const bits = Math.log2(size);
+    this.reverseTable = new Uint32Array(size);
+    for (let i = 0; i < size; i++) {
+      let reversed = 0;
+      for (let b = 0; b < bits; b++) {
+        reversed = (reversed << 1) | ((i >> b) & 1);
+      }
+      this.reverseTable[i] = reversed;
+    }
+  }
+
+  // In-place complex transform. Pass inverse = true for the (unscaled) inverse.
+  transform(real: Float32Array, imag: Float32Array, inverse = false): void {
+    const n = this.size;
+
+    for (let i = 0; i < n; i++) {
+      const j = this.reverseTable[i];
+      if (j > i) {
+        const tr = real[i];
+        real[i] = real[j];
+        real[j] = tr;
+        const ti = imag[i];
+        imag[i] = imag[j];
+        imag[j] = ti;
+      }
+    }
+
+    const sign = inverse ? 1 : -1;
+    for (let blockSize = 2; blockSize <= n; blockSize <<= 1) {
+      const half = blockSize >> 1;
+      const step = n / blockSize;
+      for (let start = 0; start < n; start += blockSize) {
+        for (let k = 0; k < half; k++) {
+          const cos = this.cosTable[k * step];
+          const sin = sign * this.sinTable[k * step];
+          const a = start + k;
+          const b = a + half;
+          const tr = real[b] * cos - imag[b] * sin;
+          const ti = real[b] * sin + imag[b] * cos;
+          real[b] = real[a] - tr;
+          imag[b] = imag[a] - ti;
+          real[a] += tr;
+          imag[a] += ti;
+        }
+      }
+    }
+  }
+}
+
+// Produces the same dB spectrum an AnalyserNode would report from
+// getFloatFrequencyData: Blackman window, magnitude / N, optional smoothing.
+export class SpectrumAnalyzer {
+  private readonly fft: FFT;
+  private readonly window: Float32Array;
+  private readonly real: Float32Array;
+  private readonly imag: Float32Array;
+  private readonly smoothed: Float32Array;
+
+  constructor(fftSize: number, private smoothingTimeConstant = 0.2) {
+    this.fft = new FFT(fftSize);
+    this.window = new Float32Array(fftSize);
+    for (let i = 0; i < fftSize; i++) {
+      const x = (2 * Math.PI * i) / fftSize;
+      this.window[i] = 0.42 - 0.5 * Math.cos(x) + 0.08 * Math.cos(2 * x);
+    }
+    this.real = new Float32Array(fftSize);
+    this.imag = new Float32Array(fftSize);
+    this.smoothed = new Float32Array(fftSize / 2);
+  }
+
+  get frequencyBinCount(): number {
+    return this.fft.size / 2;
+  }
+
+  getFloatFrequencyData(timeData: Float32Array, output: Float32Array): void {
+    const n = this.fft.size;
+    for (let i = 0; i < n; i++) {
+      this.real[i] = (timeData[i] || 0) * this.window[i];
+      this.imag[i] = 0;
+    }
+
+    this.fft.transform(this.real, this.imag);
+
+    const tau = this.smoothingTimeConstant;
+    for (let k = 0; k < n / 2; k++) {
+      const magnitude = Math.hypot(this.real[k], this.imag[k]) / n;
+      this.smoothed[k] = tau * this.smoothed[k] + (1 - tau) * magnitude;
+      output[k] = this.smoothed[k] > 0 ? 20 * Math.log10(this.smoothed[k]) : -Infinity;
+    }
+  }
+
+  reset(): void {
+    this.smoothed.fill(0);
+  }
+}
@@ -0,0 +1,720 @@
+import { AudioConfig, NoiseGateConfig, SignalDetectionConfig, AudioState, PitchData, ChromaData, DetectedNote } from '../types/audio';
+import { DEFAULT_AUDIO_CONFIG, DEFAULT_NOISE_GATE, DEFAULT_SIGNAL_DETECTION, DEFAULT_REFERENCE_A4 } from './defaultAudioConfig';
+import { PitchEstimator, PitchEstimatorType, createPitchEstimator } from './pitchEstimators';
+import { MultiPitchEstimator } from './multiPitchEstimator';
+import { TuningEstimator, TuningEstimate } from './tuningEstimator';
+import { BeatTracker, TimeSignature } from './beatTracker';
+import { ChromaExtractor, ChromaMethod, DEFAULT_CHROMA_METHOD, DEFAULT_CHROMA_OPTIONS, createChromaExtractor } from './chromaExtractors';
+
+export interface RhythmData {
+  tempo: number;
+  // 0 until the beat tracker has settled on a tempo
+  tempoConfidence: number;
+  beatStrength: number;
+  onset: boolean;
+  timeSignature: TimeSignature;
+  beatsPerBar: number;
+  currentBeat: number;
+  isOnBeat: boolean;
+  // Recent beat and downbeat times in ms, same time base as the frames
+  beatTimes: number[];
+  downbeatTimes: number[];
+}
+
+export interface HarmonyAnalysis {
+  melodyNotes: string[];
+  chordNotes: string[];
+  // Fundamentals behind melodyNotes/chordNotes, strongest first
+  notes: DetectedNote[];
+  rhythmData: RhythmData;
+  harmonyType: 'melody' | 'chord' | 'both' | 'none';
+}
+
+export interface TuningState {
+  // A4 used for note naming and chroma in this frame
+  referenceA4: number;
+  source: 'manual' | 'estimated';
+  estimate: TuningEstimate;
+}
+
+export interface AudioFrameData {
+  // Frame time in milliseconds, on the clock passed to processFrame
+  timestamp: number;
+  state: AudioState;
+  pitch: PitchData | null;
+  chroma: ChromaData | null;
+  amplitude: number;
+  noiseGateOpen: boolean;
+  harmonyAnalysis: HarmonyAnalysis | null;
+  // Tracked on every frame, with or without pitched content
+  rhythm: RhythmData;
+  tuning: TuningState;
+}
+
+// Runtime-adjustable analysis settings. Kept serialisable so they can be
+// posted to the analysis worker as-is.
+export interface FrameAnalyzerSettings {
+  polyphonicMode?: boolean;
+  noiseGateThreshold?: number;
+  pitchEstimator?: PitchEstimatorType;
+  // User-set tuning reference in Hz
+  referenceA4?: number;
+  // Follow the estimated tuning once it is confident, instead of referenceA4
+  autoTuning?: boolean;
+  chromaMethod?: ChromaMethod;
+  // Report separate bass and treble chroma alongside the full one
+  bassChroma?: boolean;
+  // Centre chroma on the estimated tuning even when notes are named against
+  // the manual reference
+  chromaTuningCompensation?: boolean;
+}
+
+export interface AnalyzerSnapshot {
+  state: AudioState;
+  noiseFloor: number;
+  gateThreshold: number;
+  tempo: number;
+  tuning: TuningState;
+}
+
+export interface FrameAnalyzerOptions {
+  // Per-frame debug logging; offline analysis turns this off
+  logging?: boolean;
+}
+
+const MIN_TUNING_CONFIDENCE = 0.6;
+
+// Stateful per-frame analysis (noise gate, pitch, chroma, rhythm, harmony).
+// It only sees time/frequency buffers and a frame time, so the same pipeline
+// runs on live AnalyserNode data and on decoded files.
+export class FrameAnalyzer {
+  private noiseFloor = -60;
+  private gateThreshold = -35;
+  private currentState = AudioState.IDLE;
+  private pitchHistory: PitchData[] = [];
+  private harmonicHistory: number[] = [];
+  private pitchStabilityHistory: number[] = [];
+  private frameTime = 0;
+  private logging: boolean;
+  
+  // Enhanced rhythm and harmony detection
+  private beatTracker = new BeatTracker();
+  private rhythm: RhythmData | null = null;
+  
+  // Note memory for single notes
+  private lastMelodyNote: string | null = null;
+  private lastMelodyNoteTime: number = 0;
+  private melodyNoteMemoryMs: number = 200;
+  
+  // Chord memory for smoothing
+  private lastChordNotes: string[] = [];
+  private lastChordTime: number = 0;
+  private chordMemoryMs: number = 50;
+
+  private noiseGate: NoiseGateConfig = { ...DEFAULT_NOISE_GATE };
+  private signalDetection: SignalDetectionConfig = { ...DEFAULT_SIGNAL_DETECTION };
+
+  // Polyphonic mode for audio song chord detection
+  private polyphonicMode: boolean = false;
+
+  private pitchEstimator: PitchEstimator = createPitchEstimator('autocorrelation');
+  private multiPitchEstimator = new MultiPitchEstimator();
+
+  // Tuning reference: the user's A4, or the estimate when autoTuning is on
+  private tuningEstimator = new TuningEstimator();
+  private manualReferenceA4 = DEFAULT_REFERENCE_A4;
+  private autoTuning = false;
+  private tuning: TuningState = {
+    referenceA4: DEFAULT_REFERENCE_A4,
+    source: 'manual',
+    estimate: this.tuningEstimator.getEstimate()
+  };
+
+  private chromaMethod: ChromaMethod = DEFAULT_CHROMA_METHOD;
+  private bassChroma = DEFAULT_CHROMA_OPTIONS.bassSplit;
+  private chromaTuningCompensation = true;
+  private chromaExtractor: ChromaExtractor;
+
+  constructor(private config: AudioConfig = DEFAULT_AUDIO_CONFIG, options: FrameAnalyzerOptions = {}) {
+    this.logging = options.logging ?? true;
+    this.chromaExtractor = this.createChromaExtractor();
+  }
+
+  // Analyse one frame. `time` is the frame time in milliseconds (wall clock
+  // for live input, position in the file for offline analysis).
+  processFrame(timeData: Float32Array, frequencyData: Float32Array, time: number): AudioFrameData {
+    this.frameTime = time;
+    this.tuning = this.resolveTuning();
+
+    this.chromaExtractor.observe(timeData, time);
+
+    const amplitude = this.calculateRMS(timeData);
+    const amplitudeDB = amplitude > 0 ? 20 * Math.log10(amplitude) : -90;
+    
+    this.updateNoiseFloor(amplitudeDB);
+    const gateOpen = this.applyNoiseGate(amplitudeDB);
+    const rhythmData = this.analyzeRhythm(frequencyData);
+    
+    let pitch: PitchData | null = null;
+    let chroma: ChromaData | null = null;
+    let harmonyAnalysis: HarmonyAnalysis | null = null;
+    let state = AudioState.IDLE;
+    
+    if (gateOpen) {
+      // Monophonic tracker for the primary pitch, multi-pitch estimator for
+      // everything sounding at once
+      const primaryPitch = this.detectPitch(timeData);
+      const notes = this.detectNotes(primaryPitch, frequencyData);
+      
+      if (notes.length > 0) {
+        this.tuningEstimator.update(frequencyData, this.config.sampleRate);
+        
+        pitch = primaryPitch ?? {
+          frequency: notes[0].frequency,
+          confidence: notes[0].confidence,
+          timestamp: this.frameTime
+        };
+        
+        // Separate melody and harmony
+        harmonyAnalysis = this.analyzeMelodyHarmony(notes, rhythmData);
+        
+        if (this.isMusicalContent(timeData, frequencyData, pitch)) {
+          chroma = this.chromaExtractor.extract(frequencyData, this.chromaReferenceA4());
+          state = AudioState.MUSICAL_INPUT;
+          
+          this.log(`Musical input - Melody: [${harmonyAnalysis.melodyNotes.join(', ')}], Chords: [${harmonyAnalysis.chordNotes.join(', ')}], Tempo: ${rhythmData.tempo.toFixed(0)} BPM`);
+        } else {
+          state = AudioState.NOISE_DETECTED;
+        }
+      } else {
+        state = AudioState.NOISE_DETECTED;
+      }
+    }
+    
+    this.currentState = state;
+    
+    return {
+      timestamp: this.frameTime,
+      state,
+      pitch,
+      chroma,
+      amplitude: amplitudeDB,
+      noiseGateOpen: gateOpen,
+      harmonyAnalysis,
+      rhythm: rhythmData,
+      tuning: this.tuning
+    };
+  }
+
+  reset(): void {
+    this.pitchHistory = [];
+    this.harmonicHistory = [];
+    this.pitchStabilityHistory = [];
+    this.beatTracker.reset();
+    this.rhythm = null;
+    this.currentState = AudioState.IDLE;
+    this.tuningEstimator.reset();
+    this.tuning = this.resolveTuning();
+    this.chromaExtractor.reset();
+  }
+
+  configure(settings: FrameAnalyzerSettings): void {
+    if (settings.polyphonicMode !== undefined) {
+      this.setPolyphonicMode(settings.polyphonicMode);
+    }
+    if (settings.noiseGateThreshold !== undefined) {
+      this.setNoiseGateThreshold(settings.noiseGateThreshold);
+    }
+    if (settings.pitchEstimator !== undefined && settings.pitchEstimator !== this.pitchEstimator.type) {
+      this.pitchEstimator = createPitchEstimator(settings.pitchEstimator);
+      this.pitchHistory = [];
+    }
+    if (settings.referenceA4 !== undefined) {
+      this.manualReferenceA4 = settings.referenceA4;
+    }
+    if (settings.autoTuning !== undefined) {
+      this.autoTuning = settings.autoTuning;
+    }
+    if (settings.chromaTuningCompensation !== undefined) {
+      this.chromaTuningCompensation = settings.chromaTuningCompensation;
+    }
+    if (
+      (settings.chromaMethod !== undefined && settings.chromaMethod !== this.chromaMethod) ||
+      (settings.bassChroma !== undefined && settings.bassChroma !== this.bassChroma)
+    ) {
+      this.chromaMethod = settings.chromaMethod ?? this.chromaMethod;
+      this.bassChroma = settings.bassChroma ?? this.bassChroma;
+      this.chromaExtractor = this.createChromaExtractor();
+    }
+    this.tuning = this.resolveTuning();
+  }
+
+  getSnapshot(): AnalyzerSnapshot {
+    return {
+      state: this.currentState,
+      noiseFloor: this.noiseFloor,
+      gateThreshold: this.gateThreshold,
+      tempo: this.getCurrentTempo(),
+      tuning: this.tuning
+    };
+  }
+
+  private resolveTuning(): TuningState {
+    const estimate = this.tuningEstimator.getEstimate();
+    if (this.autoTuning && estimate.confidence >= MIN_TUNING_CONFIDENCE) {
+      return { referenceA4: estimate.referenceA4, source: 'estimated', estimate };
+    }
+    return { referenceA4: this.manualReferenceA4, source: 'manual', estimate };
+  }
+
+  private createChromaExtractor(): ChromaExtractor {
+    return createChromaExtractor(this.chromaMethod, this.config.sampleRate, {
+      ...DEFAULT_CHROMA_OPTIONS,
+      bassSplit: this.bassChroma
+    });
+  }
+
+  // Chroma only cares where the music sits, not what the user calls A4
+  private chromaReferenceA4(): number {
+    const { estimate } = this.tuning;
+    if (this.chromaTuningCompensation && estimate.confidence >= MIN_TUNING_CONFIDENCE) {
+      return estimate.referenceA4;
+    }
+    return this.tuning.referenceA4;
+  }
+
+  private log(...args: unknown[]): void {
+    if (this.logging) console.log(...args);
+  }
+
+  private detectNotes(primaryPitch: PitchData | null, frequencyData: Float32Array): DetectedNote[] {
+    const notes = this.multiPitchEstimator.estimate(frequencyData, this.config.sampleRate, this.tuning.referenceA4);
+    if (notes.length > 0 || !primaryPitch) return notes;
+
+    // A quiet single line can fall under the spectral peak floor while the
+    // time-domain tracker still locks on; report it as a lone note
+    const note = this.frequencyToNote(primaryPitch.frequency);
+    return [{
+      midi: note.midi,
+      name: note.name,
+      octave: note.octave,
+      frequency: primaryPitch.frequency,
+      confidence: primaryPitch.confidence,
+      harmonicSupport: 0,
+      salience: 0
+    }];
+  }
+
+  private analyzeRhythm(frequencyData: Float32Array): RhythmData {
+    const beat = this.beatTracker.process(frequencyData, this.config.sampleRate, this.frameTime);
+
+    this.rhythm = {
+      // Report the conventional default until the tracker has a tempo
+      tempo: beat.tempo > 0 ? Math.round(beat.tempo) : 120,
+      tempoConfidence: beat.tempo > 0 ? beat.tempoConfidence : 0,
+      beatStrength: beat.onsetStrength,
+      onset: beat.onset,
+      timeSignature: beat.timeSignature,
+      beatsPerBar: beat.beatsPerBar,
+      currentBeat: beat.currentBeat,
+      isOnBeat: beat.isOnBeat,
+      beatTimes: beat.beatTimes,
+      downbeatTimes: beat.downbeatTimes
+    };
+    return this.rhythm;
+  }
+
+  private analyzeMelodyHarmony(notes: DetectedNote[], rhythmData: RhythmData): HarmonyAnalysis {
+    const currentTime = this.frameTime;
+    const melodyNotes: string[] = [];
+    const chordNotes: string[] = [];
+    
+    if (notes.length === 0) {
+      return {
+        melodyNotes,
+        chordNotes,
+        notes,
+        rhythmData,
+        harmonyType: 'none'
+      };
+    }
+    
+    try {
+      const noteData = notes.map(detected => {
+        // Debug log for every detected note
+        this.log(`[DEBUG] Detected note: ${detected.name}${detected.octave} (${detected.frequency.toFixed(2)} Hz, conf: ${detected.confidence.toFixed(2)}, harmonics: ${detected.harmonicSupport.toFixed(2)})`);
+        return {
+          note: detected.name,
+          frequency: detected.frequency,
+          confidence: detected.confidence,
+          octave: detected.octave
+        };
+      });
+      // Octave doublings are one chord tone
+      const uniqueNames = (items: typeof noteData) => [...new Set(items.map(n => n.note))];
+      
+      // Polyphonic mode: treat all strong detected notes as chord notes
+      if (this.polyphonicMode) {
+        const now = this.frameTime;
+        const strongNotes = noteData.filter(n => n.confidence > 0.05);
+        if (strongNotes.length >= 2) {
+          chordNotes.push(...uniqueNames(strongNotes));
+          this.lastChordNotes = chordNotes;
+          this.lastChordTime = now;
+          this.log(`[DEBUG][Polyphonic] Chord notes: ${chordNotes.join(', ')}`);
+        } else if (this.lastChordNotes.length >= 2 && now - this.lastChordTime < this.chordMemoryMs) {
+          // Use memory to reduce flicker
+          chordNotes.push(...this.lastChordNotes);
+          this.log(`[DEBUG][Polyphonic][Memory] Chord notes: ${chordNotes.join(', ')}`);
+        }
+        return {
+          melodyNotes: [],
+          chordNotes,
+          notes,
+          rhythmData,
+          harmonyType: 'chord'
+        };
+      }
+      
+      // Analyze playing pattern
+      if (noteData.length === 1) {
+        // Single note - likely melody
+        const detectedNote = noteData[0].note;
+        // Note memory logic
+        if (this.lastMelodyNote === detectedNote || this.lastMelodyNote === null) {
+          melodyNotes.push(detectedNote);
+          this.lastMelodyNote = detectedNote;
+          this.lastMelodyNoteTime = currentTime;
+        } else if (currentTime - this.lastMelodyNoteTime < this.melodyNoteMemoryMs) {
+          // Keep previous note active if within memory window
+          melodyNotes.push(this.lastMelodyNote);
+        } else {
+          melodyNotes.push(detectedNote);
+          this.lastMelodyNote = detectedNote;
+          this.lastMelodyNoteTime = currentTime;
+        }
+        return {
+          melodyNotes,
+          chordNotes,
+          notes,
+          rhythmData,
+          harmonyType: 'melody'
+        };
+      } else if (noteData.length >= 2) {
+        // Multiple notes - analyze for chord vs melody
+        
+        // Sort by frequency (bass to treble)
+        noteData.sort((a, b) => a.frequency - b.frequency);
+        
+        // Check if notes form chord intervals
+        const intervals = [];
+        for (let i = 1; i < noteData.length; i++) {
+          const semitones = this.calculateSemitones(noteData[i-1].frequency, noteData[i].frequency);
+          intervals.push(semitones);
+        }
+        
+        // Common chord intervals: 3rds (3-4 semitones), 4ths (5 semitones), 5ths (7 semitones)
+        const hasChordIntervals = intervals.some(interval => 
+          (interval >= 3 && interval <= 4) || // Major/minor 3rd
+          interval === 5 || // Perfect 4th
+          interval === 7    // Perfect 5th
+        );
+        
+        if (hasChordIntervals && noteData.length >= 3) {
+          // This is likely a chord (left hand)
+          chordNotes.push(...uniqueNames(noteData));
+          // Debug log for detected chord notes
+          this.log(`[DEBUG] Detected chord notes: ${noteData.map(n => `${n.note} (${n.frequency.toFixed(2)} Hz, conf: ${n.confidence.toFixed(2)})`).join(', ')}`);
+          
+          return {
+            melodyNotes,
+            chordNotes,
+            notes,
+            rhythmData,
+            harmonyType: 'chord'
+          };
+        } else {
+          // Multiple notes but not chord-like - could be melody with harmonies
+          // Highest note is likely melody, lower notes are harmony
+          const melodyNote = noteData[noteData.length - 1]; // Highest
+          const harmonyNotes = noteData.slice(0, -1); // Lower notes
+          
+          melodyNotes.push(melodyNote.note);
+          chordNotes.push(...uniqueNames(harmonyNotes).filter(name => name !== melodyNote.note));
+          // Debug log for detected chord notes (harmony)
+          if (chordNotes.length > 0) {
+            this.log(`[DEBUG] Detected harmony notes: ${harmonyNotes.map(n => `${n.note} (${n.frequency.toFixed(2)} Hz, conf: ${n.confidence.toFixed(2)})`).join(', ')}`);
+          }
+          return {
+            melodyNotes,
+            chordNotes,
+            notes,
+            rhythmData,
+            harmonyType: 'both'
+          };
+        }
+      }
+    } catch (error) {
+      console.error('Error in melody/harmony analysis:', error);
+    }
+    
+    return {
+      melodyNotes,
+      chordNotes,
+      notes,
+      rhythmData,
+      harmonyType: 'none'
+    };
+  }
+
+  private frequencyToNote(frequency: number): { name: string; octave: number; midi: number } {
+    const noteNames = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+    
+    const midiNumber = Math.round(12 * Math.log2(frequency / this.tuning.referenceA4) + 69);
+    const octave = Math.floor(midiNumber / 12) - 1;
+    const noteIndex = midiNumber % 12;
+    
+    return {
+      name: noteNames[noteIndex],
+      octave: Math.max(0, octave),
+      midi: midiNumber
+    };
+  }
+
+  private calculateSemitones(freq1: number, freq2: number): number {
+    return Math.round(12 * Math.log2(freq2 / freq1));
+  }
+
+  // Helper: Check for strong formant peaks (voice-like) in 300–3400 Hz
+  private hasStrongVoiceFormants(frequencyData: Float32Array): boolean {
+    const sampleRate = this.config.sampleRate;
+    const binCount = frequencyData.length;
+    const binWidth = sampleRate / (2 * binCount);
+    // Typical voice formant regions (Hz)
+    const formantBands = [
+      { min: 300, max: 800 },   // F1
+      { min: 1000, max: 1800 }, // F2
+      { min: 2000, max: 3400 }  // F3
+    ];
+    let totalFormantEnergy = 0;
+    let totalEnergy = 0;
+    for (let i = 0; i < binCount; i++) {
+      const freq = i * binWidth;
+      const magnitude = Math.pow(10, frequencyData[i] / 20);
+      totalEnergy += magnitude;
+      if (formantBands.some(b => freq >= b.min && freq <= b.max)) {
+        totalFormantEnergy += magnitude;
+      }
+    }
+    // If more than 40% of energy is in formant bands, likely voice
+    return totalEnergy > 0 && (totalFormantEnergy / totalEnergy) > 0.4;
+  }
+
+  // Helper: Check for high vibrato (rapid pitch changes)
+  private hasHighVibrato(): boolean {
+    if (this.pitchHistory.length < 6) return false;
+    // Calculate pitch difference between consecutive frames (in semitones)
+    let totalChange = 0;
+    let count = 0;
+    for (let i = 1; i < this.pitchHistory.length; i++) {
+      const prev = this.pitchHistory[i - 1];
+      const curr = this.pitchHistory[i];
+      if (prev && curr) {
+        const diff = Math.abs(12 * Math.log2(curr.frequency / prev.frequency));
+        totalChange += diff;
+        count++;
+      }
+    }
+    const avgChange = count > 0 ? totalChange / count : 0;
+    // If average change > 0.5 semitones per frame, treat as vibrato (voice-like)
+    return avgChange > 0.5;
+  }
+
+  private isMusicalContent(timeData: Float32Array, frequencyData: Float32Array, pitch: PitchData): boolean {
+    const harmonicRatio = this.analyzeHarmonicContent(frequencyData, pitch.frequency);
+    this.harmonicHistory.push(harmonicRatio);
+    if (this.harmonicHistory.length > 6) this.harmonicHistory.shift();
+    const pitchStability = this.measurePitchStability(pitch);
+    this.pitchStabilityHistory.push(pitchStability);
+    if (this.pitchStabilityHistory.length > 8) this.pitchStabilityHistory.shift();
+    const spectralCentroid = this.calculateSpectralCentroid(frequencyData);
+    const zeroCrossingRate = this.calculateZeroCrossingRate(timeData);
+    const sustainedTone = this.detectSustainedTone();
+    const avgHarmonic = this.harmonicHistory.length > 0 ? 
+      this.harmonicHistory.reduce((a, b) => a + b, 0) / this.harmonicHistory.length : 0;
+    const avgStability = this.pitchStabilityHistory.length > 0 ? 
+      this.pitchStabilityHistory.reduce((a, b) => a + b, 0) / this.pitchStabilityHistory.length : 0;
+    const isHarmonic = avgHarmonic > this.signalDetection.harmonicThreshold;
+    const isStable = avgStability > this.signalDetection.pitchStability;
+    const isInMusicalRange = spectralCentroid > this.signalDetection.spectralCentroid.minVocal && 
+                            spectralCentroid < this.signalDetection.spectralCentroid.maxPiano;
+    const isNotSpeechLike = zeroCrossingRate < 0.12;
+    const isSustained = sustainedTone;
+    // Advanced voice filtering:
+    // 1. Ignore if strong formant peaks (voice-like)
+    if (this.hasStrongVoiceFormants(frequencyData)) return false;
+    // 2. Ignore if high vibrato (voice-like)
+    if (this.hasHighVibrato()) return false;
+    // 3. Ignore if spectral centroid is in typical voice range and zero-crossing rate is high
+    if (spectralCentroid > 150 && spectralCentroid < 1200 && zeroCrossingRate > 0.12) return false;
+    // Combine all conditions
+    const conditions = [isHarmonic, isStable, isInMusicalRange, isNotSpeechLike, isSustained];
+    const passedConditions = conditions.filter(Boolean).length;
+    return passedConditions >= 3;
+  }
+
+  private analyzeHarmonicContent(frequencyData: Float32Array, fundamentalFreq: number): number {
+    const sampleRate = this.config.sampleRate;
+    const binCount = frequencyData.length;
+    const binWidth = sampleRate / (2 * binCount);
+    
+    let harmonicEnergy = 0;
+    let totalEnergy = 0;
+    
+    for (let harmonic = 1; harmonic <= 5; harmonic++) {
+      const harmonicFreq = fundamentalFreq * harmonic;
+      const binIndex = Math.round(harmonicFreq / binWidth);
+      
+      if (binIndex < binCount && binIndex > 0) {
+        const magnitude = Math.pow(10, frequencyData[binIndex] / 20);
+        harmonicEnergy += magnitude;
+      }
+    }
+    
+    const minBin = Math.max(1, Math.floor(this.config.minFreq / binWidth));
+    const maxBin = Math.min(binCount - 1, Math.floor(this.config.maxFreq / binWidth));
+    
+    for (let i = minBin; i <= maxBin; i++) {
+      const magnitude = Math.pow(10, frequencyData[i] / 20);
+      totalEnergy += magnitude;
+    }
+    
+    return totalEnergy > 0 ? harmonicEnergy / totalEnergy : 0;
+  }
+
+  private measurePitchStability(currentPitch: PitchData): number {
+    this.pitchHistory.push(currentPitch);
+    if (this.pitchHistory.length > 12) {
+      this.pitchHistory.shift();
+    }
+    
+    if (this.pitchHistory.length < 3) return 0;
+    
+    const frequencies = this.pitchHistory.map(p => p.frequency);
+    const mean = frequencies.reduce((sum, f) => sum + f, 0) / frequencies.length;
+    const variance = frequencies.reduce((sum, f) => sum + Math.pow(f - mean, 2), 0) / frequencies.length;
+    const standardDeviation = Math.sqrt(variance);
+    
+    const relativeStability = mean > 0 ? 1 - Math.min(1, standardDeviation / mean) : 0;
+    return Math.max(0, relativeStability);
+  }
+
+  private calculateSpectralCentroid(frequencyData: Float32Array): number {
+    const sampleRate = this.config.sampleRate;
+    const binCount = frequencyData.length;
+    
+    let weightedSum = 0;
+    let magnitudeSum = 0;
+    
+    for (let i = 1; i < binCount; i++) {
+      const frequency = (i * sampleRate) / (2 * binCount);
+      const magnitude = Math.pow(10, frequencyData[i] / 20);
+      
+      if (magnitude > 0.001) {
+        weightedSum += frequency * magnitude;
+        magnitudeSum += magnitude;
+      }
+    }
+    
+    return magnitudeSum > 0 ? weightedSum / magnitudeSum : 0;
+  }
+
+  private calculateZeroCrossingRate(timeData: Float32Array): number {
+    let crossings = 0;
+    
+    for (let i = 1; i < timeData.length; i++) {
+      if ((timeData[i] >= 0) !== (timeData[i - 1] >= 0)) {
+        crossings++;
+      }
+    }
+    
+    return crossings / timeData.length;
+  }
+
+  private detectSustainedTone(): boolean {
+    if (this.pitchHistory.length < 4) return false;
+    
+    const recentPitches = this.pitchHistory.slice(-6);
+    const avgConfidence = recentPitches.reduce((sum, p) => sum + p.confidence, 0) / recentPitches.length;
+    
+    return avgConfidence > 0.4;
+  }
+
+
+  private calculateRMS(buffer: Float32Array): number {
+    let sum = 0;
+    for (let i = 0; i < buffer.length; i++) {
+      sum += buffer[i] * buffer[i];
+    }
+    return Math.sqrt(sum / buffer.length);
+  }
+
+  private updateNoiseFloor(amplitudeDB: number): void {
+    const alpha = 0.001;
+    this.noiseFloor = this.noiseFloor * (1 - alpha) + amplitudeDB * alpha;
+  }
+
+  private applyNoiseGate(amplitudeDB: number): boolean {
+    const threshold = Math.max(this.noiseFloor + 8, this.noiseGate.thresholdMin);
+    return amplitudeDB > threshold;
+  }
+
+  private detectPitch(timeData: Float32Array): PitchData | null {
+    const estimate = this.pitchEstimator.estimate(timeData, this.config.sampleRate, {
+      minFreq: this.config.minFreq,
+      maxFreq: 2000
+    });
+    
+    if (!estimate) return null;
+    
+    if (estimate.frequency < 50 || estimate.frequency > 2000) return null;
+    
+    return {
+      frequency: estimate.frequency,
+      confidence: estimate.confidence,
+      timestamp: this.frameTime,
+      voicingProbability: estimate.voicingProbability
+    };
+  }
+
+  getState(): AudioState {
+    return this.currentState;
+  }
+
+  getNoiseFloor(): number {
+    return this.noiseFloor;
+  }
+
+  getGateThreshold(): number {
+    return this.gateThreshold;
+  }
+
+  setGateThreshold(threshold: number): void {
+    this.gateThreshold = Math.max(this.noiseGate.thresholdMin, Math.min(this.noiseGate.thresholdMax, threshold));
+  }
+
+  // New methods for rhythm and harmony access
+  getCurrentTempo(): number {
+    return this.rhythm?.tempo ?? 120;
+  }
+
+  // Allow dynamic adjustment of noise gate threshold
+  public setNoiseGateThreshold(threshold: number): void {
+    this.noiseGate.thresholdMin = threshold;
+  }
+
+  // Public method to set polyphonic mode
+  public setPolyphonicMode(enabled: boolean): void {
+    this.polyphonicMode = enabled;
+  }
+}
@@ -1,18 +1,191 @@
-import { ChromaData, KeyDetectionResult } from '../types/audio';
+import { ChromaData, KeyAmbiguity, KeyCandidate, KeyDetectionResult, KeyRelation } from '../types/audio';
+import { KeyMode } from '../types/music';
+import { DEFAULT_KEY_PROFILE, KeyProfile, getModeProfile } from './keyProfiles';
+import { MODE_INTERVALS } from './musicTheory';
 
-// Krumhansl-Schmuckler key profiles
-const KEY_PROFILES = {
-  major: [6.35, 2.23, 3.48, 2.33, 4.38, 4.09, 2.52, 5.19, 2.39, 3.66, 2.29, 2.88],
-  minor: [6.33, 2.68, 3.52, 5.38, 2.60, 3.53, 2.54, 4.75, 3.98, 2.69, 3.34, 3.17]
+export const NOTE_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+
+// Softmax temperature turning correlations into key probabilities. Profile
+// correlations of the right key and its neighbours differ by a few hundredths.
+const SCORE_TEMPERATURE = 0.05;
+// Related keys scoring within this much of the chosen key are reported
+const AMBIGUITY_MARGIN = 0.1;
+const TOP_CANDIDATES = 5;
+
+// Which modes detection chooses between. Every extra mode splits the evidence
+// for a pitch collection between more tonics, so modal detection is opt-in.
+export interface KeyModeSet {
+  id: string;
+  label: string;
+  modes: KeyMode[];
+}
+
+export const KEY_MODE_SETS: KeyModeSet[] = [
+  { id: 'major-minor', label: 'Major / minor', modes: ['major', 'minor'] },
+  {
+    id: 'church',
+    label: 'Church modes',
+    modes: ['major', 'dorian', 'phrygian', 'lydian', 'mixolydian', 'minor', 'locrian']
+  },
+  {
+    id: 'all',
+    label: 'Church modes + harmonic/melodic minor',
+    modes: ['major', 'dorian', 'phrygian', 'lydian', 'mixolydian', 'minor', 'locrian', 'harmonic-minor', 'melodic-minor']
+  }
+];
+
+export const DEFAULT_KEY_MODES = KEY_MODE_SETS[0].modes;
+
+interface KeyRef {
+  key: string;
+  mode: KeyMode;
+}
+
+export interface KeyScore extends KeyRef {
+  // Pearson correlation between the chroma and the rotated key profile
+  score: number;
+}
+
+function calculateKeyScore(chroma: number[], root: number, profile: number[]): number {
+  let correlation = 0;
+  let chromaSum = 0;
+  let profileSum = 0;
+  let chromaMean = 0;
+  let profileMean = 0;
+
+  // Calculate means
+  for (let i = 0; i < 12; i++) {
+    const chromaIndex = (i + root) % 12;
+    chromaMean += chroma[chromaIndex];
+    profileMean += profile[i];
+  }
+  chromaMean /= 12;
+  profileMean /= 12;
+
+  // Calculate correlation
+  for (let i = 0; i < 12; i++) {
+    const chromaIndex = (i + root) % 12;
+    const chromaVal = chroma[chromaIndex] - chromaMean;
+    const profileVal = profile[i] - profileMean;
+    
+    correlation += chromaVal * profileVal;
+    chromaSum += chromaVal * chromaVal;
+    profileSum += profileVal * profileVal;
+  }
+
+  // Pearson correlation coefficient
+  if (chromaSum === 0 || profileSum === 0) return 0;
+  return correlation / (Math.sqrt(chromaSum) * Math.sqrt(profileSum));
+}
+
+// Correlation of a chroma vector with every tonic in every mode, ordered
+// root-first: C major, C minor, C# major, ... for the default modes
+export function scoreAllKeys(
+  chroma: number[],
+  profile: KeyProfile = DEFAULT_KEY_PROFILE,
+  modes: KeyMode[] = DEFAULT_KEY_MODES
+): KeyScore[] {
+  const weights = modes.map(mode => getModeProfile(profile, mode));
+  const scores: KeyScore[] = [];
+  for (let root = 0; root < 12; root++) {
+    modes.forEach((mode, i) => {
+      scores.push({ key: NOTE_NAMES[root], mode, score: calculateKeyScore(chroma, root, weights[i]) });
+    });
+  }
+  return scores;
+}
+
+// All keys ranked by correlation, with softmax probabilities
+export function rankKeys(
+  chroma: number[],
+  profile: KeyProfile = DEFAULT_KEY_PROFILE,
+  modes: KeyMode[] = DEFAULT_KEY_MODES
+): KeyCandidate[] {
+  const scores = scoreAllKeys(chroma, profile, modes);
+  const best = Math.max(...scores.map(({ score }) => score));
+  const weights = scores.map(({ score }) => Math.exp((score - best) / SCORE_TEMPERATURE));
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+
+  return scores
+    .map((score, i) => ({ ...score, probability: weights[i] / total }))
+    .sort((a, b) => b.score - a.score);
+}
+
+const pitchCollection = ({ key, mode }: KeyRef) => {
+  const tonic = NOTE_NAMES.indexOf(key);
+  return MODE_INTERVALS[mode].map(interval => (tonic + interval) % 12).sort((a, b) => a - b).join(',');
 };
 
-const NOTE_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+function relationBetween(chosen: KeyRef, other: KeyRef): KeyRelation | null {
+  const interval = (NOTE_NAMES.indexOf(other.key) - NOTE_NAMES.indexOf(chosen.key) + 12) % 12;
+  if (chosen.mode !== other.mode) {
+    if (interval === 0) return 'parallel';
+    // Same notes, different tonic: relative major/minor, or modes of one scale
+    if (pitchCollection(chosen) === pitchCollection(other)) return 'relative';
+    return null;
+  }
+  if (interval === 7) return 'dominant';
+  if (interval === 5) return 'subdominant';
+  return null;
+}
+
+// Relative, parallel, dominant and subdominant keys that came close to (or
+// beat) the chosen key. These are the classic profile-matching confusions.
+export function findAmbiguities(
+  chosen: KeyRef,
+  ranked: KeyCandidate[]
+): KeyAmbiguity[] {
+  const chosenScore = ranked.find(c => c.key === chosen.key && c.mode === chosen.mode)?.score;
+  if (chosenScore === undefined) return [];
+
+  const ambiguities: KeyAmbiguity[] = [];
+  ranked.forEach(candidate => {
+    const relation = relationBetween(chosen, candidate);
+    const margin = chosenScore - candidate.score;
+    if (relation && margin < AMBIGUITY_MARGIN) {
+      ambiguities.push({ relation, key: candidate.key, mode: candidate.mode, margin });
+    }
+  });
+  return ambiguities;
+}
+
+// Top of a ranking, always including the chosen key
+export function topCandidates(
+  chosen: KeyRef,
+  ranked: KeyCandidate[],
+  count = TOP_CANDIDATES
+): KeyCandidate[] {
+  const top = ranked.slice(0, count);
+  if (top.some(c => c.key === chosen.key && c.mode === chosen.mode)) return top;
+  const own = ranked.find(c => c.key === chosen.key && c.mode === chosen.mode);
+  return own ? [...top.slice(0, count - 1), own] : top;
+}
 
 export class KeyDetector {
   private keyHistory: KeyDetectionResult[] = [];
   private readonly historyLength = 5;
   private readonly confidenceThreshold = 0.05; // Very low threshold
 
+  constructor(
+    private profile: KeyProfile = DEFAULT_KEY_PROFILE,
+    private modes: KeyMode[] = DEFAULT_KEY_MODES
+  ) {}
+
+  // Switching profile starts over; scores from different profiles don't mix
+  setProfile(profile: KeyProfile): void {
+    this.profile = profile;
+    this.reset();
+  }
+
+  getProfile(): KeyProfile {
+    return this.profile;
+  }
+
+  setModes(modes: KeyMode[]): void {
+    this.modes = modes;
+    this.reset();
+  }
+
   detectKey(chroma: ChromaData): KeyDetectionResult | null {
     if (!chroma || !chroma.vector || chroma.vector.length !== 12) {
       console.log('Invalid chroma data:', chroma);
@@ -26,27 +199,18 @@ export class KeyDetector {
       return null;
     }
 
-    let bestKey = '';
-    let bestMode: 'major' | 'minor' = 'major';
-    let bestScore = -Infinity;
-
     console.log('Analyzing chroma vector:', chroma.vector.map(v => v.toFixed(3)));
 
-    // Test all 24 keys (12 major + 12 minor)
-    for (let root = 0; root < 12; root++) {
-      for (const mode of ['major', 'minor'] as const) {
-        const score = this.calculateKeyScore(chroma.vector, root, mode);
-        if (score > bestScore) {
-          bestScore = score;
-          bestKey = NOTE_NAMES[root];
-          bestMode = mode;
-        }
-      }
-    }
+    // Test every tonic in every enabled mode
+    const ranked = rankKeys(chroma.vector, this.profile, this.modes);
+    const best = ranked[0];
 
-    console.log(`Best key detected: ${bestKey} ${bestMode} with score: ${bestScore.toFixed(3)}`);
+    console.log(`Best key detected: ${best.key} ${best.mode} with score: ${best.score.toFixed(3)}` +
+      (ranked[1] ? `, runner-up ${ranked[1].key} ${ranked[1].mode} (${ranked[1].score.toFixed(3)})` : ''));
 
-    const confidence = this.normalizeScore(bestScore);
+    // Probability rather than raw correlation, so a near tie with another
+    // key reads as the coin toss it is
+    const confidence = best.score > 0 ? best.probability : 0;
     
     if (confidence < this.confidenceThreshold) {
       console.log(`Confidence too low: ${confidence.toFixed(3)}`);
@@ -54,10 +218,13 @@ export class KeyDetector {
     }
 
     const result: KeyDetectionResult = {
-      key: bestKey,
-      mode: bestMode,
+      key: best.key,
+      mode: best.mode,
       confidence,
-      chroma
+      chroma,
+      candidates: topCandidates(best, ranked),
+      ambiguities: findAmbiguities(best, ranked),
+      profile: this.profile.id
     };
 
     // Add to history and smooth
@@ -65,44 +232,6 @@ export class KeyDetector {
     return this.getSmoothedResult();
   }
 
-  private calculateKeyScore(chroma: number[], root: number, mode: 'major' | 'minor'): number {
-    const profile = KEY_PROFILES[mode];
-    let correlation = 0;
-    let chromaSum = 0;
-    let profileSum = 0;
-    let chromaMean = 0;
-    let profileMean = 0;
-
-    // Calculate means
-    for (let i = 0; i < 12; i++) {
-      const chromaIndex = (i + root) % 12;
-      chromaMean += chroma[chromaIndex];
-      profileMean += profile[i];
-    }
-    chromaMean /= 12;
-    profileMean /= 12;
-
-    // Calculate correlation
-    for (let i = 0; i < 12; i++) {
-      const chromaIndex = (i + root) % 12;
-      const chromaVal = chroma[chromaIndex] - chromaMean;
-      const profileVal = profile[i] - profileMean;
-      
-      correlation += chromaVal * profileVal;
-      chromaSum += chromaVal * chromaVal;
-      profileSum += profileVal * profileVal;
-    }
-
-    // Pearson correlation coefficient
-    if (chromaSum === 0 || profileSum === 0) return 0;
-    return correlation / (Math.sqrt(chromaSum) * Math.sqrt(profileSum));
-  }
-
-  private normalizeScore(score: number): number {
-    // Convert correlation to confidence percentage
-    return Math.max(0, Math.min(1, (score + 1) / 2));
-  }
-
   private addToHistory(result: KeyDetectionResult): void {
     this.keyHistory.push(result);
     if (this.keyHistory.length > this.historyLength) {
@@ -145,11 +274,17 @@ export class KeyDetector {
     // Calculate smoothed confidence
     const confidence = Math.min(1, (maxCount / this.historyLength) * latestResult.confidence);
 
+    // Rank against the latest chroma, relative to the smoothed choice
+    const chosen = { key, mode: mode as KeyMode };
+    const ranked = rankKeys(latestResult.chroma.vector, this.profile, this.modes);
+
     return {
-      key,
-      mode: mode as 'major' | 'minor',
+      ...chosen,
       confidence,
-      chroma: latestResult.chroma
+      chroma: latestResult.chroma,
+      candidates: topCandidates(chosen, ranked),
+      ambiguities: findAmbiguities(chosen, ranked),
+      profile: this.profile.id
     };
   }
 
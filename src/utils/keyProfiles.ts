@@ -0,0 +1,182 @@
+import { KeyMode } from '../types/music';
+import { MODE_INTERVALS } from './musicTheory';
+
+// Key profiles: the expected weight of each scale degree (tonic first) in a
+// major and a minor key. Each family was derived from a different corpus or
+// listening experiment, and they disagree most on the minor mode and on how
+// much the leading tone and the subdominant matter.
+export interface KeyProfile {
+  id: string;
+  name: string;
+  major: number[];
+  minor: number[];
+  // Explicit weights for other modes; otherwise derived from major/minor
+  modes?: Partial<Record<KeyMode, number[]>>;
+  // Loaded from JSON or learned, rather than built in
+  custom?: boolean;
+}
+
+export const KEY_PROFILES: KeyProfile[] = [
+  {
+    // Probe-tone ratings (Krumhansl & Kessler 1982)
+    id: 'krumhansl',
+    name: 'Krumhansl–Schmuckler',
+    major: [6.35, 2.23, 3.48, 2.33, 4.38, 4.09, 2.52, 5.19, 2.39, 3.66, 2.29, 2.88],
+    minor: [6.33, 2.68, 3.52, 5.38, 2.60, 3.53, 2.54, 4.75, 3.98, 2.69, 3.34, 3.17]
+  },
+  {
+    // Kostka–Payne textbook excerpts (Temperley 2007)
+    id: 'temperley',
+    name: 'Temperley',
+    major: [5.0, 2.0, 3.5, 2.0, 4.5, 4.0, 2.0, 4.5, 2.0, 3.5, 1.5, 4.0],
+    minor: [5.0, 2.0, 3.5, 4.5, 2.0, 4.0, 2.0, 4.5, 3.5, 2.0, 1.5, 4.0]
+  },
+  {
+    // Folk melodies from the Essen collection (Aarden 2003)
+    id: 'aarden-essen',
+    name: 'Aarden–Essen',
+    major: [17.7661, 0.145624, 14.9265, 0.160186, 19.8049, 11.3587, 0.291248, 22.062, 0.145624, 8.15494, 0.232998, 4.95122],
+    minor: [18.2648, 0.737619, 14.0499, 16.8599, 0.702494, 14.4362, 0.702494, 18.6161, 4.56621, 1.93186, 7.37619, 1.75623]
+  },
+  {
+    // Duration-weighted pitch classes in common-practice scores (Albrecht & Shanahan 2013)
+    id: 'albrecht-shanahan',
+    name: 'Albrecht–Shanahan',
+    major: [0.238, 0.006, 0.111, 0.006, 0.137, 0.094, 0.016, 0.214, 0.009, 0.080, 0.008, 0.081],
+    minor: [0.220, 0.006, 0.104, 0.123, 0.019, 0.103, 0.012, 0.214, 0.062, 0.022, 0.061, 0.052]
+  },
+  {
+    // Chord-based counts over several centuries of repertoire (Bellman 2005)
+    id: 'bellman-budge',
+    name: 'Bellman–Budge',
+    major: [16.80, 0.86, 12.95, 1.41, 13.49, 11.93, 1.25, 20.28, 1.80, 8.04, 0.62, 10.57],
+    minor: [18.16, 0.69, 12.99, 13.34, 1.07, 11.15, 1.38, 21.07, 7.49, 1.53, 0.92, 10.21]
+  }
+];
+
+export const DEFAULT_KEY_PROFILE = KEY_PROFILES[0];
+
+// Weights for any mode. Modes without their own profile borrow the weights
+// of major (if their third is major) or minor by scale degree: a Dorian
+// tonic weighs what a minor tonic does, its sixth what the minor sixth does,
+// and notes outside the mode get the average non-scale weight.
+export function getModeProfile(profile: KeyProfile, mode: KeyMode): number[] {
+  if (mode === 'major') return profile.major;
+  if (mode === 'minor') return profile.minor;
+  const explicit = profile.modes?.[mode];
+  if (explicit) return explicit;
+
+  const intervals = MODE_INTERVALS[mode];
+  const baseMode = intervals[2] === 4 ? 'major' : 'minor';
+  const base = profile[baseMode];
+  const baseIntervals = MODE_INTERVALS[baseMode];
+
+  const outside = base.filter((_, pitchClass) => !baseIntervals.includes(pitchClass));
+  const outsideWeight = outside.reduce((sum, weight) => sum + weight, 0) / outside.length;
+
+  const weights = new Array(12).fill(outsideWeight);
+  intervals.forEach((interval, degree) => {
+    weights[interval] = base[baseIntervals[degree]];
+  });
+  return weights;
+}
+
+const isProfileVector = (value: unknown): value is number[] =>
+  Array.isArray(value) &&
+  value.length === 12 &&
+  value.every(weight => typeof weight === 'number' && isFinite(weight) && weight >= 0) &&
+  value.some(weight => weight > 0);
+
+const slugify = (name: string) => name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+// Custom profiles as JSON: one object or an array of them, each
+// `{ "name": "...", "major": [12 weights], "minor": [12 weights] }` with the
+// tonic first, plus optional vectors for other modes (`"dorian": [...]`).
+// Throws with a readable message if the file doesn't fit.
+export function parseKeyProfiles(json: string): KeyProfile[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('Key profile file is not valid JSON');
+  }
+
+  const entries = Array.isArray(data) ? data : [data];
+  if (entries.length === 0) {
+    throw new Error('Key profile file contains no profiles');
+  }
+
+  return entries.map((entry, index) => {
+    const { name, id, major, minor } = (entry ?? {}) as Record<string, unknown>;
+    const label = typeof name === 'string' && name.trim() ? name.trim() : `Custom profile ${index + 1}`;
+    if (!isProfileVector(major) || !isProfileVector(minor)) {
+      throw new Error(`${label}: "major" and "minor" must each be 12 non-negative numbers, tonic first`);
+    }
+
+    const modes: Partial<Record<KeyMode, number[]>> = {};
+    (Object.keys(MODE_INTERVALS) as KeyMode[]).forEach(mode => {
+      if (mode === 'major' || mode === 'minor') return;
+      const weights = (entry as Record<string, unknown>)[mode];
+      if (weights === undefined) return;
+      if (!isProfileVector(weights)) {
+        throw new Error(`${label}: "${mode}" must be 12 non-negative numbers, tonic first`);
+      }
+      modes[mode] = [...weights];
+    });
+
+    return {
+      id: `custom-${typeof id === 'string' && id ? slugify(id) : slugify(label)}`,
+      name: label,
+      major: [...major],
+      minor: [...minor],
+      modes,
+      custom: true
+    };
+  });
+}
+
+export interface TaggedChroma {
+  // Chroma indexed from C
+  vector: number[];
+  // Tonic as a pitch class (0 = C)
+  tonic: number;
+  mode: KeyMode;
+}
+
+// Average the chroma of recordings whose key is known, rotated so the tonic
+// comes first. With enough examples per mode this gives a profile tuned to
+// the repertoire it was learned from. Modal examples become explicit
+// profiles for their modes.
+export function learnKeyProfile(name: string, examples: TaggedChroma[]): KeyProfile {
+  const sums: Partial<Record<KeyMode, number[]>> = {};
+  const counts: Partial<Record<KeyMode, number>> = {};
+
+  examples.forEach(({ vector, tonic, mode }) => {
+    const total = vector.reduce((sum, value) => sum + value, 0);
+    if (vector.length !== 12 || total <= 0) return;
+    const modeSums = sums[mode] ?? (sums[mode] = new Array(12).fill(0));
+    for (let degree = 0; degree < 12; degree++) {
+      modeSums[degree] += vector[(tonic + degree) % 12] / total;
+    }
+    counts[mode] = (counts[mode] ?? 0) + 1;
+  });
+
+  if (!sums.major || !sums.minor) {
+    throw new Error('Learning a key profile needs at least one major and one minor example');
+  }
+
+  const average = (mode: KeyMode) => sums[mode]!.map(sum => sum / counts[mode]!);
+  const modes: Partial<Record<KeyMode, number[]>> = {};
+  (Object.keys(sums) as KeyMode[]).forEach(mode => {
+    if (mode !== 'major' && mode !== 'minor') modes[mode] = average(mode);
+  });
+
+  return {
+    id: `custom-${slugify(name)}`,
+    name,
+    major: average('major'),
+    minor: average('minor'),
+    modes,
+    custom: true
+  };
+}
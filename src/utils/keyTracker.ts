@@ -0,0 +1,337 @@
+import { ChromaData, KeyDetectionResult, KeyModulation, KeySegment } from '../types/audio';
+import { KeyMode } from '../types/music';
+import { DEFAULT_KEY_MODES, NOTE_NAMES, findAmbiguities, rankKeys, scoreAllKeys, topCandidates } from './keyDetection';
+import { DEFAULT_KEY_PROFILE, KeyProfile } from './keyProfiles';
+
+export interface KeyTrackerConfig {
+  // Chroma is averaged over steps of this length before decoding
+  stepSeconds: number;
+  // Log-score cost of changing key between two steps
+  switchPenalty: number;
+  // Scales key-profile correlation into a log score per step
+  emissionGain: number;
+  // Steps a decision may still be revised before it enters the timeline
+  commitLagSteps: number;
+  profile: KeyProfile;
+  // Modes to decode between; the state space is every tonic in each
+  modes: KeyMode[];
+}
+
+const DEFAULT_KEY_TRACKER_CONFIG: KeyTrackerConfig = {
+  stepSeconds: 0.25,
+  switchPenalty: 20,
+  emissionGain: 4,
+  commitLagSteps: 24, // 6 s
+  profile: DEFAULT_KEY_PROFILE,
+  modes: DEFAULT_KEY_MODES
+};
+// Memory of the chroma used to rank candidate keys, in seconds
+const RANKING_TIME_CONSTANT = 6;
+
+interface PendingStep {
+  start: number;
+  end: number;
+  // Best predecessor of each key at this step
+  backPointers: Uint8Array;
+  scores: number[];
+}
+
+// Tonic movement between two keys, folded into -5..+6 semitones
+const tonicInterval = (from: string, to: string) => {
+  const up = (NOTE_NAMES.indexOf(to) - NOTE_NAMES.indexOf(from) + 12) % 12;
+  return up > 6 ? up - 12 : up;
+};
+
+// Key changes between consecutive segments of a timeline
+export function findModulations(timeline: KeySegment[]): KeyModulation[] {
+  const modulations: KeyModulation[] = [];
+  for (let i = 1; i < timeline.length; i++) {
+    const from = timeline[i - 1];
+    const to = timeline[i];
+    if (from.key === to.key && from.mode === to.mode) continue;
+    modulations.push({
+      time: to.start,
+      from: { key: from.key, mode: from.mode },
+      to: { key: to.key, mode: to.mode },
+      semitones: tonicInterval(from.key, to.key)
+    });
+  }
+  return modulations;
+}
+
+// The part of a timeline between two times, shifted so `from` becomes zero
+export function clipKeyTimeline(timeline: KeySegment[], from: number, to: number): KeySegment[] {
+  return timeline
+    .filter(segment => segment.end > from && segment.start < to)
+    .map(segment => ({
+      ...segment,
+      start: Math.max(segment.start, from) - from,
+      end: Math.min(segment.end, to) - from
+    }));
+}
+
+// The key held for longest over a timeline, e.g. for a whole-session key
+// signature when the piece modulates
+export function predominantKey(timeline: KeySegment[]): { key: string; mode: KeyMode } | null {
+  const durations = new Map<string, { key: string; mode: KeyMode; seconds: number }>();
+  timeline.forEach(segment => {
+    const id = `${segment.key} ${segment.mode}`;
+    const entry = durations.get(id) ?? { key: segment.key, mode: segment.mode, seconds: 0 };
+    entry.seconds += segment.end - segment.start;
+    durations.set(id, entry);
+  });
+
+  let best: { key: string; mode: KeyMode; seconds: number } | null = null;
+  for (const entry of durations.values()) {
+    if (!best || entry.seconds > best.seconds) best = entry;
+  }
+  return best ? { key: best.key, mode: best.mode } : null;
+}
+
+// Segments a performance by key. Chroma is pooled into short steps and
+// decoded with an online Viterbi over the keys (24 for major/minor): every step
+// scores each key by its profile correlation, and changing key costs a fixed
+// penalty, so only sustained evidence moves the decision. Passing chords
+// (a IV or V held for a bar) don't register; a modulation does, a second or
+// two after it happens. Decisions older than the commit lag are frozen into
+// the timeline and produce modulation events.
+export class KeyTracker {
+  private config: KeyTrackerConfig;
+  private delta: number[] | null = null;
+  private pending: PendingStep[] = [];
+  private committed: KeySegment[] = [];
+  private committedScore = { sum: 0, count: 0 };
+  private modulations: KeyModulation[] = [];
+  private timeline: KeySegment[] = [];
+  private current: KeyDetectionResult | null = null;
+
+  private stepStart: number | null = null;
+  private stepChroma = new Array(12).fill(0);
+  private stepFrames = 0;
+  private lastChroma: ChromaData | null = null;
+  private recentChroma = new Array(12).fill(0);
+
+  constructor(config: Partial<KeyTrackerConfig> = {}) {
+    this.config = { ...DEFAULT_KEY_TRACKER_CONFIG, ...config };
+  }
+
+  // Feed one frame's chroma; `time` in seconds. Returns the current key,
+  // which only changes when a step completes.
+  update(chroma: ChromaData, time: number): KeyDetectionResult | null {
+    if (!chroma || chroma.vector.length !== 12) return this.current;
+
+    if (this.stepStart === null) this.stepStart = time;
+    if (time - this.stepStart >= this.config.stepSeconds && this.stepFrames > 0) {
+      this.decodeStep(this.stepStart, time);
+      this.stepStart = time;
+      this.stepChroma.fill(0);
+      this.stepFrames = 0;
+    }
+
+    chroma.vector.forEach((value, i) => { this.stepChroma[i] += value; });
+    this.stepFrames++;
+    this.lastChroma = chroma;
+    return this.current;
+  }
+
+  // Decode the partly filled step, e.g. when a file ends
+  flush(time: number): KeyDetectionResult | null {
+    if (this.stepStart !== null && this.stepFrames > 0 && time > this.stepStart) {
+      this.decodeStep(this.stepStart, time);
+    }
+    this.stepStart = null;
+    this.stepChroma.fill(0);
+    this.stepFrames = 0;
+    return this.current;
+  }
+
+  // Applies from the next step on. The timeline so far is kept: decisions
+  // already made under the old profile stay as they were.
+  setProfile(profile: KeyProfile): void {
+    this.config = { ...this.config, profile };
+  }
+
+  getProfile(): KeyProfile {
+    return this.config.profile;
+  }
+
+  // The state space changes, so decoding restarts from the next step. The
+  // pending decisions are committed first so the timeline stays complete.
+  setModes(modes: KeyMode[]): void {
+    if (this.delta) {
+      this.backtrack(this.argmax(this.delta)).forEach((state, i) => this.commit(this.pending[i], state));
+      this.timeline = this.committed.map(segment => ({ ...segment }));
+    }
+    this.delta = null;
+    this.pending = [];
+    this.config = { ...this.config, modes };
+  }
+
+  getModes(): KeyMode[] {
+    return this.config.modes;
+  }
+
+  getCurrentKey(): KeyDetectionResult | null {
+    return this.current;
+  }
+
+  // Committed segments followed by the still-provisional recent decisions.
+  // The same array is returned until the next step is decoded.
+  getTimeline(): KeySegment[] {
+    return this.timeline;
+  }
+
+  // Modulations between committed segments only, so they are never retracted
+  getModulations(): KeyModulation[] {
+    return this.modulations;
+  }
+
+  reset(): void {
+    this.delta = null;
+    this.pending = [];
+    this.committed = [];
+    this.committedScore = { sum: 0, count: 0 };
+    this.modulations = [];
+    this.timeline = [];
+    this.current = null;
+    this.stepStart = null;
+    this.stepChroma.fill(0);
+    this.stepFrames = 0;
+    this.lastChroma = null;
+    this.recentChroma.fill(0);
+  }
+
+  private decodeStep(start: number, end: number): void {
+    const chromaSum = this.stepChroma.reduce((sum, value) => sum + value, 0);
+    if (chromaSum <= 0) return;
+
+    const scores = scoreAllKeys(this.stepChroma, this.config.profile, this.config.modes).map(({ score }) => score);
+    const alpha = 1 - Math.exp(-(end - start) / RANKING_TIME_CONSTANT);
+    const stepMean = this.stepChroma.map(value => value / chromaSum);
+    this.recentChroma = this.recentChroma.map((value, i) => value + alpha * (stepMean[i] - value));
+    const backPointers = new Uint8Array(scores.length);
+    const next = new Array<number>(scores.length);
+
+    if (!this.delta) {
+      scores.forEach((score, state) => {
+        next[state] = this.config.emissionGain * score;
+        backPointers[state] = state;
+      });
+    } else {
+      const previous = this.delta;
+      const leader = this.argmax(previous);
+      const switchScore = previous[leader] - this.config.switchPenalty;
+      scores.forEach((score, state) => {
+        const stay = previous[state] >= switchScore;
+        next[state] = (stay ? previous[state] : switchScore) + this.config.emissionGain * score;
+        backPointers[state] = stay ? state : leader;
+      });
+    }
+
+    // Keep the scores bounded over long sessions
+    const best = this.argmax(next);
+    const top = next[best];
+    this.delta = next.map(value => value - top);
+
+    this.pending.push({ start, end, backPointers, scores });
+    const path = this.backtrack(best);
+    if (this.pending.length > this.config.commitLagSteps) {
+      const step = this.pending.shift()!;
+      this.commit(step, path.shift()!);
+    }
+
+    this.timeline = this.buildTimeline(path);
+    this.current = this.describeCurrent(best);
+  }
+
+  // States are ordered as scoreAllKeys orders keys: by tonic, then mode
+  private keyOf(state: number): { key: string; mode: KeyMode } {
+    const modeCount = this.config.modes.length;
+    return {
+      key: NOTE_NAMES[Math.floor(state / modeCount)],
+      mode: this.config.modes[state % modeCount]
+    };
+  }
+
+  private argmax(values: number[]): number {
+    let best = 0;
+    for (let i = 1; i < values.length; i++) {
+      if (values[i] > values[best]) best = i;
+    }
+    return best;
+  }
+
+  // States along the best path through the pending steps, oldest first
+  private backtrack(finalState: number): number[] {
+    const path = new Array<number>(this.pending.length);
+    let state = finalState;
+    for (let i = this.pending.length - 1; i >= 0; i--) {
+      path[i] = state;
+      state = this.pending[i].backPointers[state];
+    }
+    return path;
+  }
+
+  private commit(step: PendingStep, state: number): void {
+    const { key, mode } = this.keyOf(state);
+    const score = Math.max(0, step.scores[state]);
+    const last = this.committed[this.committed.length - 1];
+
+    if (last && last.key === key && last.mode === mode) {
+      this.committedScore.sum += score;
+      this.committedScore.count++;
+      last.end = step.end;
+      last.confidence = this.committedScore.sum / this.committedScore.count;
+      return;
+    }
+
+    this.committedScore = { sum: score, count: 1 };
+    this.committed.push({ key, mode, start: step.start, end: step.end, confidence: score });
+    if (this.committed.length > 1) {
+      this.modulations = [...this.modulations, ...findModulations(this.committed.slice(-2))];
+    }
+  }
+
+  private buildTimeline(path: number[]): KeySegment[] {
+    const timeline = this.committed.map(segment => ({ ...segment }));
+    const sums = timeline.length > 0 ? [this.committedScore.sum] : [];
+    const counts = timeline.length > 0 ? [this.committedScore.count] : [];
+
+    path.forEach((state, i) => {
+      const step = this.pending[i];
+      const { key, mode } = this.keyOf(state);
+      const score = Math.max(0, step.scores[state]);
+      const last = timeline[timeline.length - 1];
+
+      if (last && last.key === key && last.mode === mode) {
+        last.end = step.end;
+        sums[sums.length - 1] += score;
+        counts[counts.length - 1]++;
+        last.confidence = sums[sums.length - 1] / counts[counts.length - 1];
+      } else {
+        timeline.push({ key, mode, start: step.start, end: step.end, confidence: score });
+        sums.push(score);
+        counts.push(1);
+      }
+    });
+
+    return timeline;
+  }
+
+  private describeCurrent(state: number): KeyDetectionResult {
+    // How much contrary evidence it would take to change the decision
+    const runnerUp = Math.max(...this.delta!.filter((_, i) => i !== state));
+    const chosen = this.keyOf(state);
+    // Candidates come from the last few seconds of chroma rather than a
+    // single noisy step
+    const ranked = rankKeys(this.recentChroma, this.config.profile, this.config.modes);
+    return {
+      ...chosen,
+      confidence: Math.min(1, -runnerUp / this.config.switchPenalty),
+      chroma: this.lastChroma!,
+      candidates: topCandidates(chosen, ranked),
+      ambiguities: findAmbiguities(chosen, ranked),
+      profile: this.config.profile.id
+    };
+  }
+}
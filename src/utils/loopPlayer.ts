@@ -0,0 +1,126 @@
+import { StretchOptions, stretchChannels } from './timeStretch';
+
+// A stretch of a track to repeat, in track seconds
+export interface LoopRegion {
+  start: number;
+  end: number;
+}
+
+// A region rendered ready to repeat at a given tempo
+export interface RenderedLoop {
+  region: LoopRegion;
+  tempo: number;
+  buffer: AudioBuffer;
+}
+
+// The end of each pass fades into the audio just before the loop start, so
+// the wrap back to A continues the sound instead of cutting it
+const LOOP_CROSSFADE_SECONDS = 0.01;
+// Audio either side of the region goes into the stretch too: grains near
+// the edges of what they are given read into silence
+const STRETCH_PADDING_SECONDS = 0.1;
+export const MIN_LOOP_SECONDS = 0.1;
+
+// Cuts the region out of the decoded track, time-stretched to the tempo.
+// The buffer holds exactly one pass, so an AudioBufferSourceNode looping
+// the whole buffer repeats it to the sample.
+export async function renderLoop(
+  context: BaseAudioContext,
+  track: AudioBuffer,
+  region: LoopRegion,
+  tempo: number,
+  options: StretchOptions = {}
+): Promise<RenderedLoop> {
+  const rate = track.sampleRate;
+  const startFrame = Math.max(0, Math.round(region.start * rate));
+  const endFrame = Math.min(track.length, Math.round(region.end * rate));
+  if (endFrame - startFrame < MIN_LOOP_SECONDS * rate) {
+    throw new Error('Loop region too short');
+  }
+
+  // Take the crossfade's worth before A along with the region, and padding
+  // round both when stretching
+  const fade = Math.min(Math.round(LOOP_CROSSFADE_SECONDS * rate), startFrame);
+  const padding = tempo === 1 ? 0 : Math.round(STRETCH_PADDING_SECONDS * rate);
+  const sliceStart = Math.max(0, startFrame - fade - padding);
+  const sliceEnd = Math.min(track.length, endFrame + padding);
+  const channels = Array.from({ length: track.numberOfChannels }, (_, c) =>
+    track.getChannelData(c).slice(sliceStart, sliceEnd)
+  );
+  const stretched = tempo === 1 ? channels : await stretchChannels(channels, rate, { semitones: 0, tempo }, options);
+
+  // Where A falls in the stretched audio, and one pass's length from there
+  const regionStart = Math.round((startFrame - sliceStart) / tempo);
+  const fadeFrames = Math.min(Math.round(fade / tempo), regionStart);
+  const length = Math.round((endFrame - startFrame) / tempo);
+  const buffer = context.createBuffer(stretched.length, length, rate);
+
+  stretched.forEach((channel, c) => {
+    const output = buffer.getChannelData(c);
+    output.set(channel.subarray(regionStart, regionStart + length));
+    // Equal-power: the two sides are unrelated audio
+    for (let i = 0; i < fadeFrames; i++) {
+      const mix = ((i + 1) / (fadeFrames + 1)) * (Math.PI / 2);
+      const index = length - fadeFrames + i;
+      output[index] = output[index] * Math.cos(mix) + channel[regionStart - fadeFrames + i] * Math.sin(mix);
+    }
+  });
+
+  return { region, tempo, buffer };
+}
+
+// Plays a rendered loop round and round and reports where in the track it is
+export class LoopPlayer {
+  private source: AudioBufferSourceNode | null = null;
+  private loop: RenderedLoop | null = null;
+  private startedAt = 0;
+  private offset = 0;
+
+  constructor(private context: BaseAudioContext) {}
+
+  // Starts from a track time inside the region, at the context time given
+  start(loop: RenderedLoop, destination: AudioNode, from: number, when: number = this.context.currentTime): void {
+    this.stop();
+
+    const source = this.context.createBufferSource();
+    source.buffer = loop.buffer;
+    source.loop = true;
+    source.connect(destination);
+
+    const within = Math.min(Math.max(from, loop.region.start), loop.region.end) - loop.region.start;
+    this.offset = (within / loop.tempo) % loop.buffer.duration;
+    this.startedAt = when;
+    this.loop = loop;
+    this.source = source;
+    source.start(when, this.offset);
+  }
+
+  stop(): void {
+    if (this.source) {
+      try {
+        this.source.stop();
+      } catch {
+        // Never started
+      }
+      this.source.disconnect();
+    }
+    this.source = null;
+    this.loop = null;
+  }
+
+  isActive(): boolean {
+    return this.loop !== null;
+  }
+
+  getLoop(): RenderedLoop | null {
+    return this.loop;
+  }
+
+  // Track seconds; the start point until a scheduled start comes round
+  getPosition(): number | null {
+    if (!this.loop) return null;
+    const elapsed = Math.max(0, this.context.currentTime - this.startedAt);
+    const played = (this.offset + elapsed) % this.loop.buffer.duration;
+    return this.loop.region.start + played * this.loop.tempo;
+  }
+}
@@ -0,0 +1,138 @@
+import { MusicTheoryEngine } from './musicTheory';
+import {
+  QuantizeGrid,
+  Transcription,
+  chordVoicing,
+  parseTimeSignature,
+  placeChords,
+  placeNotes,
+  quarterNoteTempo
+} from './transcription';
+
+export interface MidiExportOptions {
+  quantize: QuantizeGrid;
+  // Ticks per quarter note
+  ppq: number;
+  // Velocity of the chord track; the melody keeps its measured velocities
+  chordVelocity: number;
+}
+
+const DEFAULT_MIDI_EXPORT_OPTIONS: MidiExportOptions = {
+  quantize: 'off',
+  ppq: 480,
+  chordVelocity: 80
+};
+
+const MELODY_CHANNEL = 0;
+const CHORD_CHANNEL = 1;
+// General MIDI programs: acoustic grand piano for both hands
+const MELODY_PROGRAM = 0;
+const CHORD_PROGRAM = 0;
+
+interface TrackEvent {
+  tick: number;
+  // Note-offs sort before note-ons at the same tick, so a repeated pitch
+  // isn't cut off by its own release
+  order: number;
+  data: number[];
+}
+
+const textBytes = (text: string) => Array.from(new TextEncoder().encode(text));
+
+// MIDI variable-length quantity: 7 bits per byte, high bit set on all but the last
+function variableLength(value: number): number[] {
+  const bytes = [value & 0x7f];
+  let rest = value >> 7;
+  while (rest > 0) {
+    bytes.unshift((rest & 0x7f) | 0x80);
+    rest >>= 7;
+  }
+  return bytes;
+}
+
+const uint32 = (value: number) => [(value >> 24) & 0xff, (value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+const uint16 = (value: number) => [(value >> 8) & 0xff, value & 0xff];
+
+const metaEvent = (tick: number, type: number, data: number[]): TrackEvent => ({
+  tick,
+  order: 0,
+  data: [0xff, type, ...variableLength(data.length), ...data]
+});
+
+function noteEvents(tick: number, length: number, channel: number, midi: number, velocity: number): TrackEvent[] {
+  const pitch = Math.max(0, Math.min(127, midi));
+  return [
+    { tick, order: 1, data: [0x90 | channel, pitch, Math.max(1, Math.min(127, velocity))] },
+    { tick: tick + Math.max(1, length), order: 0, data: [0x80 | channel, pitch, 0] }
+  ];
+}
+
+function trackChunk(events: TrackEvent[]): number[] {
+  const sorted = [...events].sort((a, b) => a.tick - b.tick || a.order - b.order);
+  const endTick = sorted.length > 0 ? sorted[sorted.length - 1].tick : 0;
+  sorted.push(metaEvent(endTick, 0x2f, []));
+
+  const body: number[] = [];
+  let lastTick = 0;
+  sorted.forEach(event => {
+    body.push(...variableLength(event.tick - lastTick), ...event.data);
+    lastTick = event.tick;
+  });
+  return [...textBytes('MTrk'), ...uint32(body.length), ...body];
+}
+
+// Tempo, time signature and key signature, which a type 1 file keeps in its
+// first track
+function conductorTrack(transcription: Transcription, title: string): TrackEvent[] {
+  const microsecondsPerQuarter = Math.round(60000000 / quarterNoteTempo(transcription.tempo, transcription.timeSignature));
+  const { beats, beatType } = parseTimeSignature(transcription.timeSignature);
+  // MIDI clocks per metronome click: a dotted quarter in 6/8, otherwise a beat
+  const clocksPerClick = transcription.timeSignature === '6/8' ? 36 : 96 / beatType;
+
+  const events = [
+    metaEvent(0, 0x03, textBytes(title)),
+    metaEvent(0, 0x51, [(microsecondsPerQuarter >> 16) & 0xff, (microsecondsPerQuarter >> 8) & 0xff, microsecondsPerQuarter & 0xff]),
+    metaEvent(0, 0x58, [beats, Math.log2(beatType), clocksPerClick, 8])
+  ];
+
+  if (transcription.key) {
+    const { key, mode } = transcription.key;
+    const fifths = MusicTheoryEngine.getKeySignatureFifths(key, mode);
+    const minor = mode === 'minor' || mode === 'harmonic-minor' || mode === 'melodic-minor';
+    events.push(metaEvent(0, 0x59, [fifths & 0xff, minor ? 1 : 0]));
+  }
+  return events;
+}
+
+// Writes a session as a type 1 Standard MIDI File: a conductor track, the
+// melody (right hand) and the chords (left hand) on channels 1 and 2.
+export function createSessionMidi(
+  transcription: Transcription,
+  options: Partial<MidiExportOptions> = {},
+  title = 'Session'
+): Uint8Array {
+  const { quantize, ppq, chordVelocity } = { ...DEFAULT_MIDI_EXPORT_OPTIONS, ...options };
+  const ticks = (quarters: number) => Math.round(quarters * ppq);
+
+  const melody: TrackEvent[] = [
+    metaEvent(0, 0x03, textBytes('Melody')),
+    { tick: 0, order: 0, data: [0xc0 | MELODY_CHANNEL, MELODY_PROGRAM] }
+  ];
+  placeNotes(transcription, quantize).forEach(note => {
+    melody.push(...noteEvents(ticks(note.start), ticks(note.duration), MELODY_CHANNEL, note.midi, note.velocity));
+  });
+
+  const chords: TrackEvent[] = [
+    metaEvent(0, 0x03, textBytes('Chords')),
+    { tick: 0, order: 0, data: [0xc0 | CHORD_CHANNEL, CHORD_PROGRAM] }
+  ];
+  placeChords(transcription, quantize).forEach(({ chord, start, duration }) => {
+    chordVoicing(chord).forEach(midi => {
+      chords.push(...noteEvents(ticks(start), ticks(duration), CHORD_CHANNEL, midi, chordVelocity));
+    });
+  });
+
+  const tracks = [conductorTrack(transcription, title), melody, chords];
+  const header = [...textBytes('MThd'), ...uint32(6), ...uint16(1), ...uint16(tracks.length), ...uint16(ppq)];
+  return new Uint8Array([...header, ...tracks.flatMap(trackChunk)]);
+}
@@ -0,0 +1,203 @@
+import { DetectedNote } from '../types/audio';
+import { DEFAULT_REFERENCE_A4 } from './defaultAudioConfig';
+
+const NOTE_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+
+export interface MultiPitchConfig {
+  minMidi: number;
+  maxMidi: number;
+  harmonics: number;
+  maxPolyphony: number;
+  // Stop once a candidate's salience falls below this share of the strongest
+  relativeThreshold: number;
+  // Partial match tolerance in cents
+  toleranceCents: number;
+  peakRangeDb: number;
+  minProminenceDb: number;
+}
+
+const DEFAULT_MULTI_PITCH_CONFIG: MultiPitchConfig = {
+  minMidi: 40, // E2
+  maxMidi: 88, // E6
+  harmonics: 8,
+  maxPolyphony: 6,
+  relativeThreshold: 0.2,
+  toleranceCents: 40,
+  peakRangeDb: 45,
+  minProminenceDb: 12
+};
+
+const PROMINENCE_RADIUS = 12;
+
+// Mean dB level around a bin, excluding the peak's own main lobe. Noise
+// peaks barely clear this; partials of a tone stand well above it.
+function neighbourhoodLevel(frequencyData: Float32Array, bin: number): number {
+  let sum = 0;
+  let count = 0;
+  for (let offset = 4; offset <= PROMINENCE_RADIUS; offset++) {
+    for (const i of [bin - offset, bin + offset]) {
+      if (i >= 0 && i < frequencyData.length && isFinite(frequencyData[i])) {
+        sum += frequencyData[i];
+        count++;
+      }
+    }
+  }
+  return count > 0 ? sum / count : -Infinity;
+}
+
+// Local maxima of a dB spectrum, refined by parabolic interpolation
+export function findSpectralPeaks(
+  frequencyData: Float32Array,
+  sampleRate: number,
+  options: PeakPickingOptions
+): SpectralPeak[] {
+  const binCount = frequencyData.length;
+  const binWidth = sampleRate / (2 * binCount);
+  const minBin = Math.max(2, Math.floor(options.minFrequency / binWidth));
+  const maxBin = Math.min(binCount - 2, Math.ceil(options.maxFrequency / binWidth));
+
+  let loudest = -Infinity;
+  for (let i = minBin; i <= maxBin; i++) {
+    if (frequencyData[i] > loudest) loudest = frequencyData[i];
+  }
+  if (!isFinite(loudest)) return [];
+
+  const floor = Math.max(-85, loudest - options.rangeDb);
+  const peaks: SpectralPeak[] = [];
+
+  for (let i = minBin; i <= maxBin; i++) {
+    const value = frequencyData[i];
+    if (value < floor || value <= frequencyData[i - 1] || value < frequencyData[i + 1]) continue;
+    if (value - neighbourhoodLevel(frequencyData, i) < options.minProminenceDb) continue;
+
+    const left = frequencyData[i - 1];
+    const right = frequencyData[i + 1];
+    const denominator = left - 2 * value + right;
+    const shift = denominator !== 0 && isFinite(denominator) ? 0.5 * (left - right) / denominator : 0;
+    const peakDb = value - 0.25 * (left - right) * shift;
+
+    peaks.push({
+      frequency: (i + shift) * binWidth,
+      magnitude: Math.pow(10, peakDb / 20)
+    });
+  }
+
+  return peaks;
+}
+
+export interface SpectralPeak {
+  frequency: number;
+  // Linear amplitude
+  magnitude: number;
+}
+
+export interface PeakPickingOptions {
+  minFrequency: number;
+  maxFrequency: number;
+  // Ignore peaks this far below the loudest one (dB)
+  rangeDb: number;
+  // How far a peak must stand above its neighbourhood (dB)
+  minProminenceDb: number;
+}
+
+interface CandidatePartial extends SpectralPeak {
+  // Amplitude not yet explained by an accepted note
+  residual: number;
+}
+
+// Klapuri's harmonic weighting: favours low partials, less so for high f0
+const harmonicWeight = (f0: number, harmonic: number) => (f0 + 27) / (harmonic * f0 + 320);
+
+// Iterative estimate-and-cancel multi-pitch estimation over spectral peaks.
+// Each round picks the candidate fundamental whose harmonic series explains
+// the most remaining energy, then removes the partials it accounts for, so a
+// note's octaves and fifths (its 2nd and 3rd harmonics) are not reported as
+// extra notes unless they carry energy the first note cannot explain.
+export class MultiPitchEstimator {
+  private config: MultiPitchConfig;
+
+  constructor(config: Partial<MultiPitchConfig> = {}) {
+    this.config = { ...DEFAULT_MULTI_PITCH_CONFIG, ...config };
+  }
+
+  estimate(frequencyData: Float32Array, sampleRate: number, referenceA4 = DEFAULT_REFERENCE_A4): DetectedNote[] {
+    const peaks: CandidatePartial[] = findSpectralPeaks(frequencyData, sampleRate, {
+      minFrequency: 55,
+      maxFrequency: 5000,
+      rangeDb: this.config.peakRangeDb,
+      minProminenceDb: this.config.minProminenceDb
+    }).map(peak => ({ ...peak, residual: peak.magnitude }));
+    if (peaks.length === 0) return [];
+
+    const notes: DetectedNote[] = [];
+    let strongestSalience = 0;
+
+    while (notes.length < this.config.maxPolyphony) {
+      let best: { midi: number; salience: number; partials: Array<CandidatePartial | null> } | null = null;
+
+      for (let midi = this.config.minMidi; midi <= this.config.maxMidi; midi++) {
+        if (notes.some(note => note.midi === midi)) continue;
+
+        const f0 = referenceA4 * Math.pow(2, (midi - 69) / 12);
+        const partials = this.matchPartials(peaks, f0);
+        // Require an audible fundamental; otherwise every note would also
+        // show up an octave (or a twelfth) below itself
+        if (!partials[0] || partials[0].residual <= 0) continue;
+
+        const salience = partials.reduce(
+          (sum, peak, i) => sum + (peak ? harmonicWeight(f0, i + 1) * peak.residual : 0),
+          0
+        );
+
+        if (!best || salience > best.salience) {
+          best = { midi, salience, partials };
+        }
+      }
+
+      if (!best || best.salience <= 0) break;
+      if (strongestSalience === 0) strongestSalience = best.salience;
+      if (best.salience < this.config.relativeThreshold * strongestSalience) break;
+
+      const found = best.partials.filter((peak): peak is CandidatePartial => peak !== null);
+      const fundamental = best.partials[0]!;
+      const octave = Math.floor(best.midi / 12) - 1;
+
+      notes.push({
+        midi: best.midi,
+        name: NOTE_NAMES[best.midi % 12],
+        octave,
+        frequency: fundamental.frequency,
+        confidence: Math.min(1, best.salience / strongestSalience),
+        harmonicSupport: found.length / this.config.harmonics,
+        salience: best.salience
+      });
+
+      // Cancel what this note explains: each partial up to the note's typical
+      // partial level, so a genuinely louder shared partial keeps a residual
+      const typicalPartial = found.reduce((sum, peak) => sum + peak.residual, 0) / found.length;
+      found.forEach(peak => {
+        peak.residual = Math.max(0, peak.residual - Math.min(peak.residual, typicalPartial));
+      });
+    }
+
+    return notes.sort((a, b) => b.confidence - a.confidence);
+  }
+
+  private matchPartials(peaks: CandidatePartial[], f0: number): Array<CandidatePartial | null> {
+    const tolerance = Math.pow(2, this.config.toleranceCents / 1200);
+    const partials: Array<CandidatePartial | null> = [];
+
+    for (let harmonic = 1; harmonic <= this.config.harmonics; harmonic++) {
+      const target = f0 * harmonic;
+      let match: CandidatePartial | null = null;
+      for (const peak of peaks) {
+        if (peak.frequency < target / tolerance) continue;
+        if (peak.frequency > target * tolerance) break;
+        if (!match || peak.residual > match.residual) match = peak;
+      }
+      partials.push(match);
+    }
+
+    return partials;
+  }
+}
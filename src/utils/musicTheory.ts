@@ -1,11 +1,55 @@
-import { Scale, ChordProgression, Note } from '../types/music';
+import { Scale, ChordProgression, Note, KeyMode } from '../types/music';
+import { DEFAULT_REFERENCE_A4 } from './defaultAudioConfig';
 
 const NOTES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
 
 const MAJOR_INTERVALS = [0, 2, 4, 5, 7, 9, 11];
 const MINOR_INTERVALS = [0, 2, 3, 5, 7, 8, 10];
 
-const MAJOR_CHORD_PROGRESSIONS: ChordProgression[] = [
+export const MODE_INTERVALS: Record<KeyMode, number[]> = {
+  major: MAJOR_INTERVALS,
+  minor: MINOR_INTERVALS,
+  dorian: [0, 2, 3, 5, 7, 9, 10],
+  phrygian: [0, 1, 3, 5, 7, 8, 10],
+  lydian: [0, 2, 4, 6, 7, 9, 11],
+  mixolydian: [0, 2, 4, 5, 7, 9, 10],
+  locrian: [0, 1, 3, 5, 6, 8, 10],
+  'harmonic-minor': [0, 2, 3, 5, 7, 8, 11],
+  'melodic-minor': [0, 2, 3, 5, 7, 9, 11]
+};
+
+export const MODE_LABELS: Record<KeyMode, string> = {
+  major: 'Major',
+  minor: 'Minor',
+  dorian: 'Dorian',
+  phrygian: 'Phrygian',
+  lydian: 'Lydian',
+  mixolydian: 'Mixolydian',
+  locrian: 'Locrian',
+  'harmonic-minor': 'Harmonic minor',
+  'melodic-minor': 'Melodic minor'
+};
+
+export const KEY_MODES = Object.keys(MODE_INTERVALS) as KeyMode[];
+
+// Semitones from the tonic down to the major key with the same key
+// signature. Harmonic and melodic minor are written with the natural minor's.
+const PARENT_MAJOR_OFFSET: Record<KeyMode, number> = {
+  major: 0,
+  dorian: 2,
+  phrygian: 4,
+  lydian: 5,
+  mixolydian: 7,
+  minor: 9,
+  locrian: 11,
+  'harmonic-minor': 9,
+  'melodic-minor': 9
+};
+
+// Scale-degree indices rather than note names; filled in per key
+type ChordTemplate = Omit<ChordProgression, 'notes'> & { notes: number[] };
+
+const MAJOR_CHORD_PROGRESSIONS: ChordTemplate[] = [
   { numeral: 'I', name: 'Major', notes: [0, 2, 4], function: 'tonic', color: '#7fff7f' },
   { numeral: 'ii', name: 'minor', notes: [1, 3, 5], function: 'subdominant', color: '#4e9cff' },
   { numeral: 'iii', name: 'minor', notes: [2, 4, 6], function: 'secondary', color: '#4e9cff' },
@@ -15,7 +59,7 @@ const MAJOR_CHORD_PROGRESSIONS: ChordProgression[] = [
   { numeral: 'vii°', name: 'diminished', notes: [6, 1, 3], function: 'dominant', color: '#ff6b9d' }
 ];
 
-const MINOR_CHORD_PROGRESSIONS: ChordProgression[] = [
+const MINOR_CHORD_PROGRESSIONS: ChordTemplate[] = [
   { numeral: 'i', name: 'minor', notes: [0, 2, 4], function: 'tonic', color: '#7fff7f' },
   { numeral: 'ii°', name: 'diminished', notes: [1, 3, 5], function: 'subdominant', color: '#ff6b9d' },
   { numeral: 'III', name: 'Major', notes: [2, 4, 6], function: 'secondary', color: '#4e9cff' },
@@ -25,15 +69,56 @@ const MINOR_CHORD_PROGRESSIONS: ChordProgression[] = [
   { numeral: 'VII', name: 'Major', notes: [6, 1, 3], function: 'dominant', color: '#ffe97f' }
 ];
 
+const ROMAN_NUMERALS = ['I', 'II', 'III', 'IV', 'V', 'VI', 'VII'];
+// Chord function by degree, as in the major table
+const DEGREE_FUNCTIONS: ChordProgression['function'][] = [
+  'tonic', 'subdominant', 'secondary', 'subdominant', 'dominant', 'secondary', 'dominant'
+];
+
+// Diatonic triads on each degree of a mode, named and coloured the way the
+// major table is: primary chords green, the rest blue, diminished pink
+function buildChordTemplates(intervals: number[]): ChordTemplate[] {
+  return intervals.map((root, degree) => {
+    const third = (intervals[(degree + 2) % 7] - root + 12) % 12;
+    const fifth = (intervals[(degree + 4) % 7] - root + 12) % 12;
+    const numeral = ROMAN_NUMERALS[degree];
+    const notes = [degree, (degree + 2) % 7, (degree + 4) % 7];
+    const primary = degree === 0 || degree === 3 || degree === 4;
+
+    if (third === 4 && fifth === 8) {
+      return { numeral: `${numeral}+`, name: 'augmented', notes, function: DEGREE_FUNCTIONS[degree], color: '#ffe97f' };
+    }
+    if (third === 3 && fifth === 6) {
+      return { numeral: `${numeral.toLowerCase()}°`, name: 'diminished', notes, function: DEGREE_FUNCTIONS[degree], color: '#ff6b9d' };
+    }
+    return third === 4
+      ? { numeral, name: 'Major', notes, function: DEGREE_FUNCTIONS[degree], color: primary ? '#7fff7f' : '#4e9cff' }
+      : { numeral: numeral.toLowerCase(), name: 'minor', notes, function: DEGREE_FUNCTIONS[degree], color: primary ? '#7fff7f' : '#4e9cff' };
+  });
+}
+
+const CHORD_TEMPLATES: Record<KeyMode, ChordTemplate[]> = {
+  major: MAJOR_CHORD_PROGRESSIONS,
+  minor: MINOR_CHORD_PROGRESSIONS,
+  dorian: buildChordTemplates(MODE_INTERVALS.dorian),
+  phrygian: buildChordTemplates(MODE_INTERVALS.phrygian),
+  lydian: buildChordTemplates(MODE_INTERVALS.lydian),
+  mixolydian: buildChordTemplates(MODE_INTERVALS.mixolydian),
+  locrian: buildChordTemplates(MODE_INTERVALS.locrian),
+  'harmonic-minor': buildChordTemplates(MODE_INTERVALS['harmonic-minor']),
+  'melodic-minor': buildChordTemplates(MODE_INTERVALS['melodic-minor'])
+};
+
 export class MusicTheoryEngine {
-  static getScale(root: string, mode: 'major' | 'minor'): Scale {
+  static getScale(root: string, mode: KeyMode): Scale {
     const rootIndex = NOTES.indexOf(root);
     if (rootIndex === -1) throw new Error(`Invalid root note: ${root}`);
 
-    const intervals = mode === 'major' ? MAJOR_INTERVALS : MINOR_INTERVALS;
+    const intervals = MODE_INTERVALS[mode];
+    if (!intervals) throw new Error(`Invalid mode: ${mode}`);
     const notes = intervals.map(interval => NOTES[(rootIndex + interval) % 12]);
     
-    const chordProgressions = mode === 'major' ? MAJOR_CHORD_PROGRESSIONS : MINOR_CHORD_PROGRESSIONS;
+    const chordProgressions = CHORD_TEMPLATES[mode];
     const chords = chordProgressions.map(chord => ({
       ...chord,
       notes: chord.notes.map(noteIndex => notes[noteIndex])
@@ -47,9 +132,9 @@ export class MusicTheoryEngine {
     };
   }
 
-  static getNoteFromFrequency(frequency: number): Note {
-    const a4 = 440;
-    const midiNumber = Math.round(12 * Math.log2(frequency / a4) + 69);
+  static getNoteFromFrequency(frequency: number, referenceA4: number = DEFAULT_REFERENCE_A4): Note {
+    const exactMidi = 12 * Math.log2(frequency / referenceA4) + 69;
+    const midiNumber = Math.round(exactMidi);
     const octave = Math.floor(midiNumber / 12) - 1;
     const noteIndex = midiNumber % 12;
     
@@ -57,16 +142,22 @@ export class MusicTheoryEngine {
       name: NOTES[noteIndex],
       frequency,
       midiNumber,
-      octave
+      octave,
+      cents: (exactMidi - midiNumber) * 100
     };
   }
 
-  static getFrequencyFromNote(note: string, octave: number): number {
+  // Scientific pitch name, e.g. 60 -> "C4"
+  static getNoteNameFromMidi(midiNumber: number): string {
+    return `${NOTES[((midiNumber % 12) + 12) % 12]}${Math.floor(midiNumber / 12) - 1}`;
+  }
+
+  static getFrequencyFromNote(note: string, octave: number, referenceA4: number = DEFAULT_REFERENCE_A4): number {
     const noteIndex = NOTES.indexOf(note);
     if (noteIndex === -1) throw new Error(`Invalid note: ${note}`);
     
     const midiNumber = (octave + 1) * 12 + noteIndex;
-    return 440 * Math.pow(2, (midiNumber - 69) / 12);
+    return referenceA4 * Math.pow(2, (midiNumber - 69) / 12);
   }
 
   static isChromatic(note: string, scale: Scale): boolean {
@@ -99,7 +190,8 @@ export class MusicTheoryEngine {
     return NOTES.filter(note => !scaleNotes.has(note));
   }
 
-  static getRelativeKey(key: string, mode: 'major' | 'minor'): { key: string; mode: 'major' | 'minor' } {
+  // Relative minor of a major key; relative major of anything else
+  static getRelativeKey(key: string, mode: KeyMode): { key: string; mode: KeyMode } {
     const rootIndex = NOTES.indexOf(key);
     if (rootIndex === -1) throw new Error(`Invalid key: ${key}`);
 
@@ -107,11 +199,34 @@ export class MusicTheoryEngine {
       // Relative minor is a minor third down
       const relativeMinorIndex = (rootIndex + 9) % 12;
       return { key: NOTES[relativeMinorIndex], mode: 'minor' };
-    } else {
-      // Relative major is a minor third up
-      const relativeMajorIndex = (rootIndex + 3) % 12;
-      return { key: NOTES[relativeMajorIndex], mode: 'major' };
     }
+
+    // The major key with the same signature; a minor third up for minor keys
+    return { key: this.getParentMajor(key, mode), mode: 'major' };
+  }
+
+  // Major key sharing this key's signature, e.g. G for A dorian
+  static getParentMajor(key: string, mode: KeyMode): string {
+    const rootIndex = NOTES.indexOf(key);
+    if (rootIndex === -1) throw new Error(`Invalid key: ${key}`);
+    return NOTES[(rootIndex - PARENT_MAJOR_OFFSET[mode] + 12) % 12];
+  }
+
+  // The note some semitones away, spelt with sharps
+  static transposeNote(note: string, semitones: number): string {
+    const rootIndex = NOTES.indexOf(note);
+    if (rootIndex === -1) throw new Error(`Invalid note: ${note}`);
+    return NOTES[(((rootIndex + semitones) % 12) + 12) % 12];
+  }
+
+  // Smallest shift, -6 to +5 semitones, from one key onto another. Keys are
+  // matched by signature, so a backing track in A minor already suits a
+  // voice in C major.
+  static getTranspositionInterval(from: { key: string; mode: KeyMode }, to: { key: string; mode: KeyMode }): number {
+    const fromIndex = NOTES.indexOf(this.getParentMajor(from.key, from.mode));
+    const toIndex = NOTES.indexOf(this.getParentMajor(to.key, to.mode));
+    const interval = (toIndex - fromIndex + 12) % 12;
+    return interval > 5 ? interval - 12 : interval;
   }
 
   static getCircleOfFifths(): string[] {
@@ -126,7 +241,7 @@ export class MusicTheoryEngine {
     return circle;
   }
 
-  static getKeySignature(key: string, mode: 'major' | 'minor'): { sharps: string[]; flats: string[] } {
+  static getKeySignature(key: string, mode: KeyMode): { sharps: string[]; flats: string[] } {
     const scale = this.getScale(key, mode);
     const sharps = scale.notes.filter(note => note.includes('#'));
     const flats = scale.notes.filter(note => note.includes('b'));
@@ -134,6 +249,15 @@ export class MusicTheoryEngine {
     return { sharps, flats };
   }
 
+  // Sharps (positive) or flats (negative) in the key signature, as MIDI and
+  // MusicXML want it; keys with six or seven are written with sharps up to
+  // F# and flats from Db down
+  static getKeySignatureFifths(key: string, mode: KeyMode): number {
+    const parentMajor = NOTES.indexOf(this.getParentMajor(key, mode));
+    const fifths = (parentMajor * 7) % 12;
+    return fifths > 6 ? fifths - 12 : fifths;
+  }
+
   static identifyChord(notes: string[]): string | null {
     if (!notes || notes.length === 0) return null;
     if (notes.length === 1) return notes[0];
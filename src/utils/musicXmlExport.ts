@@ -0,0 +1,301 @@
+import { ChordEstimate, ChordQuality } from '../types/audio';
+import { KeyMode } from '../types/music';
+import { NOTE_NAMES } from './keyDetection';
+import { MusicTheoryEngine } from './musicTheory';
+import {
+  QuantizeGrid,
+  Transcription,
+  parseTimeSignature,
+  placeChords,
+  placeNotes,
+  quarterNoteTempo,
+  quartersPerBar
+} from './transcription';
+
+export interface MusicXmlExportOptions {
+  // Notation needs a grid, so 'off' writes sixteenths
+  quantize: QuantizeGrid;
+  title: string;
+}
+
+const DEFAULT_MUSICXML_EXPORT_OPTIONS: MusicXmlExportOptions = {
+  quantize: '1/16',
+  title: 'Session'
+};
+
+// Divisions per quarter note: sixteenths (3) and both triplet grids (4, 2)
+// come out as whole numbers
+const DIVISIONS = 12;
+
+interface NoteValue {
+  duration: number;
+  type: string;
+  dotted?: boolean;
+  triplet?: boolean;
+}
+
+// Longest first, so a length is written with as few tied notes as possible.
+// Straight and triplet grids get separate lists so greedy splitting never
+// mixes the two.
+const STRAIGHT_VALUES: NoteValue[] = [
+  { duration: 48, type: 'whole' },
+  { duration: 36, type: 'half', dotted: true },
+  { duration: 24, type: 'half' },
+  { duration: 18, type: 'quarter', dotted: true },
+  { duration: 12, type: 'quarter' },
+  { duration: 9, type: 'eighth', dotted: true },
+  { duration: 6, type: 'eighth' },
+  { duration: 3, type: '16th' }
+];
+
+const TRIPLET_VALUES: NoteValue[] = [
+  { duration: 48, type: 'whole' },
+  { duration: 36, type: 'half', dotted: true },
+  { duration: 24, type: 'half' },
+  { duration: 18, type: 'quarter', dotted: true },
+  { duration: 12, type: 'quarter' },
+  { duration: 8, type: 'quarter', triplet: true },
+  { duration: 6, type: 'eighth' },
+  { duration: 4, type: 'eighth', triplet: true },
+  { duration: 2, type: '16th', triplet: true }
+];
+
+const SHARP_SPELLING: [string, number][] = [
+  ['C', 0], ['C', 1], ['D', 0], ['D', 1], ['E', 0], ['F', 0],
+  ['F', 1], ['G', 0], ['G', 1], ['A', 0], ['A', 1], ['B', 0]
+];
+
+const FLAT_SPELLING: [string, number][] = [
+  ['C', 0], ['D', -1], ['D', 0], ['E', -1], ['E', 0], ['F', 0],
+  ['G', -1], ['G', 0], ['A', -1], ['A', 0], ['B', -1], ['B', 0]
+];
+
+const HARMONY_KINDS: Record<ChordQuality, string> = {
+  maj: 'major',
+  min: 'minor',
+  '7': 'dominant',
+  maj7: 'major-seventh',
+  m7: 'minor-seventh',
+  dim: 'diminished',
+  aug: 'augmented',
+  sus2: 'suspended-second',
+  sus4: 'suspended-fourth'
+};
+
+const KEY_MODES: Record<KeyMode, string> = {
+  major: 'major',
+  minor: 'minor',
+  dorian: 'dorian',
+  phrygian: 'phrygian',
+  lydian: 'lydian',
+  mixolydian: 'mixolydian',
+  locrian: 'locrian',
+  'harmonic-minor': 'minor',
+  'melodic-minor': 'minor'
+};
+
+// A stretch of one measure holding a note (or a rest when midi is null)
+interface Piece {
+  start: number;
+  duration: number;
+  midi: number | null;
+  tiedFromPrevious: boolean;
+  tiedToNext: boolean;
+}
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+function splitDuration(duration: number, values: NoteValue[]): NoteValue[] {
+  const parts: NoteValue[] = [];
+  let remaining = duration;
+  while (remaining > 0) {
+    const value = values.find(candidate => candidate.duration <= remaining) ?? values[values.length - 1];
+    parts.push(value);
+    remaining -= value.duration;
+  }
+  return parts;
+}
+
+// Notes and the rests between them for each measure, with notes that cross a
+// bar line split and tied
+function measurePieces(notes: { midi: number; start: number; end: number }[], barLength: number, measureCount: number): Piece[][] {
+  return Array.from({ length: measureCount }, (_, measure) => {
+    const measureStart = measure * barLength;
+    const measureEnd = measureStart + barLength;
+    const pieces: Piece[] = [];
+    let cursor = measureStart;
+
+    notes
+      .filter(note => note.end > measureStart && note.start < measureEnd)
+      .forEach(note => {
+        const start = Math.max(note.start, measureStart);
+        const end = Math.min(note.end, measureEnd);
+        if (start > cursor) {
+          pieces.push({ start: cursor, duration: start - cursor, midi: null, tiedFromPrevious: false, tiedToNext: false });
+        }
+        pieces.push({
+          start,
+          duration: end - start,
+          midi: note.midi,
+          tiedFromPrevious: note.start < measureStart,
+          tiedToNext: note.end > measureEnd
+        });
+        cursor = end;
+      });
+
+    if (cursor < measureEnd) {
+      pieces.push({ start: cursor, duration: measureEnd - cursor, midi: null, tiedFromPrevious: false, tiedToNext: false });
+    }
+    return pieces;
+  });
+}
+
+function pitchXml(midi: number, spelling: [string, number][]): string {
+  const [step, alter] = spelling[((midi % 12) + 12) % 12];
+  const octave = Math.floor(midi / 12) - 1;
+  return `<pitch><step>${step}</step>${alter !== 0 ? `<alter>${alter}</alter>` : ''}<octave>${octave}</octave></pitch>`;
+}
+
+function harmonyXml(chord: ChordEstimate, offset: number, spelling: [string, number][]): string {
+  const spell = (note: string) => spelling[NOTE_NAMES.indexOf(note)];
+  const [rootStep, rootAlter] = spell(chord.root);
+  const lines = [
+    '<harmony>',
+    `  <root><root-step>${rootStep}</root-step>${rootAlter !== 0 ? `<root-alter>${rootAlter}</root-alter>` : ''}</root>`,
+    `  <kind>${HARMONY_KINDS[chord.quality]}</kind>`
+  ];
+  if (chord.bass) {
+    const [bassStep, bassAlter] = spell(chord.bass);
+    lines.push(`  <bass><bass-step>${bassStep}</bass-step>${bassAlter !== 0 ? `<bass-alter>${bassAlter}</bass-alter>` : ''}</bass>`);
+  }
+  if (offset > 0) lines.push(`  <offset>${offset}</offset>`);
+  lines.push('</harmony>');
+  return lines.join('\n');
+}
+
+function noteXml(piece: Piece, value: NoteValue, tieStop: boolean, tieStart: boolean, spelling: [string, number][]): string {
+  const ties = [tieStop && 'stop', tieStart && 'start'].filter(Boolean) as string[];
+  const lines = [
+    '<note>',
+    `  ${piece.midi === null ? '<rest/>' : pitchXml(piece.midi, spelling)}`,
+    `  <duration>${value.duration}</duration>`,
+    ...ties.map(type => `  <tie type="${type}"/>`),
+    '  <voice>1</voice>',
+    `  <type>${value.type}</type>`
+  ];
+  if (value.dotted) lines.push('  <dot/>');
+  if (value.triplet) lines.push('  <time-modification><actual-notes>3</actual-notes><normal-notes>2</normal-notes></time-modification>');
+  if (ties.length > 0) {
+    lines.push(`  <notations>${ties.map(type => `<tied type="${type}"/>`).join('')}</notations>`);
+  }
+  lines.push('</note>');
+  return lines.join('\n');
+}
+
+const indent = (xml: string, spaces: number) => xml.split('\n').map(line => ' '.repeat(spaces) + line).join('\n');
+
+// Writes a session as a MusicXML lead sheet: one staff with the melody
+// quantized to the grid, chord symbols above it, and the key, meter and
+// tempo in the first measure.
+export function createLeadSheet(transcription: Transcription, options: Partial<MusicXmlExportOptions> = {}): string {
+  const settings = { ...DEFAULT_MUSICXML_EXPORT_OPTIONS, ...options };
+  const grid: QuantizeGrid = settings.quantize === 'off' ? '1/16' : settings.quantize;
+  const values = grid.endsWith('T') ? TRIPLET_VALUES : STRAIGHT_VALUES;
+  const toDivisions = (quarters: number) => Math.round(quarters * DIVISIONS);
+
+  // A lead sheet melody is one line, so each note ends where the next begins
+  const placed = placeNotes(transcription, grid).map(note => ({
+    midi: note.midi,
+    start: toDivisions(note.start),
+    end: toDivisions(note.start + note.duration)
+  }));
+  const notes = placed
+    .map((note, i) => ({ ...note, end: Math.min(note.end, placed[i + 1]?.start ?? note.end) }))
+    .filter(note => note.end > note.start);
+  const chords = placeChords(transcription, grid).map(({ chord, start }) => ({ chord, start: toDivisions(start) }));
+
+  const { timeSignature } = transcription;
+  const { beats, beatType } = parseTimeSignature(timeSignature);
+  const barLength = toDivisions(quartersPerBar(timeSignature));
+  const lastTime = Math.max(0, ...notes.map(note => note.end), ...chords.map(chord => chord.start + 1));
+  const measureCount = Math.max(1, Math.ceil(lastTime / barLength));
+
+  const fifths = transcription.key
+    ? MusicTheoryEngine.getKeySignatureFifths(transcription.key.key, transcription.key.mode)
+    : 0;
+  const spelling = fifths < 0 ? FLAT_SPELLING : SHARP_SPELLING;
+
+  // Bass clef when most of the melody sits below G3
+  const sortedMidi = notes.map(note => note.midi).sort((a, b) => a - b);
+  const bassClef = sortedMidi.length > 0 && sortedMidi[Math.floor(sortedMidi.length / 2)] < 55;
+
+  const quarterTempo = Math.round(quarterNoteTempo(transcription.tempo, timeSignature));
+  const dottedBeat = timeSignature === '6/8';
+
+  const measures = measurePieces(notes, barLength, measureCount).map((pieces, measure) => {
+    const elements: string[] = [];
+
+    if (measure === 0) {
+      elements.push([
+        '<attributes>',
+        `  <divisions>${DIVISIONS}</divisions>`,
+        `  <key><fifths>${fifths}</fifths>${transcription.key ? `<mode>${KEY_MODES[transcription.key.mode]}</mode>` : ''}</key>`,
+        `  <time><beats>${beats}</beats><beat-type>${beatType}</beat-type></time>`,
+        `  <clef>${bassClef ? '<sign>F</sign><line>4</line>' : '<sign>G</sign><line>2</line>'}</clef>`,
+        '</attributes>',
+        '<direction placement="above">',
+        '  <direction-type>',
+        `    <metronome><beat-unit>quarter</beat-unit>${dottedBeat ? '<beat-unit-dot/>' : ''}<per-minute>${Math.round(transcription.tempo)}</per-minute></metronome>`,
+        '  </direction-type>',
+        `  <sound tempo="${quarterTempo}"/>`,
+        '</direction>'
+      ].join('\n'));
+    }
+
+    pieces.forEach(piece => {
+      let position = piece.start;
+      const parts = splitDuration(piece.duration, values);
+      parts.forEach((value, i) => {
+        // Chord symbols go with the note they start under, offset into it
+        // when the change falls mid-note
+        chords
+          .filter(chord => chord.start >= position && chord.start < position + value.duration)
+          .forEach(chord => elements.push(harmonyXml(chord.chord, chord.start - position, spelling)));
+
+        const isNote = piece.midi !== null;
+        const tieStop = isNote && (i > 0 || piece.tiedFromPrevious);
+        const tieStart = isNote && (i < parts.length - 1 || piece.tiedToNext);
+        elements.push(noteXml(piece, value, tieStop, tieStart, spelling));
+        position += value.duration;
+      });
+    });
+
+    return [
+      `<measure number="${measure + 1}">`,
+      ...elements.map(element => indent(element, 2)),
+      '</measure>'
+    ].join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8" standalone="no"?>',
+    '<!DOCTYPE score-partwise PUBLIC "-//Recordare//DTD MusicXML 4.0 Partwise//EN" "http://www.musicxml.org/dtds/partwise.dtd">',
+    '<score-partwise version="4.0">',
+    `  <work><work-title>${escapeXml(settings.title)}</work-title></work>`,
+    '  <identification>',
+    '    <encoding>',
+    '      <software>Musical Key Detector</software>',
+    `      <encoding-date>${new Date().toISOString().slice(0, 10)}</encoding-date>`,
+    '    </encoding>',
+    '  </identification>',
+    '  <part-list>',
+    '    <score-part id="P1"><part-name>Melody</part-name></score-part>',
+    '  </part-list>',
+    '  <part id="P1">',
+    ...measures.map(measure => indent(measure, 4)),
+    '  </part>',
+    '</score-partwise>',
+    ''
+  ].join('\n');
+}
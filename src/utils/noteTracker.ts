@@ -0,0 +1,196 @@
+import { NoteEvent, PitchData } from '../types/audio';
+import { DEFAULT_REFERENCE_A4 } from './defaultAudioConfig';
+
+export interface NoteTrackerConfig {
+  // Pitch confidence below which a frame counts as unvoiced
+  minConfidence: number;
+  // How far past the half-semitone boundary a held note may drift (vibrato,
+  // scoops) before it counts as a new pitch, in semitones
+  hysteresisSemitones: number;
+  // Consecutive frames a new pitch must hold before it replaces the note
+  changeFrames: number;
+  // Unvoiced time that ends a note, in seconds
+  releaseSeconds: number;
+  // Notes shorter than this are dropped, in seconds
+  minDurationSeconds: number;
+  // Level jump at an onset that re-articulates the same pitch, in dB
+  reattackDb: number;
+  // Time after the onset over which the attack level is taken, in seconds
+  attackSeconds: number;
+}
+
+const DEFAULT_NOTE_TRACKER_CONFIG: NoteTrackerConfig = {
+  minConfidence: 0.3,
+  hysteresisSemitones: 0.35,
+  changeFrames: 3,
+  releaseSeconds: 0.08,
+  minDurationSeconds: 0.06,
+  reattackDb: 6,
+  attackSeconds: 0.1
+};
+
+// Level that maps to velocity 1; 0 dBFS maps to 127
+const VELOCITY_FLOOR_DB = -60;
+// Frames of level history an onset is compared against
+const LEVEL_HISTORY = 4;
+
+export interface NoteTrackerFrame {
+  pitch: PitchData | null;
+  // Frame level in dBFS
+  amplitude: number;
+  // Spectral-flux onset from the rhythm tracker
+  onset: boolean;
+}
+
+interface ActiveNote {
+  midi: number;
+  onset: number;
+  lastVoiced: number;
+  // Fractional MIDI pitch of every voiced frame
+  pitches: number[];
+  confidenceSum: number;
+  attackDb: number;
+}
+
+interface PendingChange {
+  midi: number;
+  start: number;
+  frames: number;
+}
+
+export const velocityFromDb = (db: number) =>
+  Math.round(1 + 126 * Math.max(0, Math.min(1, (db - VELOCITY_FLOOR_DB) / -VELOCITY_FLOOR_DB)));
+
+// Turns the frame-by-frame primary pitch into discrete notes. A note holds
+// while the pitch stays within half a semitone plus the hysteresis of where
+// it started, so vibrato and intonation drift don't split it; a different
+// pitch has to last a few frames before it takes over, and a held pitch is
+// only split again by a new attack (an onset with a jump in level). Notes
+// end after a short unvoiced gap, and blips shorter than the minimum
+// duration are dropped.
+export class NoteTracker {
+  private config: NoteTrackerConfig;
+  private active: ActiveNote | null = null;
+  private pending: PendingChange | null = null;
+  private levels: number[] = [];
+
+  constructor(config: Partial<NoteTrackerConfig> = {}) {
+    this.config = { ...DEFAULT_NOTE_TRACKER_CONFIG, ...config };
+  }
+
+  // Feed every frame; `time` in seconds. Returns the notes that ended on
+  // this frame, usually none.
+  update(frame: NoteTrackerFrame, time: number, referenceA4 = DEFAULT_REFERENCE_A4): NoteEvent[] {
+    const finished: NoteEvent[] = [];
+    const quietest = this.levels.length > 0 ? Math.min(...this.levels) : frame.amplitude;
+    this.levels.push(frame.amplitude);
+    if (this.levels.length > LEVEL_HISTORY) this.levels.shift();
+
+    const { pitch } = frame;
+    if (!pitch || pitch.confidence < this.config.minConfidence || pitch.frequency <= 0) {
+      this.pending = null;
+      if (this.active && time - this.active.lastVoiced > this.config.releaseSeconds) {
+        this.finish(this.active.lastVoiced, finished);
+      }
+      return finished;
+    }
+
+    const midi = 12 * Math.log2(pitch.frequency / referenceA4) + 69;
+    if (!this.active) {
+      this.start(midi, time, frame.amplitude);
+      this.extend(midi, pitch.confidence, time, frame.amplitude);
+      return finished;
+    }
+
+    const drift = Math.abs(midi - this.active.midi);
+    if (drift <= 0.5 + this.config.hysteresisSemitones) {
+      this.pending = null;
+      const reattack = frame.onset &&
+        frame.amplitude - quietest >= this.config.reattackDb &&
+        time - this.active.onset >= this.config.minDurationSeconds;
+      if (reattack) {
+        this.finish(time, finished);
+        this.start(midi, time, frame.amplitude);
+      }
+      this.extend(midi, pitch.confidence, time, frame.amplitude);
+      return finished;
+    }
+
+    // A different pitch: wait until it has held for a few frames
+    const candidate = Math.round(midi);
+    if (this.pending && this.pending.midi === candidate) {
+      this.pending.frames++;
+    } else {
+      this.pending = { midi: candidate, start: time, frames: 1 };
+    }
+
+    if (this.pending.frames >= this.config.changeFrames) {
+      const { start } = this.pending;
+      this.finish(start, finished);
+      this.start(midi, start, frame.amplitude);
+      this.extend(midi, pitch.confidence, time, frame.amplitude);
+    }
+    return finished;
+  }
+
+  // End the sounding note, e.g. when listening stops or a file ends
+  flush(time: number): NoteEvent[] {
+    const finished: NoteEvent[] = [];
+    if (this.active) this.finish(Math.min(time, this.active.lastVoiced), finished);
+    return finished;
+  }
+
+  // The note currently sounding, with its offset so far
+  getActiveNote(): NoteEvent | null {
+    return this.active ? this.toEvent(this.active, this.active.lastVoiced) : null;
+  }
+
+  reset(): void {
+    this.active = null;
+    this.pending = null;
+    this.levels = [];
+  }
+
+  private start(midi: number, time: number, amplitude: number): void {
+    this.active = {
+      midi: Math.round(midi),
+      onset: time,
+      lastVoiced: time,
+      pitches: [],
+      confidenceSum: 0,
+      attackDb: amplitude
+    };
+    this.pending = null;
+  }
+
+  private extend(midi: number, confidence: number, time: number, amplitude: number): void {
+    const note = this.active!;
+    note.pitches.push(midi);
+    note.confidenceSum += confidence;
+    note.lastVoiced = time;
+    if (time - note.onset <= this.config.attackSeconds) {
+      note.attackDb = Math.max(note.attackDb, amplitude);
+    }
+  }
+
+  private finish(offset: number, finished: NoteEvent[]): void {
+    const note = this.active!;
+    this.active = null;
+    if (offset - note.onset < this.config.minDurationSeconds || note.pitches.length === 0) return;
+    finished.push(this.toEvent(note, offset));
+  }
+
+  // The note's pitch is the median of its frames, so a scoop into the note
+  // doesn't decide it
+  private toEvent(note: ActiveNote, offset: number): NoteEvent {
+    const sorted = [...note.pitches].sort((a, b) => a - b);
+    const median = sorted.length > 0 ? sorted[Math.floor(sorted.length / 2)] : note.midi;
+    return {
+      midi: Math.round(median),
+      onset: note.onset,
+      offset,
+      velocity: velocityFromDb(note.attackDb),
+      confidence: note.pitches.length > 0 ? note.confidenceSum / note.pitches.length : 0
+    };
+  }
+}
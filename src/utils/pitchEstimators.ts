@@ -0,0 +1,296 @@
+import { FFT } from './fft';
+
+export type PitchEstimatorType = 'autocorrelation' | 'yin' | 'pyin';
+
+export interface PitchEstimate {
+  frequency: number;
+  confidence: number;
+  // Probability that the frame is voiced at all (pYIN only)
+  voicingProbability?: number;
+}
+
+export interface PitchRange {
+  minFreq: number;
+  maxFreq: number;
+}
+
+export interface PitchEstimator {
+  readonly type: PitchEstimatorType;
+  estimate(buffer: Float32Array, sampleRate: number, range: PitchRange): PitchEstimate | null;
+}
+
+export const PITCH_ESTIMATOR_LABELS: Record<PitchEstimatorType, string> = {
+  autocorrelation: 'Autocorrelation (NSDF)',
+  yin: 'YIN',
+  pyin: 'Probabilistic YIN'
+};
+
+// Vertex of the parabola through (i-1, i, i+1); refines a lag to sub-sample precision
+function parabolicInterpolation(values: Float32Array, index: number): { position: number; value: number } {
+  if (index <= 0 || index >= values.length - 1) {
+    return { position: index, value: values[index] };
+  }
+
+  const left = values[index - 1];
+  const center = values[index];
+  const right = values[index + 1];
+  const denominator = left - 2 * center + right;
+  if (denominator === 0) {
+    return { position: index, value: center };
+  }
+
+  const shift = 0.5 * (left - right) / denominator;
+  return {
+    position: index + shift,
+    value: center - 0.25 * (left - right) * shift
+  };
+}
+
+// Correlation via zero-padded FFTs: O(n log n) instead of the O(n²) direct sum.
+class FFTCorrelator {
+  private fft: FFT | null = null;
+  private aReal = new Float32Array(0);
+  private aImag = new Float32Array(0);
+  private bReal = new Float32Array(0);
+  private bImag = new Float32Array(0);
+
+  // r(τ) = Σ x[j]·x[j+τ] for τ < buffer.length
+  autocorrelate(buffer: Float32Array): Float32Array {
+    return this.crossCorrelate(buffer, buffer, buffer.length);
+  }
+
+  // c(τ) = Σ_j a[j]·b[j+τ] for τ < lags
+  crossCorrelate(a: Float32Array, b: Float32Array, lags: number): Float32Array {
+    const size = 2 ** Math.ceil(Math.log2(a.length + b.length));
+    if (!this.fft || this.fft.size !== size) {
+      this.fft = new FFT(size);
+      this.aReal = new Float32Array(size);
+      this.aImag = new Float32Array(size);
+      this.bReal = new Float32Array(size);
+      this.bImag = new Float32Array(size);
+    }
+
+    this.aReal.fill(0);
+    this.aImag.fill(0);
+    this.bReal.fill(0);
+    this.bImag.fill(0);
+    this.aReal.set(a);
+    this.bReal.set(b);
+
+    this.fft.transform(this.aReal, this.aImag);
+    this.fft.transform(this.bReal, this.bImag);
+
+    // conj(A)·B
+    for (let i = 0; i < size; i++) {
+      const real = this.aReal[i] * this.bReal[i] + this.aImag[i] * this.bImag[i];
+      const imag = this.aReal[i] * this.bImag[i] - this.aImag[i] * this.bReal[i];
+      this.aReal[i] = real;
+      this.aImag[i] = imag;
+    }
+    this.fft.transform(this.aReal, this.aImag, true);
+
+    const result = new Float32Array(lags);
+    for (let lag = 0; lag < lags; lag++) {
+      result[lag] = this.aReal[lag] / size;
+    }
+    return result;
+  }
+}
+
+// McLeod's normalized square difference function over the FFT autocorrelation.
+// Picking the first key maximum close to the overall best (rather than the
+// single best lag) is what keeps it from jumping down an octave.
+export class AutocorrelationPitchEstimator implements PitchEstimator {
+  readonly type = 'autocorrelation' as const;
+  private correlator = new FFTCorrelator();
+
+  constructor(private keyMaximumRatio = 0.9, private minClarity = 0.2) {}
+
+  estimate(buffer: Float32Array, sampleRate: number, range: PitchRange): PitchEstimate | null {
+    const n = buffer.length;
+    const r = this.correlator.autocorrelate(buffer);
+    const minLag = Math.max(2, Math.floor(sampleRate / range.maxFreq));
+    const maxLag = Math.min(n - 2, Math.ceil(sampleRate / range.minFreq));
+
+    // m(τ) = Σ x[j]² + x[j+τ]², updated incrementally
+    const nsdf = new Float32Array(maxLag + 2);
+    let m = 2 * r[0];
+    for (let lag = 0; lag < nsdf.length; lag++) {
+      if (lag > 0) {
+        m -= buffer[lag - 1] * buffer[lag - 1] + buffer[n - lag] * buffer[n - lag];
+      }
+      nsdf[lag] = m > 0 ? (2 * r[lag]) / m : 0;
+    }
+
+    // Key maxima: the highest point between each positive-going and
+    // negative-going zero crossing, after the lobe around lag 0
+    const maxima: number[] = [];
+    let lag = 0;
+    while (lag <= maxLag && nsdf[lag] > 0) lag++;
+    while (lag <= maxLag) {
+      while (lag <= maxLag && nsdf[lag] <= 0) lag++;
+      let best = -1;
+      while (lag <= maxLag && nsdf[lag] > 0) {
+        if (best < 0 || nsdf[lag] > nsdf[best]) best = lag;
+        lag++;
+      }
+      if (best >= minLag) maxima.push(best);
+    }
+
+    if (maxima.length === 0) return null;
+
+    const highest = Math.max(...maxima.map(index => nsdf[index]));
+    const chosen = maxima.find(index => nsdf[index] >= this.keyMaximumRatio * highest) ?? maxima[0];
+    const { position, value } = parabolicInterpolation(nsdf, chosen);
+
+    if (value < this.minClarity) return null;
+
+    return {
+      frequency: sampleRate / position,
+      confidence: Math.min(1, value)
+    };
+  }
+}
+
+// Cumulative mean normalized difference d'(τ) from the YIN paper, with the
+// cross term of the difference function computed by FFT.
+class YinDifference {
+  private correlator = new FFTCorrelator();
+
+  compute(buffer: Float32Array, maxLag: number): Float32Array {
+    const window = Math.floor(buffer.length / 2);
+    const tauMax = Math.min(maxLag + 2, window);
+    // Σ_{j<W} x[j]·x[j+τ]
+    const cross = this.correlator.crossCorrelate(buffer.subarray(0, window), buffer, tauMax);
+
+    // Prefix sums of x² for the energy terms
+    const energy = new Float64Array(buffer.length + 1);
+    for (let i = 0; i < buffer.length; i++) {
+      energy[i + 1] = energy[i] + buffer[i] * buffer[i];
+    }
+
+    // d(τ) = Σ_{j<W} (x[j] - x[j+τ])² = E(0..W) + E(τ..τ+W) - 2·cross(τ)
+    const cmndf = new Float32Array(tauMax);
+    cmndf[0] = 1;
+    let runningSum = 0;
+    for (let tau = 1; tau < tauMax; tau++) {
+      const difference = Math.max(0, energy[window] + energy[window + tau] - energy[tau] - 2 * cross[tau]);
+      runningSum += difference;
+      cmndf[tau] = runningSum > 0 ? (difference * tau) / runningSum : 1;
+    }
+    return cmndf;
+  }
+}
+
+export class YinPitchEstimator implements PitchEstimator {
+  readonly type = 'yin' as const;
+  private difference = new YinDifference();
+
+  constructor(private threshold = 0.15) {}
+
+  estimate(buffer: Float32Array, sampleRate: number, range: PitchRange): PitchEstimate | null {
+    const minLag = Math.max(2, Math.floor(sampleRate / range.maxFreq));
+    const maxLag = Math.ceil(sampleRate / range.minFreq);
+    const cmndf = this.difference.compute(buffer, maxLag);
+    const lastLag = Math.min(maxLag, cmndf.length - 2);
+
+    let chosen = -1;
+    for (let tau = minLag; tau <= lastLag; tau++) {
+      if (cmndf[tau] < this.threshold) {
+        // Walk down to the bottom of this dip
+        while (tau + 1 <= lastLag && cmndf[tau + 1] < cmndf[tau]) tau++;
+        chosen = tau;
+        break;
+      }
+    }
+
+    if (chosen < 0) return null;
+
+    const { position, value } = parabolicInterpolation(cmndf, chosen);
+    return {
+      frequency: sampleRate / position,
+      confidence: Math.max(0, Math.min(1, 1 - value))
+    };
+  }
+}
+
+// Frame-level pYIN (Mauch & Dixon 2014): instead of one threshold, integrate
+// over a Beta(2, 18) distribution of thresholds. Each threshold votes for the
+// first dip under it; the votes give per-candidate probabilities and their
+// sum is the voicing probability.
+export class PYinPitchEstimator implements PitchEstimator {
+  readonly type = 'pyin' as const;
+  private difference = new YinDifference();
+  private readonly thresholds: number[] = [];
+  private readonly thresholdWeights: number[] = [];
+
+  constructor(private minVoicingProbability = 0.3) {
+    const alpha = 2;
+    const beta = 18;
+    for (let i = 1; i <= 100; i++) {
+      const threshold = i / 100;
+      this.thresholds.push(threshold);
+      this.thresholdWeights.push(Math.pow(threshold, alpha - 1) * Math.pow(1 - threshold, beta - 1));
+    }
+    const total = this.thresholdWeights.reduce((a, b) => a + b, 0);
+    for (let i = 0; i < this.thresholdWeights.length; i++) {
+      this.thresholdWeights[i] /= total;
+    }
+  }
+
+  estimate(buffer: Float32Array, sampleRate: number, range: PitchRange): PitchEstimate | null {
+    const minLag = Math.max(2, Math.floor(sampleRate / range.maxFreq));
+    const maxLag = Math.ceil(sampleRate / range.minFreq);
+    const cmndf = this.difference.compute(buffer, maxLag);
+    const lastLag = Math.min(maxLag, cmndf.length - 2);
+
+    // Local minima of d'(τ) in range, in lag order
+    const dips: number[] = [];
+    for (let tau = minLag; tau <= lastLag; tau++) {
+      if (cmndf[tau] < cmndf[tau - 1] && cmndf[tau] <= cmndf[tau + 1]) {
+        dips.push(tau);
+      }
+    }
+    if (dips.length === 0) return null;
+
+    const probabilities = new Map<number, number>();
+    this.thresholds.forEach((threshold, i) => {
+      const dip = dips.find(tau => cmndf[tau] < threshold);
+      if (dip !== undefined) {
+        probabilities.set(dip, (probabilities.get(dip) || 0) + this.thresholdWeights[i]);
+      }
+    });
+
+    let voicingProbability = 0;
+    let best = -1;
+    let bestProbability = 0;
+    probabilities.forEach((probability, tau) => {
+      voicingProbability += probability;
+      if (probability > bestProbability) {
+        bestProbability = probability;
+        best = tau;
+      }
+    });
+
+    if (best < 0 || voicingProbability < this.minVoicingProbability) return null;
+
+    const { position, value } = parabolicInterpolation(cmndf, best);
+    return {
+      frequency: sampleRate / position,
+      confidence: Math.max(0, Math.min(1, (1 - value) * voicingProbability)),
+      voicingProbability: Math.min(1, voicingProbability)
+    };
+  }
+}
+
+export function createPitchEstimator(type: PitchEstimatorType): PitchEstimator {
+  switch (type) {
+    case 'yin':
+      return new YinPitchEstimator();
+    case 'pyin':
+      return new PYinPitchEstimator();
+    case 'autocorrelation':
+    default:
+      return new AutocorrelationPitchEstimator();
+  }
+}
@@ -0,0 +1,409 @@
+import type { Recording } from '../lib/supabase';
+import { ChordSegment, ChromaData, KeySegment, NoteEvent, PitchData } from '../types/audio';
+import { KeyMode } from '../types/music';
+import type { OfflineAnalysisOptions, OfflineAnalysisResult, SmartAudioProcessor } from './audioProcessor';
+import { TimeSignature } from './beatTracker';
+import { DEFAULT_REFERENCE_A4 } from './defaultAudioConfig';
+import { AudioFrameData } from './frameAnalyzer';
+import { NOTE_NAMES } from './keyDetection';
+import { TaggedChroma } from './keyProfiles';
+import { predominantKey } from './keyTracker';
+import { MODE_INTERVALS, MusicTheoryEngine } from './musicTheory';
+
+// Stored with each recording; bump when the shape changes
+export const RECORDING_ANALYSIS_VERSION = 1;
+
+export interface PitchContourPoint {
+  time: number; // seconds
+  // Fractional MIDI note number
+  midi: number;
+}
+
+// The primary pitch over a recording, thinned out to one point per step
+export interface PitchContourSummary {
+  stepSeconds: number;
+  // Median pitch of each voiced step; unvoiced steps are left out
+  points: PitchContourPoint[];
+  // Range and median over the step medians, so octave blips don't count
+  lowest: number | null;
+  highest: number | null;
+  median: number | null;
+  voicedSeconds: number;
+}
+
+// Everything analysed in a recording (or instrumental), in seconds from the
+// start of the file; live analyses have the paused stretches cut out
+export interface RecordingAnalysis {
+  version: number;
+  // Followed live while recording, or from a pass over the stored file;
+  // unset on analyses saved before files could be re-analysed (all live)
+  source?: 'live' | 'file';
+  duration: number;
+  // The key held for longest, not the one at the moment recording stopped
+  key: { key: string; mode: KeyMode } | null;
+  keyTimeline: KeySegment[];
+  chords: ChordSegment[];
+  notes: NoteEvent[];
+  // Median of the tracked tempo
+  tempo: number;
+  timeSignature: TimeSignature;
+  beats: number[];
+  downbeats: number[];
+  pitch: PitchContourSummary;
+  referenceA4: number;
+  // Average chroma from C, summing to 1; unset on analyses saved before it
+  // was kept, and on silent recordings
+  chroma?: number[];
+}
+
+// What the live trackers hold when recording stops, still in wall-clock time
+export interface RecordingAnalysisSources {
+  keyTimeline: KeySegment[];
+  chords: ChordSegment[];
+  notes: NoteEvent[];
+}
+
+// A stretch of wall-clock time that was recorded, and where it starts in
+// the recording
+interface RecordedSpan {
+  start: number;
+  end: number | null;
+  offset: number;
+}
+
+const CONTOUR_STEP_SECONDS = 0.25;
+const PITCH_MIN_CONFIDENCE = 0.25;
+// Longest gap between frames counted as voiced time
+const MAX_FRAME_SECONDS = 0.1;
+
+const median = (values: number[]): number | null => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+// Milliseconds and hundredths of a semitone are plenty, and keep the JSON small
+const roundTime = (seconds: number) => Math.round(seconds * 1000) / 1000;
+const roundMidi = (midi: number) => Math.round(midi * 100) / 100;
+const roundTempo = (tempo: number) => Math.round(tempo * 10) / 10;
+
+const addChroma = (sum: number[], chroma: ChromaData | null) => {
+  chroma?.vector.forEach((value, i) => { sum[i] += value; });
+};
+
+const averageChroma = (sum: number[]): number[] | undefined => {
+  const total = sum.reduce((a, b) => a + b, 0);
+  return total > 0 ? sum.map(value => Math.round((value / total) * 10000) / 10000) : undefined;
+};
+
+const roundSegments = <T extends { start: number; end: number }>(segments: T[]): T[] =>
+  segments.map(segment => ({ ...segment, start: roundTime(segment.start), end: roundTime(segment.end) }));
+
+const roundNotes = (notes: NoteEvent[]): NoteEvent[] =>
+  notes.map(note => ({ ...note, onset: roundTime(note.onset), offset: roundTime(note.offset) }));
+
+// Fractional MIDI note of a confident pitch, or null
+const pitchMidi = (pitch: PitchData | null, referenceA4: number): number | null =>
+  pitch && pitch.confidence >= PITCH_MIN_CONFIDENCE && pitch.frequency > 0
+    ? 12 * Math.log2(pitch.frequency / referenceA4) + 69
+    : null;
+
+// Pools pitches into contour steps, keeping each voiced step's median
+class ContourBuilder {
+  private points: PitchContourPoint[] = [];
+  private step: { index: number; midis: number[] } | null = null;
+
+  add(time: number, midi: number): void {
+    const index = Math.floor(time / CONTOUR_STEP_SECONDS);
+    if (this.step && this.step.index !== index) this.closeStep();
+    if (!this.step) this.step = { index, midis: [] };
+    this.step.midis.push(midi);
+  }
+
+  summarise(voicedSeconds: number): PitchContourSummary {
+    this.closeStep();
+    const stepMedians = this.points.map(point => point.midi);
+    return {
+      stepSeconds: CONTOUR_STEP_SECONDS,
+      points: this.points,
+      lowest: stepMedians.length > 0 ? Math.min(...stepMedians) : null,
+      highest: stepMedians.length > 0 ? Math.max(...stepMedians) : null,
+      median: median(stepMedians),
+      voicedSeconds: roundTime(voicedSeconds)
+    };
+  }
+
+  private closeStep(): void {
+    if (!this.step) return;
+    const midi = median(this.step.midis);
+    if (midi !== null) {
+      this.points.push({ time: roundTime(this.step.index * CONTOUR_STEP_SECONDS), midi: roundMidi(midi) });
+    }
+    this.step = null;
+  }
+}
+
+// A stored file's offline analysis in the form saved with recordings
+export function analysisFromOffline(result: OfflineAnalysisResult): RecordingAnalysis {
+  const contour = new ContourBuilder();
+  const frameSeconds = result.hopSize / result.sampleRate;
+  const tempos: number[] = [];
+  const chroma = new Array(12).fill(0);
+  let voicedSeconds = 0;
+  result.frames.forEach(frame => {
+    if (frame.rhythm.tempoConfidence > 0) tempos.push(frame.rhythm.tempo);
+    addChroma(chroma, frame.chroma);
+    const midi = pitchMidi(frame.pitch, frame.tuning.referenceA4);
+    if (midi === null) return;
+    voicedSeconds += frameSeconds;
+    contour.add(frame.time, midi);
+  });
+
+  // The whole-file key is steadier than the longest segment on short files
+  const key = result.key ? { key: result.key.key, mode: result.key.mode } : predominantKey(result.keyTimeline);
+  return {
+    version: RECORDING_ANALYSIS_VERSION,
+    source: 'file',
+    duration: roundTime(result.duration),
+    key,
+    keyTimeline: roundSegments(result.keyTimeline),
+    chords: roundSegments(result.chords),
+    notes: roundNotes(result.notes),
+    tempo: roundTempo(median(tempos) ?? result.tempo),
+    timeSignature: result.timeSignature,
+    beats: result.beats.map(roundTime),
+    downbeats: result.downbeats.map(roundTime),
+    pitch: contour.summarise(voicedSeconds),
+    referenceA4: result.tuning.referenceA4,
+    chroma: averageChroma(chroma)
+  };
+}
+
+// Fetches a file from storage and runs the offline analysis over it
+export async function analyzeStoredAudio(
+  processor: SmartAudioProcessor,
+  url: string,
+  options: OfflineAnalysisOptions = {}
+): Promise<OfflineAnalysisResult> {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Failed to fetch audio: ${response.status}`);
+  return processor.analyzeOffline(await response.blob(), options);
+}
+
+// Tempo and key to suggest for an instrumental, each with how sure the
+// analysis is of it (0–1)
+export interface InstrumentalTagEstimate {
+  tempo: number;
+  tempoConfidence: number;
+  key: { key: string; mode: KeyMode } | null;
+  keyConfidence: number;
+  // Keys that scored nearly as well, e.g. the relative minor
+  alternativeKeys: { key: string; mode: KeyMode }[];
+  analysis: RecordingAnalysis;
+}
+
+export function instrumentalTagsFromOffline(result: OfflineAnalysisResult): InstrumentalTagEstimate {
+  const analysis = analysisFromOffline(result);
+  // How consistently the beat tracker was sure of itself over the file
+  const tempoConfidences = result.frames.map(frame => frame.rhythm.tempoConfidence);
+  const tempoConfidence = median(tempoConfidences) ?? 0;
+  // The whole-file detector's probabilities are spread over every key, so
+  // judge the key by how much of the file the key tracker spent in it
+  const { key, keyTimeline } = analysis;
+  const total = keyTimeline.reduce((sum, segment) => sum + segment.end - segment.start, 0);
+  const agreeing = keyTimeline
+    .filter(segment => key && segment.key === key.key && segment.mode === key.mode)
+    .reduce((sum, segment) => sum + segment.end - segment.start, 0);
+
+  return {
+    tempo: analysis.tempo,
+    tempoConfidence,
+    key,
+    keyConfidence: total > 0 ? agreeing / total : 0,
+    alternativeKeys: (result.key?.ambiguities ?? []).map(({ key, mode }) => ({ key, mode })),
+    analysis
+  };
+}
+
+// Recordings with a stored chroma and a key set by hand, to learn a key
+// profile from. Detected keys are left out: learning from them would only
+// teach the detector its own mistakes.
+export function keyProfileExamples(recordings: Recording[]): TaggedChroma[] {
+  return recordings.flatMap(recording => {
+    const vector = recording.analysis?.chroma;
+    const tonic = NOTE_NAMES.indexOf(recording.detected_key);
+    const mode = recording.detected_mode as KeyMode;
+    if (!recording.key_confirmed || !vector || tonic === -1 || !(mode in MODE_INTERVALS)) return [];
+    return [{ vector, tonic, mode }];
+  });
+}
+
+// Key text for an instrumental, whose key column has no separate mode:
+// "C", "Am", "D dorian"
+export function instrumentalKeyLabel(key: { key: string; mode: KeyMode }): string {
+  if (key.mode === 'major') return key.key;
+  if (key.mode === 'minor') return `${key.key}m`;
+  return `${key.key} ${key.mode}`;
+}
+
+// Reads an instrumental's key text back; flats are respelt as sharps.
+// Null for anything instrumentalKeyLabel would not have written.
+export function parseInstrumentalKey(label: string): { key: string; mode: KeyMode } | null {
+  const match = label.trim().match(/^([A-G])([#b]?)(m)?(?:\s+([a-z-]+))?$/);
+  if (!match) return null;
+
+  const [, letter, accidental, minor, modeName] = match;
+  const mode = (modeName ?? (minor ? 'minor' : 'major')) as KeyMode;
+  if (!(mode in MODE_INTERVALS) || (minor && modeName)) return null;
+
+  const shift = accidental === '#' ? 1 : accidental === 'b' ? -1 : 0;
+  return { key: MusicTheoryEngine.transposeNote(letter, shift), mode };
+}
+
+// Follows the live analysis while a recording runs. Frames and beats are
+// collected as they arrive; key, chord and note timelines are taken from
+// the trackers at the end. Everything is moved from wall-clock time onto
+// the recording's own time line, with paused stretches removed.
+export class RecordingAnalysisCollector {
+  private spans: RecordedSpan[] = [];
+  private beats: number[] = [];
+  private downbeats: number[] = [];
+  private lastBeatMs = -Infinity;
+  private lastDownbeatMs = -Infinity;
+  private tempos: number[] = [];
+  private lastTempo = 120;
+  private timeSignature: TimeSignature = '4/4';
+  private referenceA4 = DEFAULT_REFERENCE_A4;
+  private chroma: number[] = new Array(12).fill(0);
+
+  private contour = new ContourBuilder();
+  private voicedSeconds = 0;
+  private lastFrameTime: number | null = null;
+
+  // Times in seconds, on the same clock as the frame timestamps
+  start(time: number): void {
+    this.spans = [{ start: time, end: null, offset: 0 }];
+    this.beats = [];
+    this.downbeats = [];
+    this.lastBeatMs = time * 1000;
+    this.lastDownbeatMs = time * 1000;
+    this.tempos = [];
+    this.chroma = new Array(12).fill(0);
+    this.contour = new ContourBuilder();
+    this.voicedSeconds = 0;
+    this.lastFrameTime = null;
+  }
+
+  pause(time: number): void {
+    const span = this.currentSpan();
+    if (span) span.end = time;
+  }
+
+  resume(time: number): void {
+    const last = this.spans[this.spans.length - 1];
+    if (!last || last.end === null) return;
+    this.spans.push({ start: time, end: null, offset: last.offset + (last.end - last.start) });
+    this.lastFrameTime = null;
+  }
+
+  isRecording(): boolean {
+    return this.currentSpan() !== null;
+  }
+
+  addFrame(data: AudioFrameData): void {
+    if (!this.isRecording()) return;
+    const wallTime = data.timestamp / 1000;
+    const time = this.toRecordingTime(wallTime);
+    if (time === null) return;
+
+    const { rhythm } = data;
+    if (rhythm.tempoConfidence > 0) this.tempos.push(rhythm.tempo);
+    this.lastTempo = rhythm.tempo;
+    this.timeSignature = rhythm.timeSignature;
+    this.referenceA4 = data.tuning.referenceA4;
+    this.lastBeatMs = this.collectTimes(this.beats, rhythm.beatTimes, this.lastBeatMs);
+    this.lastDownbeatMs = this.collectTimes(this.downbeats, rhythm.downbeatTimes, this.lastDownbeatMs);
+    addChroma(this.chroma, data.chroma);
+
+    const frameSeconds = this.lastFrameTime === null ? 0 : Math.min(MAX_FRAME_SECONDS, time - this.lastFrameTime);
+    this.lastFrameTime = time;
+
+    const midi = pitchMidi(data.pitch, data.tuning.referenceA4);
+    if (midi === null) return;
+    this.voicedSeconds += frameSeconds;
+    this.contour.add(time, midi);
+  }
+
+  // Stops collecting and puts the recording's analysis together
+  finish(time: number, sources: RecordingAnalysisSources): RecordingAnalysis {
+    this.pause(time);
+
+    const keyTimeline = this.mapSegments(sources.keyTimeline);
+    const chords = this.mapSegments(sources.chords);
+    const notes = roundNotes(sources.notes
+      .map(note => ({ ...note, onset: this.clampToRecording(note.onset), offset: this.clampToRecording(note.offset) }))
+      .filter(note => note.offset > note.onset));
+
+    const analysis: RecordingAnalysis = {
+      version: RECORDING_ANALYSIS_VERSION,
+      source: 'live',
+      duration: roundTime(this.clampToRecording(time)),
+      key: predominantKey(keyTimeline),
+      keyTimeline,
+      chords,
+      notes,
+      tempo: roundTempo(median(this.tempos) ?? this.lastTempo),
+      timeSignature: this.timeSignature,
+      beats: this.beats,
+      downbeats: this.downbeats,
+      pitch: this.contour.summarise(this.voicedSeconds),
+      referenceA4: this.referenceA4,
+      chroma: averageChroma(this.chroma)
+    };
+
+    this.spans = [];
+    return analysis;
+  }
+
+  private currentSpan(): RecordedSpan | null {
+    const last = this.spans[this.spans.length - 1];
+    return last && last.end === null ? last : null;
+  }
+
+  // Recording time of a wall-clock time, or null if it wasn't recorded
+  private toRecordingTime(time: number): number | null {
+    const span = this.spans.find(s => time >= s.start && (s.end === null || time <= s.end));
+    return span ? span.offset + time - span.start : null;
+  }
+
+  // As above, but times before, between or after the recorded spans move to
+  // the nearest recorded edge, so segments crossing a pause are kept
+  private clampToRecording(time: number): number {
+    for (const span of this.spans) {
+      if (time < span.start) return span.offset;
+      if (span.end === null || time <= span.end) return span.offset + time - span.start;
+    }
+    const last = this.spans[this.spans.length - 1];
+    return last ? last.offset + ((last.end ?? time) - last.start) : 0;
+  }
+
+  private mapSegments<T extends { start: number; end: number }>(segments: T[]): T[] {
+    return roundSegments(segments
+      .map(segment => ({ ...segment, start: this.clampToRecording(segment.start), end: this.clampToRecording(segment.end) }))
+      .filter(segment => segment.end > segment.start));
+  }
+
+  // The beat tracker reports a window of recent times in ms; keep the new
+  // ones that fall while recording
+  private collectTimes(collected: number[], recent: number[], lastMs: number): number {
+    let latest = lastMs;
+    recent.forEach(ms => {
+      if (ms <= lastMs) return;
+      latest = Math.max(latest, ms);
+      const time = this.toRecordingTime(ms / 1000);
+      if (time !== null) collected.push(roundTime(time));
+    });
+    return latest;
+  }
+}
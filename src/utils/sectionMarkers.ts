@@ -0,0 +1,38 @@
+import { InstrumentalMarker } from '../lib/supabase';
+import { LoopRegion } from './loopPlayer';
+
+export const SECTION_NAMES = ['Intro', 'Verse', 'Pre-chorus', 'Chorus', 'Bridge', 'Solo', 'Outro'];
+
+// Pressing "previous" this soon after a marker goes to the one before it
+const PREVIOUS_MARKER_GRACE_SECONDS = 1;
+
+// The first section name not used yet, for a new marker
+export function suggestMarkerName(markers: InstrumentalMarker[]): string {
+  return SECTION_NAMES.find(section => !markers.some(marker => marker.name === section)) ?? `Section ${markers.length + 1}`;
+}
+
+export function createMarker(name: string, time: number): InstrumentalMarker {
+  return {
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    name,
+    // Centiseconds are plenty and keep the stored JSON short
+    time: Math.round(time * 100) / 100
+  };
+}
+
+export const sortMarkers = (markers: InstrumentalMarker[]) => [...markers].sort((a, b) => a.time - b.time);
+
+export function previousMarker(markers: InstrumentalMarker[], time: number): InstrumentalMarker | null {
+  const earlier = markers.filter(marker => marker.time < time - PREVIOUS_MARKER_GRACE_SECONDS);
+  return earlier[earlier.length - 1] ?? null;
+}
+
+export function nextMarker(markers: InstrumentalMarker[], time: number): InstrumentalMarker | null {
+  return markers.find(marker => marker.time > time + 0.05) ?? null;
+}
+
+// From a marker to the next one, or to the end of the track
+export function markerSection(markers: InstrumentalMarker[], marker: InstrumentalMarker, duration: number): LoopRegion {
+  const next = markers.find(other => other.time > marker.time);
+  return { start: marker.time, end: next?.time ?? duration };
+}
@@ -0,0 +1,162 @@
+// WSOLA (waveform-similarity overlap-add) pitch shifting and time
+// stretching. Output is built from Hann-windowed grains overlapping by half.
+// Each grain is read from the input resampled by the pitch ratio, and its
+// start is nudged within a small window to where the waveform best lines up
+// with the natural continuation of the previous grain, so periodic sounds
+// join without phasing. Formants move with the pitch.
+//
+// The same grain search runs on the audio thread for live transposition and
+// here, offline, for exporting a render.
+
+export interface StretchSettings {
+  // Pitch change; 12 is an octave up
+  semitones: number;
+  // Playback speed; 0.5 is half speed, 1 the original tempo
+  tempo: number;
+}
+
+export interface StretchOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: number) => void;
+}
+
+export const MAX_TRANSPOSE_SEMITONES = 12;
+export const MIN_STRETCH_TEMPO = 0.5;
+export const MAX_STRETCH_TEMPO = 1.5;
+
+// Grains handled between yields to the event loop when rendering offline
+const GRAINS_PER_CHUNK = 200;
+
+export const semitonesToRatio = (semitones: number) => Math.pow(2, semitones / 12);
+
+// ~45 ms grains, rounded to a power of two: 2048 at 44.1 or 48 kHz. Long
+// enough to hold a couple of periods of a bass note.
+export const grainSizeFor = (sampleRate: number) =>
+  Math.pow(2, Math.round(Math.log2(sampleRate * 0.045)));
+
+// How far either way a grain may move to find a better join
+export const searchRadiusFor = (grainSize: number) => grainSize / 4;
+
+// Periodic Hann: copies at half-grain spacing sum to exactly one
+export function hannWindow(size: number): Float32Array {
+  const window = new Float32Array(size);
+  for (let i = 0; i < size; i++) {
+    window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / size);
+  }
+  return window;
+}
+
+// Offset into region (0 to region.length - reference.length) where the
+// waveform best matches reference, by normalised cross-correlation. A coarse
+// pass over every other offset is refined at the neighbours of the winner.
+export function bestOverlapOffset(reference: Float32Array, region: Float32Array): number {
+  const length = reference.length;
+  const candidates = region.length - length;
+  if (candidates <= 0) return 0;
+
+  const score = (offset: number) => {
+    let correlation = 0;
+    let energy = 0;
+    // Every other sample is plenty at grain-sized lengths
+    for (let i = 0; i < length; i += 2) {
+      const sample = region[offset + i];
+      correlation += reference[i] * sample;
+      energy += sample * sample;
+    }
+    return energy > 0 ? correlation / Math.sqrt(energy) : 0;
+  };
+
+  let best = 0;
+  let bestScore = -Infinity;
+  for (let offset = 0; offset <= candidates; offset += 2) {
+    const value = score(offset);
+    if (value > bestScore) {
+      bestScore = value;
+      best = offset;
+    }
+  }
+  for (const offset of [best - 1, best + 1]) {
+    if (offset >= 0 && offset <= candidates && score(offset) > bestScore) {
+      bestScore = score(offset);
+      best = offset;
+    }
+  }
+  return best;
+}
+
+// Linear interpolation into a channel; silence outside it
+export function sampleAt(channel: Float32Array, position: number): number {
+  const index = Math.floor(position);
+  if (index < 0 || index >= channel.length) return 0;
+  const next = index + 1 < channel.length ? channel[index + 1] : 0;
+  return channel[index] + (next - channel[index]) * (position - index);
+}
+
+// Renders a whole decoded track with its pitch and tempo changed, one output
+// array per input channel. The grain search follows a mono mix so channels
+// stay in phase with each other.
+export async function stretchChannels(
+  channels: Float32Array[],
+  sampleRate: number,
+  settings: StretchSettings,
+  options: StretchOptions = {}
+): Promise<Float32Array[]> {
+  const ratio = semitonesToRatio(settings.semitones);
+  const tempo = settings.tempo;
+  const inputLength = channels[0]?.length ?? 0;
+  const outputLength = Math.ceil(inputLength / tempo);
+
+  const grainSize = grainSizeFor(sampleRate);
+  const hop = grainSize / 2;
+  const radius = searchRadiusFor(grainSize);
+  const overlap = grainSize / 4;
+  const window = hannWindow(grainSize);
+
+  const guide = new Float32Array(inputLength);
+  channels.forEach(channel => {
+    for (let i = 0; i < inputLength; i++) guide[i] += channel[i] / channels.length;
+  });
+
+  const outputs = channels.map(() => new Float32Array(outputLength + grainSize));
+  const reference = new Float32Array(overlap);
+  const region = new Float32Array(overlap + radius * 2);
+  const grainCount = Math.ceil(outputLength / hop) + 1;
+  let previousStart: number | null = null;
+
+  for (let grain = 0; grain < grainCount; grain++) {
+    if (options.signal?.aborted) {
+      throw new DOMException('Stretch aborted', 'AbortError');
+    }
+
+    // Each grain is centred on its nominal time, so the first starts early
+    const nominal = grain * hop * tempo - hop * ratio;
+    let start = nominal;
+    if (previousStart !== null && (ratio !== 1 || tempo !== 1)) {
+      const natural = previousStart + hop * ratio;
+      for (let i = 0; i < overlap; i++) reference[i] = sampleAt(guide, natural + i * ratio);
+      // Both read at the pitch ratio, so offsets are in resampled steps
+      for (let i = 0; i < region.length; i++) region[i] = sampleAt(guide, nominal + (i - radius) * ratio);
+      start = nominal + (bestOverlapOffset(reference, region) - radius) * ratio;
+    }
+    previousStart = start;
+
+    const outputStart = grain * hop - hop;
+    channels.forEach((channel, c) => {
+      const output = outputs[c];
+      for (let i = 0; i < grainSize; i++) {
+        const index = outputStart + i;
+        if (index >= 0 && index < output.length) {
+          output[index] += window[i] * sampleAt(channel, start + i * ratio);
+        }
+      }
+    });
+
+    if ((grain + 1) % GRAINS_PER_CHUNK === 0) {
+      options.onProgress?.((grain + 1) / grainCount);
+      await new Promise(resolve => setTimeout(resolve, 0));
+    }
+  }
+
+  options.onProgress?.(1);
+  return outputs.map(output => output.slice(0, outputLength));
+}
@@ -0,0 +1,153 @@
+import { ChordEstimate, ChordSegment, NoteEvent } from '../types/audio';
+import { KeyMode } from '../types/music';
+import type { OfflineAnalysisResult } from './audioProcessor';
+import { TimeSignature } from './beatTracker';
+import { CHORD_QUALITIES } from './chordRecognizer';
+import { NOTE_NAMES } from './keyDetection';
+
+// What the app heard in a session, ready to be written out as notation
+export interface Transcription {
+  notes: NoteEvent[];
+  chords: ChordSegment[];
+  // Beat tracker tempo: quarter notes in 4/4 and 3/4, dotted quarters in 6/8
+  tempo: number;
+  timeSignature: TimeSignature;
+  key: { key: string; mode: KeyMode } | null;
+  // Time in seconds that becomes the start of the first bar
+  start?: number;
+  // Any downbeat the beat tracker found, in seconds; without a start, bars are
+  // laid out from it so bar lines fall where the music's do
+  downbeat?: number;
+}
+
+// The parts of an analysis a transcription needs; both a file's offline
+// analysis and the one saved with a recording have them
+type TranscribableAnalysis = Pick<OfflineAnalysisResult, 'notes' | 'chords' | 'tempo' | 'timeSignature' | 'downbeats'> & {
+  key: { key: string; mode: KeyMode } | null;
+};
+
+// An analysis as a transcription; `key` overrides the key the analysis
+// found, e.g. with the one saved alongside a recording
+export function transcriptionFromAnalysis(analysis: TranscribableAnalysis, key?: Transcription['key']): Transcription {
+  return {
+    notes: analysis.notes,
+    chords: analysis.chords,
+    tempo: analysis.tempo,
+    timeSignature: analysis.timeSignature,
+    key: key ?? (analysis.key && { key: analysis.key.key, mode: analysis.key.mode }),
+    ...(analysis.downbeats.length > 0 && { downbeat: analysis.downbeats[0] })
+  };
+}
+
+export type QuantizeGrid = 'off' | '1/4' | '1/8' | '1/16' | '1/8T' | '1/16T';
+
+// Grid step in quarter notes
+export const QUANTIZE_GRIDS: Record<QuantizeGrid, { label: string; quarters: number }> = {
+  off: { label: 'Off', quarters: 0 },
+  '1/4': { label: '1/4', quarters: 1 },
+  '1/8': { label: '1/8', quarters: 1 / 2 },
+  '1/16': { label: '1/16', quarters: 1 / 4 },
+  '1/8T': { label: '1/8 triplet', quarters: 1 / 3 },
+  '1/16T': { label: '1/16 triplet', quarters: 1 / 6 }
+};
+
+// A note placed on the musical time line, in quarter notes from the start
+export interface PlacedNote {
+  midi: number;
+  start: number;
+  duration: number;
+  velocity: number;
+}
+
+export interface PlacedChord {
+  chord: ChordEstimate;
+  start: number;
+  duration: number;
+}
+
+export function parseTimeSignature(timeSignature: TimeSignature): { beats: number; beatType: number } {
+  const [beats, beatType] = timeSignature.split('/').map(Number);
+  return { beats, beatType };
+}
+
+export function quartersPerBar(timeSignature: TimeSignature): number {
+  const { beats, beatType } = parseTimeSignature(timeSignature);
+  return (beats * 4) / beatType;
+}
+
+// Quarter notes per minute, whatever note value the tracker counts in
+export function quarterNoteTempo(tempo: number, timeSignature: TimeSignature): number {
+  return timeSignature === '6/8' ? tempo * 1.5 : tempo;
+}
+
+// The bar line at or before the first note or chord, or the first event
+// itself when no downbeat is known
+export function transcriptionStart(transcription: Transcription): number {
+  if (transcription.start !== undefined) return transcription.start;
+  const onsets = [
+    ...transcription.notes.map(note => note.onset),
+    ...transcription.chords.map(chord => chord.start)
+  ];
+  const first = onsets.length > 0 ? Math.min(...onsets) : 0;
+  if (transcription.downbeat === undefined) return first;
+
+  const { tempo, timeSignature } = transcription;
+  const barSeconds = (quartersPerBar(timeSignature) * 60) / quarterNoteTempo(tempo, timeSignature);
+  return transcription.downbeat + Math.floor((first - transcription.downbeat) / barSeconds) * barSeconds;
+}
+
+// Snaps both ends to the grid; anything that would vanish keeps one step
+function place(start: number, end: number, grid: QuantizeGrid): { start: number; duration: number } {
+  const step = QUANTIZE_GRIDS[grid].quarters;
+  if (step <= 0) return { start, duration: Math.max(0, end - start) };
+
+  const snappedStart = Math.round(start / step) * step;
+  const snappedEnd = Math.round(end / step) * step;
+  return { start: snappedStart, duration: Math.max(step, snappedEnd - snappedStart) };
+}
+
+function toQuarters(transcription: Transcription): (seconds: number) => number {
+  const origin = transcriptionStart(transcription);
+  const quartersPerSecond = quarterNoteTempo(transcription.tempo, transcription.timeSignature) / 60;
+  return seconds => Math.max(0, (seconds - origin) * quartersPerSecond);
+}
+
+export function placeNotes(transcription: Transcription, grid: QuantizeGrid = 'off'): PlacedNote[] {
+  const quarters = toQuarters(transcription);
+  return transcription.notes
+    .map(note => ({
+      midi: note.midi,
+      velocity: note.velocity,
+      ...place(quarters(note.onset), quarters(note.offset), grid)
+    }))
+    .sort((a, b) => a.start - b.start);
+}
+
+// Quantizing can pull one chord's end past the next one's start, so each
+// chord is cut off where the next begins
+export function placeChords(transcription: Transcription, grid: QuantizeGrid = 'off'): PlacedChord[] {
+  const quarters = toQuarters(transcription);
+  const placed = transcription.chords
+    .map(chord => ({ chord, ...place(quarters(chord.start), quarters(chord.end), grid) }))
+    .sort((a, b) => a.start - b.start);
+
+  return placed
+    .map((chord, i) => {
+      const next = placed[i + 1];
+      return next && chord.start + chord.duration > next.start
+        ? { ...chord, duration: next.start - chord.start }
+        : chord;
+    })
+    .filter(chord => chord.duration > 0);
+}
+
+// Close-position voicing with the root from C3 up, plus the bass an octave
+// below when the chord is an inversion
+export function chordVoicing(chord: ChordEstimate): number[] {
+  const root = NOTE_NAMES.indexOf(chord.root);
+  if (root === -1) return [];
+
+  const pitches = CHORD_QUALITIES[chord.quality].intervals.map(interval => 48 + root + interval);
+  const bass = chord.bass ? NOTE_NAMES.indexOf(chord.bass) : -1;
+  return bass === -1 ? pitches : [36 + bass, ...pitches];
+}
@@ -0,0 +1,148 @@
+import { MusicTheoryEngine } from './musicTheory';
+import { DEFAULT_REFERENCE_A4 } from './defaultAudioConfig';
+
+export interface TunerTarget {
+  label: string;
+  note: string;
+  octave: number;
+}
+
+export interface TunerPreset {
+  id: string;
+  label: string;
+  // Notes to tune to; empty means chromatic (nearest semitone)
+  targets: TunerTarget[];
+  // Within this many cents the note counts as in tune
+  toleranceCents: number;
+}
+
+export interface TunerReading {
+  frequency: number;
+  note: string;
+  octave: number;
+  // Deviation from the target, -50..+50 for chromatic presets
+  cents: number;
+  targetFrequency: number;
+  // Set when tuning against a preset target, e.g. a guitar string
+  targetLabel?: string;
+  inTune: boolean;
+}
+
+export const TUNER_PRESETS: TunerPreset[] = [
+  { id: 'chromatic', label: 'Chromatic', targets: [], toleranceCents: 5 },
+  // Singers hold pitch far less steadily than an instrument
+  { id: 'voice', label: 'Voice', targets: [], toleranceCents: 15 },
+  {
+    id: 'guitar',
+    label: 'Guitar (standard)',
+    targets: [
+      { label: '6th · E', note: 'E', octave: 2 },
+      { label: '5th · A', note: 'A', octave: 2 },
+      { label: '4th · D', note: 'D', octave: 3 },
+      { label: '3rd · G', note: 'G', octave: 3 },
+      { label: '2nd · B', note: 'B', octave: 3 },
+      { label: '1st · E', note: 'E', octave: 4 }
+    ],
+    toleranceCents: 3
+  },
+  {
+    id: 'violin',
+    label: 'Violin',
+    targets: [
+      { label: 'G', note: 'G', octave: 3 },
+      { label: 'D', note: 'D', octave: 4 },
+      { label: 'A', note: 'A', octave: 4 },
+      { label: 'E', note: 'E', octave: 5 }
+    ],
+    toleranceCents: 3
+  },
+  {
+    id: 'piano-a4',
+    label: 'Piano A4',
+    targets: [{ label: 'A4', note: 'A', octave: 4 }],
+    toleranceCents: 2
+  }
+];
+
+const centsBetween = (frequency: number, target: number) => 1200 * Math.log2(frequency / target);
+
+export function getTunerReading(
+  frequency: number,
+  preset: TunerPreset = TUNER_PRESETS[0],
+  referenceA4: number = DEFAULT_REFERENCE_A4
+): TunerReading {
+  if (preset.targets.length === 0) {
+    const note = MusicTheoryEngine.getNoteFromFrequency(frequency, referenceA4);
+    const cents = note.cents ?? 0;
+    return {
+      frequency,
+      note: note.name,
+      octave: note.octave,
+      cents,
+      targetFrequency: MusicTheoryEngine.getFrequencyFromNote(note.name, note.octave, referenceA4),
+      inTune: Math.abs(cents) <= preset.toleranceCents
+    };
+  }
+
+  // Nearest target string, however far off it is
+  let best = preset.targets[0];
+  let bestFrequency = MusicTheoryEngine.getFrequencyFromNote(best.note, best.octave, referenceA4);
+  preset.targets.forEach(target => {
+    const targetFrequency = MusicTheoryEngine.getFrequencyFromNote(target.note, target.octave, referenceA4);
+    if (Math.abs(centsBetween(frequency, targetFrequency)) < Math.abs(centsBetween(frequency, bestFrequency))) {
+      best = target;
+      bestFrequency = targetFrequency;
+    }
+  });
+
+  const cents = centsBetween(frequency, bestFrequency);
+  return {
+    frequency,
+    note: best.note,
+    octave: best.octave,
+    cents,
+    targetFrequency: bestFrequency,
+    targetLabel: best.label,
+    inTune: Math.abs(cents) <= preset.toleranceCents
+  };
+}
+
+// Exponential smoothing of the needle position so frame-to-frame pitch
+// jitter doesn't make it shake. Jumps straight to a new note instead of
+// sweeping across the dial.
+export class TunerNeedle {
+  private current: TunerReading | null = null;
+  private lastTime = 0;
+
+  constructor(private timeConstantMs = 150) {}
+
+  update(reading: TunerReading, time: number, toleranceCents: number): TunerReading {
+    const previous = this.current;
+    const sameTarget = previous !== null &&
+      previous.note === reading.note &&
+      previous.octave === reading.octave &&
+      previous.targetLabel === reading.targetLabel;
+
+    if (previous && sameTarget) {
+      const elapsed = Math.max(0, time - this.lastTime);
+      const alpha = 1 - Math.exp(-elapsed / this.timeConstantMs);
+      const cents = previous.cents + alpha * (reading.cents - previous.cents);
+      this.current = {
+        ...reading,
+        cents,
+        frequency: previous.frequency + alpha * (reading.frequency - previous.frequency),
+        inTune: Math.abs(cents) <= toleranceCents
+      };
+    } else {
+      this.current = reading;
+    }
+
+    this.lastTime = time;
+    return this.current;
+  }
+
+  reset(): void {
+    this.current = null;
+    this.lastTime = 0;
+  }
+}
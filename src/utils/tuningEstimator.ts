@@ -0,0 +1,71 @@
+import { findSpectralPeaks } from './multiPitchEstimator';
+import { DEFAULT_REFERENCE_A4 } from './defaultAudioConfig';
+
+export interface TuningEstimate {
+  // A4 that puts the input on the equal-tempered grid
+  referenceA4: number;
+  // Offset from A4 = 440 Hz, within ±50 cents
+  deviationCents: number;
+  // How consistently the peaks agree on that offset (0–1)
+  confidence: number;
+}
+
+const MIN_FRAMES = 20;
+
+// Global tuning from the spectrum. Every spectral peak votes with its offset
+// from the nearest 440 Hz semitone, as an angle on a 100-cent circle so that
+// +49 and -49 cents average correctly. Votes decay slowly, so the estimate
+// follows a whole performance rather than the current note's intonation.
+export class TuningEstimator {
+  private x = 0;
+  private y = 0;
+  private totalWeight = 0;
+  private observedFrames = 0;
+
+  constructor(private decay = 0.995) {}
+
+  update(frequencyData: Float32Array, sampleRate: number): void {
+    const peaks = findSpectralPeaks(frequencyData, sampleRate, {
+      // Below ~200 Hz a bin is too wide for cent-level accuracy
+      minFrequency: 200,
+      maxFrequency: 4000,
+      rangeDb: 40,
+      minProminenceDb: 15
+    });
+    if (peaks.length === 0) return;
+
+    this.x *= this.decay;
+    this.y *= this.decay;
+    this.totalWeight *= this.decay;
+    this.observedFrames++;
+
+    peaks.forEach(peak => {
+      const cents = 1200 * Math.log2(peak.frequency / DEFAULT_REFERENCE_A4);
+      const angle = (2 * Math.PI * cents) / 100;
+      this.x += peak.magnitude * Math.cos(angle);
+      this.y += peak.magnitude * Math.sin(angle);
+      this.totalWeight += peak.magnitude;
+    });
+  }
+
+  getEstimate(): TuningEstimate {
+    if (this.totalWeight <= 0) {
+      return { referenceA4: DEFAULT_REFERENCE_A4, deviationCents: 0, confidence: 0 };
+    }
+
+    const deviationCents = (Math.atan2(this.y, this.x) / (2 * Math.PI)) * 100;
+    return {
+      referenceA4: DEFAULT_REFERENCE_A4 * Math.pow(2, deviationCents / 1200),
+      deviationCents,
+      // Don't trust the first handful of frames, however well they agree
+      confidence: (Math.hypot(this.x, this.y) / this.totalWeight) * Math.min(1, this.observedFrames / MIN_FRAMES)
+    };
+  }
+
+  reset(): void {
+    this.x = 0;
+    this.y = 0;
+    this.totalWeight = 0;
+    this.observedFrames = 0;
+  }
+}
@@ -0,0 +1,54 @@
+export type WavBitDepth = 16 | 24;
+
+const HEADER_BYTES = 44;
+
+const writeString = (view: DataView, offset: number, text: string) => {
+  for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+};
+
+// Interleaves float channels into a little-endian PCM WAV file. Samples are
+// clipped to ±1 and rounded; no dither, since the source is a live input
+// whose own noise floor is far above 16-bit quantisation.
+export function encodeWav(channels: Float32Array[], sampleRate: number, bitDepth: WavBitDepth = 16): Blob {
+  const channelCount = Math.max(1, channels.length);
+  const frames = channels[0]?.length ?? 0;
+  const bytesPerSample = bitDepth / 8;
+  const blockAlign = channelCount * bytesPerSample;
+  const dataBytes = frames * blockAlign;
+
+  const buffer = new ArrayBuffer(HEADER_BYTES + dataBytes);
+  const view = new DataView(buffer);
+
+  writeString(view, 0, 'RIFF');
+  view.setUint32(4, 36 + dataBytes, true);
+  writeString(view, 8, 'WAVE');
+  writeString(view, 12, 'fmt ');
+  view.setUint32(16, 16, true); // fmt chunk size
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, channelCount, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, bitDepth, true);
+  writeString(view, 36, 'data');
+  view.setUint32(40, dataBytes, true);
+
+  const scale = bitDepth === 16 ? 0x7fff : 0x7fffff;
+  let offset = HEADER_BYTES;
+  for (let i = 0; i < frames; i++) {
+    for (let c = 0; c < channelCount; c++) {
+      const sample = Math.max(-1, Math.min(1, channels[c]?.[i] ?? 0));
+      const value = Math.round(sample * scale);
+      if (bitDepth === 16) {
+        view.setInt16(offset, value, true);
+      } else {
+        view.setUint8(offset, value & 0xff);
+        view.setUint8(offset + 1, (value >> 8) & 0xff);
+        view.setUint8(offset + 2, (value >> 16) & 0xff);
+      }
+      offset += bytesPerSample;
+    }
+  }
+
+  return new Blob([buffer], { type: 'audio/wav' });
+}
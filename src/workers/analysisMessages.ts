@@ -0,0 +1,24 @@
+import type { AudioFrameData, AnalyzerSnapshot, FrameAnalyzerSettings } from '../utils/frameAnalyzer';
+import type { AudioConfig } from '../types/audio';
+
+// Message protocol between SmartAudioProcessor, the capture worklet and the
+// analysis worker.
+
+export const ANALYSIS_CAPTURE_PROCESSOR = 'analysis-capture';
+
+export type AnalysisWorkerRequest =
+  | { type: 'init'; config: AudioConfig; settings: FrameAnalyzerSettings; port: MessagePort }
+  | { type: 'start'; timeOrigin: number }
+  | { type: 'stop' }
+  | { type: 'configure'; settings: FrameAnalyzerSettings }
+  | { type: 'reset' };
+
+export type AnalysisWorkerResponse =
+  | { type: 'frame'; frame: AudioFrameData; snapshot: AnalyzerSnapshot };
+
+// Posted by the capture worklet, one per hop
+export interface CapturedSamplesMessage {
+  type: 'samples';
+  samples: Float32Array;
+  time: number;
+}
@@ -0,0 +1,67 @@
+import { FrameAnalyzer } from '../utils/frameAnalyzer';
+import { SpectrumAnalyzer } from '../utils/fft';
+import type { AnalysisWorkerRequest, AnalysisWorkerResponse, CapturedSamplesMessage } from './analysisMessages';
+
+// Per-frame DSP off the main thread. Samples arrive from the capture worklet
+// one hop at a time; every hop we analyse the latest fftSize samples, so the
+// frame rate is fixed by the hop size rather than by the display.
+
+let analyzer: FrameAnalyzer | null = null;
+let spectrum: SpectrumAnalyzer | null = null;
+let analysisWindow: Float32Array | null = null;
+let frequencyData: Float32Array | null = null;
+let capturePort: MessagePort | null = null;
+let running = false;
+// Wall-clock ms at audio time zero, so frame times line up with Date.now()
+let timeOrigin = 0;
+
+const post = (message: AnalysisWorkerResponse) => {
+  self.postMessage(message);
+};
+
+const handleSamples = ({ samples, time }: CapturedSamplesMessage) => {
+  if (!analyzer || !spectrum || !analysisWindow || !frequencyData) return;
+
+  // Slide the analysis window forward by one hop
+  const hop = Math.min(samples.length, analysisWindow.length);
+  analysisWindow.copyWithin(0, hop);
+  analysisWindow.set(samples.subarray(samples.length - hop), analysisWindow.length - hop);
+
+  if (!running) return;
+
+  spectrum.getFloatFrequencyData(analysisWindow, frequencyData);
+  const frame = analyzer.processFrame(analysisWindow, frequencyData, timeOrigin + time * 1000);
+  post({ type: 'frame', frame, snapshot: analyzer.getSnapshot() });
+};
+
+self.onmessage = (event: MessageEvent<AnalysisWorkerRequest>) => {
+  const message = event.data;
+
+  switch (message.type) {
+    case 'init':
+      analyzer = new FrameAnalyzer(message.config);
+      analyzer.configure(message.settings);
+      spectrum = new SpectrumAnalyzer(message.config.fftSize, 0.2);
+      analysisWindow = new Float32Array(message.config.fftSize);
+      frequencyData = new Float32Array(spectrum.frequencyBinCount);
+      capturePort?.close();
+      capturePort = message.port;
+      capturePort.onmessage = (e: MessageEvent<CapturedSamplesMessage>) => handleSamples(e.data);
+      break;
+    case 'start':
+      timeOrigin = message.timeOrigin;
+      running = true;
+      break;
+    case 'stop':
+      running = false;
+      break;
+    case 'configure':
+      analyzer?.configure(message.settings);
+      break;
+    case 'reset':
+      analyzer?.reset();
+      spectrum?.reset();
+      analysisWindow?.fill(0);
+      break;
+  }
+};
@@ -0,0 +1,52 @@
+// Runs on the audio rendering thread. Collects mono input into hop-sized
+// chunks and hands them straight to the analysis worker over a MessagePort,
+// so the main thread never touches raw samples.
+
+import { ANALYSIS_CAPTURE_PROCESSOR } from '../workers/analysisMessages';
+
+class AnalysisCaptureProcessor extends AudioWorkletProcessor {
+  private target: MessagePort | null = null;
+  private hopSize: number;
+  private chunk: Float32Array;
+  private filled = 0;
+
+  constructor(options?: AudioWorkletNodeOptions) {
+    super(options);
+    this.hopSize = options?.processorOptions?.hopSize ?? 2048;
+    this.chunk = new Float32Array(this.hopSize);
+
+    this.port.onmessage = (event: MessageEvent) => {
+      if (event.data?.type === 'connect') {
+        this.target = event.data.port as MessagePort;
+      } else if (event.data?.type === 'disconnect') {
+        this.target?.close();
+        this.target = null;
+      }
+    };
+  }
+
+  process(inputs: Float32Array[][]): boolean {
+    const input = inputs[0]?.[0];
+    if (!input || !this.target) return true;
+
+    let offset = 0;
+    while (offset < input.length) {
+      const count = Math.min(input.length - offset, this.hopSize - this.filled);
+      this.chunk.set(input.subarray(offset, offset + count), this.filled);
+      this.filled += count;
+      offset += count;
+
+      if (this.filled === this.hopSize) {
+        // Time of the last sample in the chunk, on the audio clock
+        const time = currentTime + offset / sampleRate;
+        this.target.postMessage({ type: 'samples', samples: this.chunk, time }, [this.chunk.buffer]);
+        this.chunk = new Float32Array(this.hopSize);
+        this.filled = 0;
+      }
+    }
+
+    return true;
+  }
+}
+
+registerProcessor(ANALYSIS_CAPTURE_PROCESSOR, AnalysisCaptureProcessor);
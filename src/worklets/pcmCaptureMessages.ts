@@ -0,0 +1,22 @@
+// Message protocol between AudioRecorder and the PCM capture worklet.
+
+export const PCM_CAPTURE_PROCESSOR = 'pcm-capture';
+
+export interface PcmCaptureOptions {
+  channelCount: number;
+  // Post the samples themselves (WAV capture) as well as input levels
+  collect: boolean;
+}
+
+export type PcmCaptureRequest =
+  // Stop or restart collecting samples; levels keep coming while paused
+  | { type: 'pause' }
+  | { type: 'resume' }
+  // Send whatever is buffered, then confirm
+  | { type: 'flush' };
+
+export type PcmCaptureResponse =
+  | { type: 'pcm'; channels: Float32Array[] }
+  // Over the frames since the last level message, across all channels
+  | { type: 'level'; peak: number; rms: number; clippedSamples: number }
+  | { type: 'flushed' };
@@ -0,0 +1,117 @@
+// Runs on the audio rendering thread. Meters the recorder's input and, for
+// WAV capture, copies the raw samples (one array per channel) and posts them
+// to AudioRecorder in chunks for encoding.
+
+import { PCM_CAPTURE_PROCESSOR, PcmCaptureOptions, PcmCaptureRequest, PcmCaptureResponse } from './pcmCaptureMessages';
+
+// ~85 ms at 48 kHz; keeps the message rate low without holding much back
+const CHUNK_FRAMES = 4096;
+// ~20 level updates a second at 48 kHz
+const LEVEL_FRAMES = 2400;
+// A sample this close to full scale counts as clipped (about -0.1 dBFS)
+const CLIP_LEVEL = 0.99;
+
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  private channelCount: number;
+  private collect: boolean;
+  private paused = false;
+  private chunk: Float32Array[];
+  private filled = 0;
+
+  private levelFrames = 0;
+  private peak = 0;
+  private sumSquares = 0;
+  private clippedSamples = 0;
+
+  constructor(options?: AudioWorkletNodeOptions) {
+    super(options);
+    const captureOptions = options?.processorOptions as Partial<PcmCaptureOptions> | undefined;
+    this.channelCount = captureOptions?.channelCount ?? 1;
+    this.collect = captureOptions?.collect ?? false;
+    this.chunk = this.createChunk();
+
+    this.port.onmessage = (event: MessageEvent<PcmCaptureRequest>) => {
+      switch (event.data?.type) {
+        case 'pause':
+          this.paused = true;
+          break;
+        case 'resume':
+          this.paused = false;
+          break;
+        case 'flush':
+          this.send(this.filled);
+          this.post({ type: 'flushed' });
+          break;
+      }
+    };
+  }
+
+  process(inputs: Float32Array[][]): boolean {
+    const input = inputs[0];
+    if (!input || input.length === 0) return true;
+
+    const length = input[0].length;
+    this.meter(input, length);
+    if (!this.collect || this.paused) return true;
+
+    let offset = 0;
+    while (offset < length) {
+      const count = Math.min(length - offset, CHUNK_FRAMES - this.filled);
+      this.chunk.forEach((channel, c) => {
+        // The node up- or down-mixes to channelCount, but be safe with short inputs
+        const source = input[c] ?? input[0];
+        channel.set(source.subarray(offset, offset + count), this.filled);
+      });
+      this.filled += count;
+      offset += count;
+
+      if (this.filled === CHUNK_FRAMES) this.send(CHUNK_FRAMES);
+    }
+
+    return true;
+  }
+
+  private meter(input: Float32Array[], length: number): void {
+    input.forEach(channel => {
+      for (let i = 0; i < length; i++) {
+        const magnitude = Math.abs(channel[i]);
+        if (magnitude > this.peak) this.peak = magnitude;
+        if (magnitude >= CLIP_LEVEL) this.clippedSamples++;
+        this.sumSquares += channel[i] * channel[i];
+      }
+    });
+    this.levelFrames += length;
+
+    if (this.levelFrames >= LEVEL_FRAMES) {
+      this.post({
+        type: 'level',
+        peak: this.peak,
+        rms: Math.sqrt(this.sumSquares / (this.levelFrames * input.length)),
+        clippedSamples: this.clippedSamples
+      });
+      this.levelFrames = 0;
+      this.peak = 0;
+      this.sumSquares = 0;
+      this.clippedSamples = 0;
+    }
+  }
+
+  private createChunk(): Float32Array[] {
+    return Array.from({ length: this.channelCount }, () => new Float32Array(CHUNK_FRAMES));
+  }
+
+  private send(frames: number): void {
+    if (frames > 0) {
+      const channels = this.chunk.map(channel => (frames === CHUNK_FRAMES ? channel : channel.slice(0, frames)));
+      this.post({ type: 'pcm', channels }, channels.map(channel => channel.buffer));
+    }
+    this.chunk = this.createChunk();
+    this.filled = 0;
+  }
+
+  private post(message: PcmCaptureResponse, transfer: ArrayBuffer[] = []): void {
+    this.port.postMessage(message, transfer);
+  }
+}
+
+registerProcessor(PCM_CAPTURE_PROCESSOR, PcmCaptureProcessor);
@@ -0,0 +1,7 @@
+// Message protocol between InstrumentalPlayer and the pitch shift worklet.
+
+export const PITCH_SHIFT_PROCESSOR = 'pitch-shift';
+
+export type PitchShiftRequest =
+  // Takes effect from the next grain; 0 passes the input through unchanged
+  | { type: 'semitones'; semitones: number };
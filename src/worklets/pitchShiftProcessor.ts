@@ -0,0 +1,142 @@
+// Runs on the audio rendering thread. Transposes whatever plays into it with
+// the same WSOLA grains as the offline render, at the same speed: input goes
+// into a ring buffer and grains are read back from it a fixed delay behind,
+// far enough back that the fastest grain never outruns the input.
+
+import { PITCH_SHIFT_PROCESSOR, PitchShiftRequest } from './pitchShiftMessages';
+import {
+  MAX_TRANSPOSE_SEMITONES,
+  bestOverlapOffset,
+  grainSizeFor,
+  hannWindow,
+  searchRadiusFor,
+  semitonesToRatio
+} from '../utils/timeStretch';
+
+class PitchShiftProcessor extends AudioWorkletProcessor {
+  private ratio = 1;
+  private grainSize: number;
+  private hop: number;
+  private radius: number;
+  private delay: number;
+  private window: Float32Array;
+
+  // Input history and the overlap-add output, per channel
+  private input: Float32Array[] = [];
+  private inputMask: number;
+  private output: Float32Array[] = [];
+  private outputMask: number;
+
+  // Samples in (and out) so far, and where the next grain starts
+  private time = 0;
+  private nextGrain = 0;
+  private previousStart: number | null = null;
+
+  private reference: Float32Array;
+  private region: Float32Array;
+
+  constructor(options?: AudioWorkletNodeOptions) {
+    super(options);
+    this.grainSize = grainSizeFor(sampleRate);
+    this.hop = this.grainSize / 2;
+    this.radius = searchRadiusFor(this.grainSize);
+    this.window = hannWindow(this.grainSize);
+
+    // A grain read an octave up spans two grains of input, plus the search
+    const maxRatio = semitonesToRatio(MAX_TRANSPOSE_SEMITONES);
+    this.delay = Math.ceil(this.grainSize * (1 + maxRatio) / 2 + this.radius * maxRatio) + 2;
+    this.inputMask = this.grainSize * 8 - 1;
+    this.outputMask = this.grainSize * 4 - 1;
+
+    this.reference = new Float32Array(this.grainSize / 4);
+    this.region = new Float32Array(this.reference.length + this.radius * 2);
+
+    this.port.onmessage = (event: MessageEvent<PitchShiftRequest>) => {
+      if (event.data?.type === 'semitones') {
+        const semitones = Math.max(-MAX_TRANSPOSE_SEMITONES, Math.min(MAX_TRANSPOSE_SEMITONES, event.data.semitones));
+        this.ratio = semitonesToRatio(semitones);
+      }
+    };
+  }
+
+  process(inputs: Float32Array[][], outputs: Float32Array[][]): boolean {
+    const input = inputs[0] ?? [];
+    const output = outputs[0];
+    if (!output || output.length === 0) return true;
+
+    const frames = output[0].length;
+    this.ensureChannels(output.length);
+
+    // Unconnected inputs arrive with no channels; keep time running on silence
+    this.input.forEach((ring, c) => {
+      const source = input[c] ?? input[0];
+      for (let i = 0; i < frames; i++) {
+        ring[(this.time + i) & this.inputMask] = source ? source[i] : 0;
+      }
+    });
+
+    while (this.nextGrain < this.time + frames) {
+      this.addGrain(this.nextGrain);
+      this.nextGrain += this.hop;
+    }
+
+    output.forEach((channel, c) => {
+      const ring = this.output[c];
+      for (let i = 0; i < frames; i++) {
+        const index = (this.time + i) & this.outputMask;
+        channel[i] = ring[index];
+        ring[index] = 0;
+      }
+    });
+
+    this.time += frames;
+    return true;
+  }
+
+  private ensureChannels(count: number): void {
+    while (this.input.length < count) {
+      this.input.push(new Float32Array(this.inputMask + 1));
+      this.output.push(new Float32Array(this.outputMask + 1));
+    }
+  }
+
+  // Overlap-adds the grain that starts at output time grainTime
+  private addGrain(grainTime: number): void {
+    const { grainSize, hop, radius, ratio } = this;
+    // Centre the grain on the delayed input, however much it is resampled
+    const nominal = grainTime - this.delay + (grainSize - grainSize * ratio) / 2;
+
+    let start = nominal;
+    if (this.previousStart !== null && ratio !== 1) {
+      const natural = this.previousStart + hop * ratio;
+      for (let i = 0; i < this.reference.length; i++) this.reference[i] = this.guideAt(natural + i * ratio);
+      for (let i = 0; i < this.region.length; i++) this.region[i] = this.guideAt(nominal + (i - radius) * ratio);
+      start = nominal + (bestOverlapOffset(this.reference, this.region) - radius) * ratio;
+    }
+    this.previousStart = start;
+
+    this.input.forEach((ring, c) => {
+      const out = this.output[c];
+      for (let i = 0; i < grainSize; i++) {
+        out[(grainTime + i) & this.outputMask] += this.window[i] * this.sampleAt(ring, start + i * ratio);
+      }
+    });
+  }
+
+  private sampleAt(ring: Float32Array, position: number): number {
+    if (position < 0) return 0;
+    const index = Math.floor(position);
+    const current = ring[index & this.inputMask];
+    const next = ring[(index + 1) & this.inputMask];
+    return current + (next - current) * (position - index);
+  }
+
+  // Mono mix the grain search follows, so channels stay in phase
+  private guideAt(position: number): number {
+    let sum = 0;
+    this.input.forEach(ring => { sum += this.sampleAt(ring, position); });
+    return sum / this.input.length;
+  }
+}
+
+registerProcessor(PITCH_SHIFT_PROCESSOR, PitchShiftProcessor);
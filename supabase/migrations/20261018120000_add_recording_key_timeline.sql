@@ -0,0 +1,16 @@
+/*
+  # Add key timeline to recordings
+
+  1. Modified Tables
+    - `recordings`
+      - `key_timeline` (jsonb) - Key segments detected during the recording, as
+        `[{ key, mode, start, end, confidence }]` with times in seconds from the
+        start of the recording
+
+  2. Notes
+    - Existing recordings keep an empty timeline; `detected_key`/`detected_mode`
+      still hold the key shown when the recording was saved
+*/
+
+ALTER TABLE recordings
+  ADD COLUMN IF NOT EXISTS key_timeline jsonb NOT NULL DEFAULT '[]'::jsonb;
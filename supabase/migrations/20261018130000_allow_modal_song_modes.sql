@@ -0,0 +1,19 @@
+/*
+  # Allow modal keys on songs
+
+  1. Modified Tables
+    - `songs`
+      - `mode` (text) - now also accepts the church modes (dorian, phrygian,
+        lydian, mixolydian, locrian) and harmonic-minor/melodic-minor
+
+  2. Notes
+    - Existing major/minor rows are unaffected
+*/
+
+ALTER TABLE songs DROP CONSTRAINT IF EXISTS songs_mode_check;
+
+ALTER TABLE songs
+  ADD CONSTRAINT songs_mode_check CHECK (mode IN (
+    'major', 'minor', 'dorian', 'phrygian', 'lydian', 'mixolydian', 'locrian',
+    'harmonic-minor', 'melodic-minor'
+  ));
@@ -0,0 +1,24 @@
+/*
+  # Add the full analysis to recordings
+
+  1. Modified Tables
+    - `recordings`
+      - `analysis` (jsonb, nullable) - Everything analysed while recording, with
+        times in seconds from the start of the recording (pauses removed):
+        `{ version, source, duration, key, keyTimeline, chords, notes, tempo,
+        timeSignature, beats, downbeats, pitch, referenceA4, chroma }`, where
+        `source` is `'live'` or `'file'` (re-analysed from the stored audio),
+        `pitch` summarises the pitch contour as
+        `{ stepSeconds, points: [{ time, midi }], lowest, highest, median, voicedSeconds }`
+        and `chroma` is the average pitch-class profile from C, summing to 1
+        (absent on older and silent recordings)
+
+  2. Notes
+    - Existing recordings have no analysis; `key_timeline` is still written
+      for them and for new recordings
+    - `detected_key`/`detected_mode` now hold the key held for longest over
+      the recording rather than the one showing when it was stopped
+*/
+
+ALTER TABLE recordings
+  ADD COLUMN IF NOT EXISTS analysis jsonb;
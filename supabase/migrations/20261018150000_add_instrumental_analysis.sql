@@ -0,0 +1,15 @@
+/*
+  # Add the full analysis to instrumentals
+
+  1. Modified Tables
+    - `instrumentals`
+      - `analysis` (jsonb, nullable) - Result of analysing the stored file, in
+        the same shape as `recordings.analysis`
+
+  2. Notes
+    - Filled in when an instrumental is re-analysed; re-analysis also sets
+      `tempo`, `key` and `duration` from it
+*/
+
+ALTER TABLE instrumentals
+  ADD COLUMN IF NOT EXISTS analysis jsonb;
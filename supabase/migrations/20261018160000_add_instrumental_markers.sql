@@ -0,0 +1,15 @@
+/*
+  # Add section markers to instrumentals
+
+  1. Modified Tables
+    - `instrumentals`
+      - `markers` (jsonb, not null, default '[]') - Named points in the track
+        for rehearsal (verse, chorus, bridge), as `{ id, name, time }` objects
+        with `time` in seconds, in time order
+
+  2. Notes
+    - Existing instrumentals start with no markers
+*/
+
+ALTER TABLE instrumentals
+  ADD COLUMN IF NOT EXISTS markers jsonb NOT NULL DEFAULT '[]'::jsonb;
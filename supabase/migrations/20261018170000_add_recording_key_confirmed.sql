@@ -0,0 +1,17 @@
+/*
+  # Mark recordings whose key was set by hand
+
+  1. Modified Tables
+    - `recordings`
+      - `key_confirmed` (boolean, not null, default false) - True when the key
+        was chosen manually at save time, so `detected_key`/`detected_mode`
+        are the player's key rather than the detector's guess
+
+  2. Notes
+    - Existing recordings are unconfirmed
+    - Re-analysis keeps a confirmed key; key profiles are learned only from
+      confirmed recordings
+*/
+
+ALTER TABLE recordings
+  ADD COLUMN IF NOT EXISTS key_confirmed boolean NOT NULL DEFAULT false;